@@ -1,6 +1,9 @@
 import express from 'express';
 import cors from 'cors';
 import { XAG } from './src/XAG';
+import { FileTradeStore } from './src/trades/TradeRegistry';
+import { StaticPriceFeed } from './src/pricing/QuoteService';
+import { TradeState, AssetConfig } from './src/types';
 import path from 'path';
 
 const app = express();
@@ -24,11 +27,72 @@ app.get('/demo', (req, res) => {
 // Serve static files from frontend directory (but NOT index.html - we handle that above)
 app.use('/static', express.static(frontendPath));
 
-const xag = new XAG();
+// Set XAG_TRADE_STORE to a JSON file path to keep the trade registry across restarts
+// Set XAG_ASSETS to a JSON array of asset configs, e.g. [{"code":"EURQ","issuers":{"1":"r..."}}], to trade more issued currencies
+// Set XAG_PRICES to fixed rates, e.g. {"XRP/RLUSD":0.5}, to quote pairs with no market on-ledger
+const xag = new XAG(undefined, {
+  ...(process.env.XAG_TRADE_STORE && { tradeStore: new FileTradeStore(process.env.XAG_TRADE_STORE) }),
+  ...(process.env.XAG_ASSETS && { assets: JSON.parse(process.env.XAG_ASSETS) as AssetConfig[] }),
+  ...(process.env.XAG_PRICES && { priceFeed: new StaticPriceFeed(JSON.parse(process.env.XAG_PRICES)) })
+});
 
 // Connect to XRPL on startup
 xag.connect().catch(console.error);
 
+// Routes that submit a transaction, and so can be dry-run
+const DRY_RUN_ROUTES = [
+  /^\/did\/[^/]+\/(rotate-key|revoke-key|recover|deactivate|reactivate)$/,
+  /^\/(initiate-trade|fulfill-trade|cancel-trade|fulfill-milestone|cancel-milestone)$/,
+  /^\/attestations$/,
+  /^\/disputes(\/[^/]+\/(evidence|ruling))?$/,
+  /^\/trustlines\/[^/]+\/[^/]+(\/remove)?$/,
+  /^\/channels(\/[^/]+\/(fund|redeem|close))?$/,
+  /^\/trades\/[^/]+\/rating$/,
+  /^\/(log|messages\/anchor|intent|negotiation|negotiation\/counter)$/,
+  /^\/profile\/[^/]+$/,
+  /^\/credentials\/revoke$/,
+  /^\/ledger-credentials\/(issue|accept|delete)$/
+];
+
+// POST a route that submits a transaction with ?dryRun=true to get the transaction it would submit, with its cost,
+// instead of submitting it. Other routes refuse, since they would run for real.
+app.use('/api', (req, res, next) => {
+  if (req.method !== 'POST' || req.query.dryRun !== 'true') {
+    return next();
+  }
+  if (req.path === '/create-agent') {
+    return res.status(400).json({ error: 'create-agent funds a new account from the faucet and cannot be dry-run' });
+  }
+  if (!DRY_RUN_ROUTES.some(route => route.test(req.path))) {
+    return res.status(400).json({ error: `${req.path} does not submit a transaction and cannot be dry-run` });
+  }
+
+  const json = res.json.bind(res);
+  let status = 200;
+  xag.dryRun(() => new Promise((resolve, reject) => {
+    // Capture the route's own response instead of sending it
+    res.json = (body: any) => {
+      status = res.statusCode;
+      if (status >= 400) {
+        reject(new Error(body?.error || `Request failed with status ${status}`));
+      } else {
+        resolve(body);
+      }
+      return res;
+    };
+    next();
+  }))
+    .then(report => {
+      // The route itself fails with 500 when the dry run stops it
+      res.status(200);
+      json({ dryRun: true, ...report });
+    })
+    .catch(error => {
+      res.status(status >= 400 && status < 500 ? status : 500);
+      json({ error: error.message });
+    });
+});
+
 // API Routes
 app.post('/api/create-agent', async (req, res) => {
   try {
@@ -39,6 +103,80 @@ app.post('/api/create-agent', async (req, res) => {
   }
 });
 
+// DID resolution endpoint
+app.get('/api/did/:did', async (req, res) => {
+  try {
+    const result = await xag.resolveDIDDocument(req.params.did);
+    const error = result.didResolutionMetadata.error;
+    res.status(error === 'invalidDid' ? 400 : error === 'notFound' ? 404 : 200).json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/did/:did/keys', async (req, res) => {
+  try {
+    const history = await xag.getKeyHistory(req.params.did);
+    res.json(history);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/did/:did/rotate-key', async (req, res) => {
+  try {
+    const result = await xag.rotateAgentKey(req.params.did, req.body.agentSeed);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/did/:did/revoke-key', async (req, res) => {
+  try {
+    const { key, agentSeed } = req.body;
+    if (key !== 'master' && key !== 'regular') {
+      return res.status(400).json({ error: "key must be 'master' or 'regular'" });
+    }
+    const hash = await xag.revokeAgentKey(req.params.did, key, agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/did/:did/recover', async (req, res) => {
+  try {
+    const { regularKeySeed } = req.body;
+    if (!regularKeySeed) {
+      return res.status(400).json({ error: 'regularKeySeed is required' });
+    }
+    const result = await xag.recoverAgent(req.params.did, regularKeySeed);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/did/:did/deactivate', async (req, res) => {
+  try {
+    const hash = await xag.deactivateAgent(req.params.did, req.body.agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/did/:did/reactivate', async (req, res) => {
+  try {
+    const { name, type, agentSeed } = req.body;
+    const hash = await xag.reactivateAgent(req.params.did, { name, type }, agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.post('/api/initiate-trade', async (req, res) => {
   try {
     const { buyerSeed, ...config } = req.body;
@@ -49,14 +187,55 @@ app.post('/api/initiate-trade', async (req, res) => {
   }
 });
 
+app.post('/api/trades/quote', async (req, res) => {
+  try {
+    const quote = await xag.quoteTrade(req.body);
+    res.json(quote);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/trades', async (req, res) => {
+  try {
+    const { buyer, seller, party, state } = req.query as Record<string, string | undefined>;
+    const trades = await xag.listTrades({ buyer, seller, party, state: state as TradeState | undefined });
+    res.json({ trades });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/trades/:id', async (req, res) => {
+  try {
+    const trade = await xag.getTrade(req.params.id, { reconcile: req.query.reconcile === 'true' });
+    if (!trade) {
+      return res.status(404).json({ error: `Trade ${req.params.id} not found` });
+    }
+    res.json(trade);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trades/reconcile', async (req, res) => {
+  try {
+    const trades = await xag.reconcileTrades(req.body?.id);
+    res.json({ trades });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.post('/api/fulfill-trade', async (req, res) => {
   try {
     const { sellerSeed, ...params } = req.body;
     const hash = await xag.fulfillTrade(
       params.escrowHash,
       params.sellerDID,
-      params.token || 'XRP',
-      sellerSeed
+      params.token,
+      sellerSeed,
+      params.fulfillment
     );
     res.json({ hash });
   } catch (error: any) {
@@ -64,6 +243,298 @@ app.post('/api/fulfill-trade', async (req, res) => {
   }
 });
 
+app.post('/api/confirm-delivery', async (req, res) => {
+  try {
+    const { tradeHash, buyerDID, buyerSeed } = req.body;
+    if (!tradeHash || !buyerDID) {
+      return res.status(400).json({ error: 'tradeHash and buyerDID are required' });
+    }
+    const record = await xag.confirmDelivery(tradeHash, buyerDID, buyerSeed);
+    res.json({ tradeHash, status: record.status, releasedAt: record.releasedAt });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/attestations', async (req, res) => {
+  try {
+    const { tradeHash, oracleDID, oracleSeed, delivered, quantity, unit, evidence, observedAt } = req.body;
+    if (!tradeHash || !oracleDID || typeof delivered !== 'boolean') {
+      return res.status(400).json({ error: 'tradeHash, oracleDID and delivered (boolean) are required' });
+    }
+    const result = await xag.attestDelivery(tradeHash, oracleDID, { delivered, quantity, unit, evidence, observedAt }, oracleSeed);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/attestations/verify', async (req, res) => {
+  try {
+    const { attestation, oracleDID, tradeHash } = req.body;
+    if (!attestation) {
+      return res.status(400).json({ error: 'attestation is required' });
+    }
+    const result = await xag.verifyAttestation(attestation, { oracleDID, tradeHash });
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trades/:hash/check-attestation', async (req, res) => {
+  try {
+    const record = await xag.checkDeliveryAttestation(req.params.hash);
+    res.json({ tradeHash: req.params.hash, status: record.status, releasedAt: record.releasedAt, attestationHash: record.attestationHash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes', async (req, res) => {
+  try {
+    const { tradeHash, partyDID, partySeed, reason, evidence } = req.body;
+    if (!tradeHash || !partyDID || !reason) {
+      return res.status(400).json({ error: 'tradeHash, partyDID and reason are required' });
+    }
+    const result = await xag.openDispute(tradeHash, partyDID, reason, evidence, partySeed);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/disputes/:tradeHash', async (req, res) => {
+  try {
+    const dispute = await xag.getDispute(req.params.tradeHash);
+    if (!dispute) {
+      return res.status(404).json({ error: 'Dispute not found' });
+    }
+    res.json(dispute);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:tradeHash/evidence', async (req, res) => {
+  try {
+    const { partyDID, partySeed, evidence } = req.body;
+    if (!partyDID || evidence === undefined) {
+      return res.status(400).json({ error: 'partyDID and evidence are required' });
+    }
+    const hash = await xag.submitEvidence(req.params.tradeHash, partyDID, evidence, partySeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/disputes/:tradeHash/ruling', async (req, res) => {
+  try {
+    const { arbiterDID, arbiterSeed, outcome, faultedParty, summary } = req.body;
+    if (!arbiterDID || (outcome !== 'release' && outcome !== 'refund') || !summary) {
+      return res.status(400).json({ error: 'arbiterDID, outcome (release or refund) and summary are required' });
+    }
+    const ruling = await xag.issueRuling(req.params.tradeHash, arbiterDID, { outcome, faultedParty, summary }, arbiterSeed);
+    res.json(ruling);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/trustlines/:did/:asset', async (req, res) => {
+  try {
+    const line = await xag.getTrustLine(req.params.did, req.params.asset);
+    res.json(line);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trustlines/:did/:asset', async (req, res) => {
+  try {
+    const { limit, noRipple, agentSeed } = req.body;
+    const hash = await xag.setTrustLine(req.params.did, req.params.asset, { limit, noRipple }, agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trustlines/:did/:asset/remove', async (req, res) => {
+  try {
+    const hash = await xag.removeTrustLine(req.params.did, req.params.asset, req.body.agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trades/check', async (req, res) => {
+  try {
+    const check = await xag.checkTokenTrade(req.body);
+    res.json(check);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/quote', async (req, res) => {
+  try {
+    const { amount, from, to } = req.query as Record<string, string | undefined>;
+    if (!amount || !from || !to) {
+      return res.status(400).json({ error: 'amount, from and to are required' });
+    }
+    const quote = await xag.quote(amount, from, to);
+    res.json(quote);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/assets', (req, res) => {
+  res.json(xag.listAssets());
+});
+
+app.post('/api/cancel-trade', async (req, res) => {
+  try {
+    const { escrowHash, callerDID, callerSeed } = req.body;
+    if (!escrowHash || !callerDID) {
+      return res.status(400).json({ error: 'escrowHash and callerDID are required' });
+    }
+    const hash = await xag.cancelTrade(escrowHash, callerDID, callerSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/fulfill-milestone', async (req, res) => {
+  try {
+    const { tradeId, milestoneIndex, sellerDID, sellerSeed, fulfillment } = req.body;
+    if (!tradeId || milestoneIndex === undefined || !sellerDID) {
+      return res.status(400).json({ error: 'tradeId, milestoneIndex and sellerDID are required' });
+    }
+    const hash = await xag.fulfillMilestone(tradeId, Number(milestoneIndex), sellerDID, sellerSeed, fulfillment);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/cancel-milestone', async (req, res) => {
+  try {
+    const { tradeId, milestoneIndex, callerDID, callerSeed } = req.body;
+    if (!tradeId || milestoneIndex === undefined || !callerDID) {
+      return res.status(400).json({ error: 'tradeId, milestoneIndex and callerDID are required' });
+    }
+    const hash = await xag.cancelMilestone(tradeId, Number(milestoneIndex), callerDID, callerSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/milestones/:tradeId', async (req, res) => {
+  try {
+    const party = req.query.party as string;
+    if (!party) {
+      return res.status(400).json({ error: 'party query parameter (buyer or seller DID) is required' });
+    }
+    const progress = await xag.getMilestoneProgress(req.params.tradeId, party);
+    res.json(progress);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels', async (req, res) => {
+  try {
+    const { payerDID, payeeDID, amount, settleDelay, cancelAfter, payerSeed } = req.body;
+    if (!payerDID || !payeeDID || !amount) {
+      return res.status(400).json({ error: 'payerDID, payeeDID and amount are required' });
+    }
+    const channel = await xag.openChannel(payerDID, payeeDID, amount, { settleDelay, cancelAfter }, payerSeed);
+    res.json(channel);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/channels/:id', async (req, res) => {
+  try {
+    const channel = await xag.getChannel(req.params.id);
+    res.json(channel);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels/:id/fund', async (req, res) => {
+  try {
+    const { payerDID, amount, payerSeed } = req.body;
+    if (!payerDID || !amount) {
+      return res.status(400).json({ error: 'payerDID and amount are required' });
+    }
+    const hash = await xag.fundChannel(req.params.id, payerDID, amount, payerSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels/:id/claims', async (req, res) => {
+  try {
+    const { payerDID, amount, payerSeed } = req.body;
+    if (!payerDID || !amount) {
+      return res.status(400).json({ error: 'payerDID and amount are required' });
+    }
+    const claim = await xag.payChannel(req.params.id, payerDID, amount, payerSeed);
+    res.json(claim);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels/:id/claims/verify', async (req, res) => {
+  try {
+    const { claim, payeeDID } = req.body;
+    if (!claim || claim.channelId !== req.params.id) {
+      return res.status(400).json({ error: 'A claim for this channel is required' });
+    }
+    const result = await xag.verifyChannelClaim(claim, payeeDID);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels/:id/redeem', async (req, res) => {
+  try {
+    const { payeeDID, payeeSeed, close } = req.body;
+    if (!payeeDID) {
+      return res.status(400).json({ error: 'payeeDID is required' });
+    }
+    const hash = await xag.redeemChannel(req.params.id, payeeDID, payeeSeed, Boolean(close));
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/channels/:id/close', async (req, res) => {
+  try {
+    const { callerDID, callerSeed } = req.body;
+    if (!callerDID) {
+      return res.status(400).json({ error: 'callerDID is required' });
+    }
+    const hash = await xag.closeChannel(req.params.id, callerDID, callerSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.get('/api/reputation/:did', async (req, res) => {
   try {
     const reputation = await xag.getReputation(req.params.did);
@@ -73,6 +544,77 @@ app.get('/api/reputation/:did', async (req, res) => {
   }
 });
 
+app.get('/api/reputation/:did/history', async (req, res) => {
+  try {
+    const { interval, since } = req.query as Record<string, string | undefined>;
+    if (interval !== undefined && interval !== 'day' && interval !== 'week') {
+      return res.status(400).json({ error: "interval must be 'day' or 'week'" });
+    }
+    const history = await xag.getReputationHistory(req.params.did, { interval, since });
+    res.json(history);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/reputation/:did/proof', async (req, res) => {
+  try {
+    const { agentSeed } = req.body;
+    const proof = await xag.exportReputationProof(req.params.did, agentSeed);
+    res.json(proof);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/reputation/proof/verify', async (req, res) => {
+  try {
+    const { proof, sample } = req.body;
+    if (!proof) {
+      return res.status(400).json({ error: 'proof is required' });
+    }
+    const result = await xag.verifyReputationProof(proof, { sample: sample !== undefined ? Number(sample) : undefined });
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/trades/:hash/rating', async (req, res) => {
+  try {
+    const { raterDID, score, comment, raterSeed } = req.body;
+    if (!raterDID || score === undefined) {
+      return res.status(400).json({ error: 'raterDID and score are required' });
+    }
+    const result = await xag.rateTrade(req.params.hash, raterDID, { score: Number(score), comment }, raterSeed);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/ratings/:did', async (req, res) => {
+  try {
+    const ratings = await xag.getRatings(req.params.did);
+    res.json(ratings);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/ratings/verify', async (req, res) => {
+  try {
+    const { rating } = req.body;
+    if (!rating) {
+      return res.status(400).json({ error: 'rating is required' });
+    }
+    const result = await xag.verifyRating(rating);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.post('/api/log', async (req, res) => {
   try {
     const { message, level, agentDID, agentSeed } = req.body;
@@ -107,6 +649,40 @@ app.get('/api/history/:did', async (req, res) => {
   }
 });
 
+// Signed message endpoints
+app.post('/api/messages', async (req, res) => {
+  try {
+    const { senderDID, recipientDID, payload, ttlSeconds, senderSeed } = req.body;
+    if (!senderDID || !recipientDID) {
+      return res.status(400).json({ error: 'senderDID and recipientDID are required' });
+    }
+    const envelope = await xag.createMessage(senderDID, recipientDID, payload, { ttlSeconds }, senderSeed);
+    res.json(envelope);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/messages/verify', async (req, res) => {
+  try {
+    const { envelope, recipientDID } = req.body;
+    const result = await xag.verifyMessage(envelope, { recipientDID });
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/messages/anchor', async (req, res) => {
+  try {
+    const { envelope, senderSeed } = req.body;
+    const hash = await xag.anchorMessage(envelope, senderSeed);
+    res.json({ hash, envelopeId: envelope.id });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Profile endpoints
 app.post('/api/profile/:did', async (req, res) => {
   try {
@@ -128,6 +704,24 @@ app.get('/api/profile/:did', async (req, res) => {
 });
 
 // Verification endpoint
+app.get('/api/agents', async (req, res) => {
+  try {
+    const { agents, type, capabilities, minReputation, sortBy, currency, order } = req.query as Record<string, string | undefined>;
+    const results = await xag.searchAgents({
+      agents: agents ? agents.split(',') : [],
+      type,
+      capabilities: capabilities ? capabilities.split(',') : undefined,
+      minReputation: minReputation !== undefined ? parseFloat(minReputation) : undefined,
+      sortBy: sortBy as 'price' | undefined,
+      currency,
+      order: order as 'asc' | 'desc' | undefined
+    });
+    res.json({ agents: results });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.get('/api/verify/:did', async (req, res) => {
   try {
     const requirements = req.query.requirements ? JSON.parse(req.query.requirements as string) : {};
@@ -138,6 +732,116 @@ app.get('/api/verify/:did', async (req, res) => {
   }
 });
 
+// Verifiable Credential endpoints
+app.post('/api/credentials/issue', async (req, res) => {
+  try {
+    const { issuerDID, subjectDID, credential, issuerSeed } = req.body;
+    if (!issuerDID || !subjectDID || !credential?.type) {
+      return res.status(400).json({ error: 'issuerDID, subjectDID and credential.type are required' });
+    }
+    const vc = await xag.issueCredential(issuerDID, subjectDID, credential, issuerSeed);
+    res.json(vc);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/credentials/:did', async (req, res) => {
+  try {
+    res.json(xag.getCredentials(req.params.did, req.query.type as string | undefined));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/credentials/store', async (req, res) => {
+  try {
+    xag.storeCredential(req.body.credential);
+    res.json({ stored: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/credentials/verify', async (req, res) => {
+  try {
+    const { credential, presentation, challenge, trustedIssuers } = req.body;
+    const result = presentation
+      ? await xag.verifyPresentation(presentation, { challenge, trustedIssuers })
+      : await xag.verifyCredential(credential, { trustedIssuers });
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/credentials/present', async (req, res) => {
+  try {
+    const { holderDID, types, challenge, holderSeed } = req.body;
+    const presentation = await xag.presentCredentials(holderDID, { types, challenge }, holderSeed);
+    res.json(presentation);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/credentials/revoke', async (req, res) => {
+  try {
+    const { issuerDID, credentialId, issuerSeed } = req.body;
+    const hash = await xag.revokeCredential(issuerDID, credentialId, issuerSeed);
+    res.json({ hash, credentialId });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// On-ledger (XLS-70) credential endpoints
+app.post('/api/ledger-credentials/issue', async (req, res) => {
+  try {
+    const { issuerDID, subjectDID, credentialType, expiration, uri, issuerSeed } = req.body;
+    if (!issuerDID || !subjectDID || !credentialType) {
+      return res.status(400).json({ error: 'issuerDID, subjectDID and credentialType are required' });
+    }
+    const hash = await xag.issueLedgerCredential(issuerDID, subjectDID, credentialType, { expiration, uri }, issuerSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/ledger-credentials/accept', async (req, res) => {
+  try {
+    const { subjectDID, issuerDID, credentialType, subjectSeed } = req.body;
+    const hash = await xag.acceptLedgerCredential(subjectDID, issuerDID, credentialType, subjectSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/ledger-credentials/delete', async (req, res) => {
+  try {
+    const { agentDID, issuer, subject, credentialType, agentSeed } = req.body;
+    const hash = await xag.deleteLedgerCredential(agentDID, { issuer, subject, credentialType }, agentSeed);
+    res.json({ hash });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.get('/api/ledger-credentials/:did', async (req, res) => {
+  try {
+    const credentials = await xag.getLedgerCredentials(req.params.did, {
+      issuer: req.query.issuer as string | undefined,
+      subject: req.query.subject as string | undefined,
+      credentialType: req.query.credentialType as string | undefined
+    });
+    res.json(credentials);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Intent endpoints
 app.post('/api/intent', async (req, res) => {
   try {
@@ -155,7 +859,10 @@ app.get('/api/intents', async (req, res) => {
       type: req.query.type as 'offer' | 'request' | undefined,
       category: req.query.category as string | undefined,
       agentDID: req.query.agentDID as string | undefined,
-      limit: parseInt(req.query.limit as string) || 50
+      limit: parseInt(req.query.limit as string) || 50,
+      sortBy: req.query.sortBy as 'timestamp' | 'price' | undefined,
+      currency: req.query.currency as string | undefined,
+      order: req.query.order as 'asc' | 'desc' | undefined
     };
     const intents = await xag.searchIntents(criteria);
     res.json(intents);
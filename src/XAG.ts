@@ -1,37 +1,127 @@
-import { Client, Wallet, Payment, Memo, xrpToDrops } from 'xrpl';
-import { AgentConfig, Agent, TradeConfig, TradeResult, ReputationResult, AgentProfile, Intent, Negotiation, VerificationResult } from './types';
+import { Client, Wallet, Payment, Memo, SubmittableTransaction, xrpToDrops } from 'xrpl';
+import { AgentConfig, Agent, TradeConfig, TradeResult, ReputationResult, AgentProfile, Intent, Negotiation, VerificationResult, DIDResolutionResult, DIDKeyHistoryEntry, NetworkConfig, VerificationRequirements, VerifiableCredential, VerifiablePresentation, CredentialVerificationResult, LedgerCredential, MessageEnvelope, EnvelopeVerificationResult, FulfillmentStore, ConditionRecord, EscrowRefundOutcome, MilestoneProgress, TradeRecord, TradeState, TradeStore, PaymentChannel, ChannelClaim, ChannelClaimVerification, ChannelBalance, DeliveryAttestation, AttestationVerificationResult, Dispute, DisputeRuling, DryRunReport, AssetConfig, PathQuote, PriceFeed, PriceQuote, TrustLineStatus, TokenTradeCheck, ReputationFactors, ReputationHistory, ReputationProof, ReputationProofVerificationResult, TradeRating, RatingVerificationResult } from './types';
 import { DIDManager } from './identity/DIDManager';
 import { EscrowManager } from './escrow/EscrowManager';
+import { ConditionManager } from './escrow/ConditionManager';
+import { EscrowWatcher } from './escrow/EscrowWatcher';
+import { TradeRegistry } from './trades/TradeRegistry';
+import { PaymentChannelManager } from './channels/PaymentChannelManager';
+import { DeliveryOracle } from './oracle/DeliveryOracle';
+import { DisputeService } from './disputes/DisputeService';
+import { MultisigManager } from './disputes/MultisigManager';
 import { ReputationService } from './reputation/ReputationService';
-import { RLUSDManager } from './currency/RLUSDManager';
+import { RatingService } from './reputation/RatingService';
+import { TokenManager } from './currency/TokenManager';
+import { AssetRegistry } from './currency/AssetRegistry';
+import { PathfindingService } from './currency/PathfindingService';
+import { Money, MoneyInput } from './currency/Money';
+import { QuoteService } from './pricing/QuoteService';
 import { ProfileManager } from './profile/ProfileManager';
 import { VerificationService } from './verification/VerificationService';
 import { IntentService } from './intent/IntentService';
 import { NegotiationService } from './negotiation/NegotiationService';
+import { CredentialService } from './credentials/CredentialService';
+import { LedgerCredentialManager } from './credentials/LedgerCredentialManager';
+import { MessagingService } from './messaging/MessagingService';
+import { submitTransaction, runDryRun } from './transactions/submit';
 
 export class XAG {
   private client: Client;
   private network: string;
   private didManager: DIDManager;
   private escrowManager: EscrowManager;
+  private conditionManager: ConditionManager;
+  private escrowWatcher: EscrowWatcher;
+  private tradeRegistry: TradeRegistry;
+  private channelManager: PaymentChannelManager;
+  private deliveryOracle: DeliveryOracle;
+  private disputeService: DisputeService;
+  private multisigManager: MultisigManager;
   private reputationService: ReputationService;
-  private rlusdManager: RLUSDManager;
+  private ratingService: RatingService;
+  private tokenManager: TokenManager;
+  private assets: AssetRegistry;
+  private pathfindingService: PathfindingService;
+  private quoteService: QuoteService;
   private profileManager: ProfileManager;
   private verificationService: VerificationService;
   private intentService: IntentService;
   private negotiationService: NegotiationService;
+  private credentialService: CredentialService;
+  private ledgerCredentialManager: LedgerCredentialManager;
+  private messagingService: MessagingService;
   private agentWallets: Map<string, Wallet> = new Map(); // Store wallets by DID
+  private networks: Map<number, NetworkConfig> = new Map(); // Additional networks for cross-network DID resolution
+  private networkClients: Map<number, Client> = new Map();
 
-  constructor(network: string = 'wss://s.altnet.rippletest.net:51233') {
+  constructor(
+    network: string = 'wss://s.altnet.rippletest.net:51233',
+    options: {
+      networks?: NetworkConfig[];
+      trustedIssuers?: string[];
+      fulfillmentStore?: FulfillmentStore;
+      fulfillmentEncryptionKey?: string; // 32-byte hex key for fulfillments at rest
+      escrowWatcher?: { intervalMs?: number; onOutcome?: (outcome: EscrowRefundOutcome) => void };
+      tradeStore?: TradeStore; // Defaults to in-memory; use FileTradeStore to keep trades across restarts
+      assets?: AssetConfig[]; // Issued currencies to trade besides RLUSD, with their issuer per network
+      priceFeed?: PriceFeed; // Fallback for pairs with no order book or AMM pool, e.g. StaticPriceFeed locally
+      quoteMaxAgeMs?: number; // How long quoted rates are cached (default 60s)
+      reputation?: Partial<ReputationFactors>; // Overrides for the reputation model's weights and penalties
+    } = {}
+  ) {
     this.network = network;
+    for (const config of options.networks || []) {
+      this.networks.set(config.networkId, config);
+    }
     this.client = new Client(this.network);
+    this.assets = new AssetRegistry();
+    for (const asset of options.assets || []) {
+      this.assets.register(asset);
+    }
     this.didManager = new DIDManager(this.client);
-    this.escrowManager = new EscrowManager(this.client);
-    this.reputationService = new ReputationService(this.client);
-    this.rlusdManager = new RLUSDManager(this.client);
-    this.profileManager = new ProfileManager(this.client);
-    this.verificationService = new VerificationService(this.client);
-    this.intentService = new IntentService(this.client);
+    this.escrowManager = new EscrowManager(this.client, { assets: this.assets });
+    this.conditionManager = new ConditionManager({
+      store: options.fulfillmentStore,
+      encryptionKey: options.fulfillmentEncryptionKey
+    });
+    this.tradeRegistry = new TradeRegistry(this.client, { store: options.tradeStore });
+    this.channelManager = new PaymentChannelManager(this.client);
+    this.deliveryOracle = new DeliveryOracle(this.client);
+    this.disputeService = new DisputeService(this.client);
+    this.multisigManager = new MultisigManager(this.client);
+    const onRefund = options.escrowWatcher?.onOutcome || ((outcome: EscrowRefundOutcome) => this.logRefund(outcome));
+    this.escrowWatcher = new EscrowWatcher(this.client, {
+      intervalMs: options.escrowWatcher?.intervalMs,
+      onOutcome: outcome => {
+        if (outcome.status === 'refunded') {
+          this.tradeRegistry.markResolved(outcome.escrow.createHash, 'cancelled', outcome.hash!)
+            .catch(error => console.error('Failed to record refund in trade registry:', error));
+        }
+        onRefund(outcome);
+      }
+    });
+    this.tokenManager = new TokenManager(this.client);
+    this.pathfindingService = new PathfindingService(this.client, { assets: this.assets });
+    this.quoteService = new QuoteService(this.client, {
+      assets: this.assets,
+      priceFeed: options.priceFeed,
+      maxAgeMs: options.quoteMaxAgeMs
+    });
+    this.reputationService = new ReputationService(this.client, {
+      assets: this.assets,
+      quoteService: this.quoteService,
+      factors: options.reputation
+    });
+    this.ratingService = new RatingService(this.client, { assets: this.assets });
+    this.profileManager = new ProfileManager(this.client, {
+      quoteService: this.quoteService,
+      reputationService: this.reputationService
+    });
+    this.credentialService = new CredentialService(this.client, { trustedIssuers: options.trustedIssuers });
+    this.verificationService = new VerificationService(this.client, this.credentialService, this.reputationService);
+    this.ledgerCredentialManager = new LedgerCredentialManager(this.client);
+    this.messagingService = new MessagingService(this.client);
+    this.intentService = new IntentService(this.client, { quoteService: this.quoteService });
     this.negotiationService = new NegotiationService(this.client);
   }
 
@@ -42,9 +132,163 @@ export class XAG {
   }
 
   async disconnect() {
+    this.escrowWatcher.stop();
+    this.channelManager.stopRedemption();
     if (this.client.isConnected()) {
       await this.client.disconnect();
     }
+    for (const client of this.networkClients.values()) {
+      if (client.isConnected()) {
+        await client.disconnect();
+      }
+    }
+    this.networkClients.clear();
+  }
+
+  /**
+   * Registers an additional network so DIDs issued there can be resolved
+   * @example
+   * xag.addNetwork(XRPL_NETWORKS.devnet);
+   */
+  addNetwork(config: NetworkConfig) {
+    this.networks.set(config.networkId, config);
+  }
+
+  /**
+   * Registers an issued currency so trades, balances and reputation can use it by code
+   * Codes longer than three characters are hex-encoded for the ledger automatically
+   * @example
+   * xag.registerAsset({ code: 'EURQ', issuers: { 1: 'rTestnetIssuer...', 0: 'rMainnetIssuer...' } });
+   */
+  registerAsset(config: AssetConfig) {
+    this.assets.register(config);
+  }
+
+  /**
+   * Lists the registered assets (RLUSD is registered by default)
+   */
+  listAssets(): AssetConfig[] {
+    return this.assets.list();
+  }
+
+  /**
+   * Creates or adjusts an agent's trust line for a registered asset: its limit and whether NoRipple is set
+   * @example
+   * await xag.setTrustLine(agent.did, 'RLUSD', { limit: '5000', noRipple: true }, agent.seed);
+   */
+  async setTrustLine(
+    agentDID: string,
+    assetCode: string,
+    options: { limit?: string; noRipple?: boolean },
+    agentSeed?: string
+  ): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const asset = this.assets.resolve(assetCode, this.didManager.getNetworkId());
+    const hash = await this.tokenManager.setTrustLine(wallet, asset, options);
+
+    console.log(`\n🔗 ${asset.code} trust line set`);
+    if (options.limit !== undefined) {
+      console.log(`   Limit: ${options.limit}`);
+    }
+    if (options.noRipple !== undefined) {
+      console.log(`   NoRipple: ${options.noRipple ? 'set' : 'cleared'}`);
+    }
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Removes an agent's empty trust line, freeing its owner reserve
+   */
+  async removeTrustLine(agentDID: string, assetCode: string, agentSeed?: string): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const asset = this.assets.resolve(assetCode, this.didManager.getNetworkId());
+    const hash = await this.tokenManager.removeTrustLine(wallet, asset);
+
+    console.log(`\n🔗 ${asset.code} trust line removed`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Gets an agent's trust line for a registered asset, including whether the issuer froze or authorised it
+   */
+  async getTrustLine(agentDID: string, assetCode: string): Promise<TrustLineStatus> {
+    await this.connect();
+    const asset = this.assets.resolve(assetCode, this.didManager.getNetworkId());
+    return await this.tokenManager.getTrustLineStatus(this.didManager.resolveDID(agentDID), asset);
+  }
+
+  /**
+   * Checks that a token trade can settle before creating it: frozen or unauthorised trust lines,
+   * the seller's limit, and the issuer's transfer fee. initiateTrade runs the same check.
+   */
+  async checkTokenTrade(config: TradeConfig): Promise<TokenTradeCheck> {
+    await this.connect();
+
+    if (config.token === 'XRP') {
+      throw new Error('XRP trades have no trust lines to check');
+    }
+    const asset = this.assets.resolve(config.token, this.didManager.getNetworkId());
+    return await this.tokenManager.checkTrade(
+      this.didManager.resolveDID(config.buyer),
+      this.didManager.resolveDID(config.seller),
+      asset,
+      config.amount,
+      { crossCurrency: Boolean(config.payWith && config.payWith !== config.token), settlement: config.settlement }
+    );
+  }
+
+  /**
+   * Gets the NetworkID of the connected network (the one new agent DIDs are issued on)
+   */
+  async getNetworkId(): Promise<number> {
+    await this.connect();
+    return this.didManager.getNetworkId();
+  }
+
+  /**
+   * Gets a DIDManager bound to the network a DID was issued on
+   */
+  private async getDIDManagerForDID(did: string): Promise<DIDManager> {
+    await this.connect();
+    const { networkId } = this.didManager.parseDID(did);
+    if (networkId === undefined || networkId === this.didManager.getNetworkId()) {
+      return this.didManager;
+    }
+
+    const config = this.networks.get(networkId);
+    if (!config) {
+      throw new Error(`DID ${did} belongs to network ${networkId}, which is not configured. Use addNetwork() to register it.`);
+    }
+
+    let client = this.networkClients.get(networkId);
+    if (!client) {
+      client = new Client(config.url);
+      this.networkClients.set(networkId, client);
+    }
+    if (!client.isConnected()) {
+      await client.connect();
+    }
+    return new DIDManager(client);
   }
 
   /**
@@ -90,16 +334,18 @@ export class XAG {
       console.log(`   DID: ${did}`);
     }
 
-    // If RLUSD is needed, create trustline
-    if (config.type === 'supplier' || config.type === 'seller') {
+    // Open trust lines for the assets the agent will be paid in
+    const trustLines = config.trustLines || (config.type === 'supplier' || config.type === 'seller' ? ['RLUSD'] : []);
+    for (const code of trustLines) {
       try {
-        const hasTrustLine = await this.rlusdManager.hasTrustLine(wallet.address);
+        const asset = this.assets.resolve(code, this.didManager.getNetworkId());
+        const hasTrustLine = await this.tokenManager.hasTrustLine(wallet.address, asset);
         if (!hasTrustLine) {
-          console.log(`   Creating RLUSD TrustLine...`);
-          await this.rlusdManager.createTrustLine(wallet);
+          console.log(`   Creating ${code} TrustLine...`);
+          await this.tokenManager.createTrustLine(wallet, asset);
         }
       } catch (error) {
-        console.warn(`   Could not create RLUSD TrustLine: ${error}`);
+        console.warn(`   Could not create ${code} TrustLine: ${error}`);
       }
     }
 
@@ -120,135 +366,1250 @@ export class XAG {
   private getWalletFromDID(didOrAddress: string, seed?: string): Wallet {
     const address = this.didManager.resolveDID(didOrAddress);
     
-    // Check if we have it stored
-    const storedWallet = this.agentWallets.get(didOrAddress);
-    if (storedWallet) {
-      return storedWallet;
-    }
+    // Check if we have it stored
+    const storedWallet = this.agentWallets.get(didOrAddress);
+    if (storedWallet) {
+      return storedWallet;
+    }
+
+    // If seed provided, use it (it may be a regular key after a key rotation)
+    if (seed) {
+      return Wallet.fromSeed(seed, { masterAddress: address });
+    }
+
+    throw new Error(`Wallet not found for ${didOrAddress}. Please provide seed or create agent first.`);
+  }
+
+  /**
+   * Checks that a wallet's key controls its account now, as the master key or the regular key
+   * A wallet built from any seed with masterAddress reports the account's address, so the address proves nothing
+   * for actions the ledger doesn't sign off on, such as releasing a fulfillment
+   */
+  private async assertKeyControlsAccount(wallet: Wallet, role: string): Promise<void> {
+    if (!(await this.didManager.isKeyCurrent(wallet.address, wallet.publicKey))) {
+      throw new Error(`${role} key does not control ${wallet.address}`);
+    }
+  }
+
+  /**
+   * Resolves an agent DID to its W3C DID Document
+   * DIDs from other networks are resolved through the networks configured with addNetwork()
+   * @example
+   * const { didDocument, didDocumentMetadata } = await xag.resolveDIDDocument(agentDID);
+   */
+  async resolveDIDDocument(did: string): Promise<DIDResolutionResult> {
+    const didManager = await this.getDIDManagerForDID(did);
+    return await didManager.resolveDIDDocument(did);
+  }
+
+  /**
+   * Rotates an agent's signing key to a new regular key
+   * The old key keeps signing power until revoked; the returned seed replaces it for this agent
+   * @example
+   * const { seed } = await xag.rotateAgentKey(agent.did, agent.seed);
+   */
+  async rotateAgentKey(agentDID: string, agentSeed?: string): Promise<{ seed: string; hash: string }> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const rotation = await this.didManager.rotateKey(wallet);
+    this.agentWallets.set(agentDID, rotation.wallet);
+
+    console.log(`\n🔑 Signing key rotated`);
+    console.log(`   Transaction Hash: ${rotation.hash}`);
+
+    return { seed: rotation.wallet.seed!, hash: rotation.hash };
+  }
+
+  /**
+   * Revokes a compromised key ('regular' removes the regular key, 'master' disables the master key)
+   */
+  async revokeAgentKey(agentDID: string, key: 'master' | 'regular', agentSeed?: string): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const hash = await this.didManager.revokeKey(wallet, key);
+    console.log(`\n🔒 ${key === 'master' ? 'Master' : 'Regular'} key revoked`);
+    console.log(`   Transaction Hash: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Recovers an agent whose master key leaked, using its regular key seed
+   * Rotates to a fresh regular key and disables the master key, keeping the DID and its reputation
+   */
+  async recoverAgent(agentDID: string, regularKeySeed: string): Promise<{ seed: string; hashes: string[] }> {
+    await this.connect();
+
+    const wallet = this.getWalletFromDID(agentDID, regularKeySeed);
+    const recovery = await this.didManager.recoverDID(wallet);
+    this.agentWallets.set(agentDID, recovery.wallet);
+
+    console.log(`\n🛟 Agent recovered`);
+    console.log(`   Transaction Hashes: ${recovery.hashes.join(', ')}`);
+
+    return { seed: recovery.wallet.seed!, hashes: recovery.hashes };
+  }
+
+  /**
+   * Deactivates an agent's DID (XLS-40 DIDDelete)
+   */
+  async deactivateAgent(agentDID: string, agentSeed?: string): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const hash = await this.didManager.deactivateDID(wallet);
+    console.log(`\n⛔ DID deactivated`);
+    console.log(`   Transaction Hash: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Re-registers a deactivated agent DID
+   */
+  async reactivateAgent(agentDID: string, config: { name: string; type: string }, agentSeed?: string): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const hash = await this.didManager.registerDID(wallet, config);
+    if (!hash) {
+      throw new Error(`Failed to re-register DID ${agentDID}`);
+    }
+
+    console.log(`\n✅ DID re-registered`);
+    console.log(`   Transaction Hash: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Gets every key that has controlled an agent's DID and when it was valid
+   */
+  async getKeyHistory(agentDID: string): Promise<DIDKeyHistoryEntry[]> {
+    const didManager = await this.getDIDManagerForDID(agentDID);
+    return await didManager.getKeyHistory(agentDID);
+  }
+
+  /**
+   * Initiates a trade with escrow-locked payments
+   * @example
+   * const settlement = await XAG.initiateTrade({
+   *   buyer: buyerDID,
+   *   seller: sellerDID,
+   *   amount: 100,
+   *   token: "RLUSD",
+   *   condition: fulfillmentCryptoCondition 
+   * });
+   */
+  async initiateTrade(config: TradeConfig, buyerSeed?: string): Promise<TradeResult> {
+    await this.connect();
+
+    // Get buyer wallet (from stored wallets or seed)
+    let buyerWallet: Wallet;
+    try {
+      buyerWallet = this.getWalletFromDID(config.buyer, buyerSeed);
+    } catch (error) {
+      throw new Error(`Buyer wallet not found. Please create agent first or provide buyerSeed. ${error}`);
+    }
+
+    const buyerAddress = this.didManager.resolveDID(config.buyer);
+    // Rejects amounts the ledger can't represent before anything is submitted
+    const amount = Money.of(config.amount, config.token);
+    if (!amount.isPositive()) {
+      throw new Error(`Trade amount must be more than 0, not ${amount}`);
+    }
+    
+    // Check balance
+    if (config.payWith && config.payWith !== config.token) {
+      // The conversion's quote only finds paths the buyer can fund, so it doubles as the balance check
+      const quote = await this.pathfindingService.quote({
+        source: buyerAddress,
+        destination: buyerAddress,
+        token: config.token,
+        amount,
+        payWith: config.payWith,
+        slippage: config.slippage
+      });
+      console.log(`\n💱 Quote: ${amount} ${config.token} for ~${quote.sourceAmount} ${config.payWith} (at most ${quote.sendMax})`);
+    } else if (config.token === 'XRP') {
+      const accountInfo = await this.client.request({
+        command: 'account_info',
+        account: buyerAddress
+      });
+      const balance = Money.fromDrops(accountInfo.result.account_data.Balance);
+      console.log(`\n💰 Buyer balance: ${balance} XRP`);
+
+      const needed = amount.add('0.1');
+      if (balance.lessThan(needed)) {
+        throw new Error(`Insufficient balance. Need ${needed} XRP (amount + fees)`);
+      }
+    } else {
+      const asset = this.assets.resolve(config.token, this.didManager.getNetworkId());
+      const balance = await this.tokenManager.getBalance(buyerAddress, asset);
+      console.log(`\n💰 Buyer ${asset.code} balance: ${balance}`);
+      
+      if (amount.greaterThan(Money.of(balance, asset.code))) {
+        throw new Error(`Insufficient ${asset.code} balance. Need ${amount}, have ${balance}`);
+      }
+    }
+
+    // Fail early, with reasons, where the ledger would reject a token trade
+    if (config.token !== 'XRP') {
+      const check = await this.checkTokenTrade(config);
+      check.warnings.forEach(warning => console.log(`   ⚠️  ${warning}`));
+      if (!check.ok) {
+        throw new Error(`Cannot trade ${check.asset}: ${check.issues.join('; ')}`);
+      }
+    }
+
+    // Add default memo for auditability
+    const memo = config.memo || `XAG Trade: ${config.amount} ${config.token} from ${config.buyer} to ${config.seller}`;
+
+    console.log(`\n🔒 Creating ${config.token === 'XRP' ? 'Native Escrow' : `${config.token} settlement`}...`);
+    console.log(`   Amount: ${config.amount} ${config.token}`);
+    if (config.payWith && config.payWith !== config.token) {
+      console.log(`   Paid with: ${config.payWith}`);
+    }
+    console.log(`   Buyer: ${config.buyer}`);
+    console.log(`   Seller: ${config.seller}`);
+    console.log(`   Memo: ${memo}`);
+    if (config.category) {
+      console.log(`   Category: ${config.category}`);
+    }
+
+    // Generate crypto-conditions whose fulfillments are held until the buyer (or the oracle or arbiter) releases them
+    const useCondition = config.useCondition || Boolean(config.oracle) || Boolean(config.arbiter);
+    const wantsCondition = useCondition || config.milestones?.some(milestone => milestone.useCondition);
+    if (wantsCondition && config.token !== 'XRP' && (config.settlement === 'payment' || config.settlement === 'check')) {
+      throw new Error('Generated conditions need escrow settlement');
+    }
+    if (config.oracle) {
+      this.didManager.parseDID(config.oracle);
+      if (config.condition || config.milestones?.some(milestone => milestone.condition)) {
+        throw new Error('Oracle trades need a generated condition; omit condition so XAG can hold the fulfillment');
+      }
+      console.log(`   Oracle: ${config.oracle}`);
+    }
+    if (config.arbiter) {
+      // An arbiter the buyer or seller controls could rule against the other party without a real dispute
+      const arbiterAddress = this.didManager.resolveDID(config.arbiter);
+      const sellerAddress = this.didManager.resolveDID(config.seller);
+      for (const party of [buyerAddress, sellerAddress]) {
+        if (await this.reputationService.areLinked(arbiterAddress, party)) {
+          throw new Error(`The arbiter must be independent of the buyer and the seller; ${config.arbiter} is or is linked to ${party}`);
+        }
+      }
+      if (config.condition || config.milestones?.some(milestone => milestone.condition)) {
+        throw new Error('Arbitrated trades need a generated condition; omit condition so XAG can hold the fulfillment');
+      }
+      // A refund ruling destroys the fulfillment, so the buyer must be able to cancel eventually
+      const cancellable = config.milestones
+        ? config.milestones.every(milestone => milestone.cancelAfter ?? config.cancelAfter)
+        : config.cancelAfter;
+      if (!cancellable) {
+        throw new Error('Arbitrated trades need cancelAfter so a refund ruling can be carried out');
+      }
+      console.log(`   Arbiter: ${config.arbiter}`);
+    }
+
+    let generated: { condition: string; fulfillment: string } | undefined;
+    const generatedMilestones: Map<number, { condition: string; fulfillment: string }> = new Map();
+    if (config.milestones) {
+      config.milestones.forEach((milestone, index) => {
+        if ((milestone.useCondition || useCondition) && !milestone.condition) {
+          generatedMilestones.set(index, this.conditionManager.generateCondition());
+        }
+      });
+      console.log(`   Milestones: ${config.milestones.length}`);
+    } else if (useCondition && !config.condition) {
+      generated = this.conditionManager.generateCondition();
+      console.log(`   Condition: ${generated.condition}`);
+    }
+
+    const tradeConfig: TradeConfig = {
+      ...config,
+      memo,
+      ...(generated && { condition: generated.condition }),
+      ...(config.milestones && {
+        milestones: config.milestones.map((milestone, index) => {
+          const milestoneCondition = generatedMilestones.get(index);
+          return milestoneCondition ? { ...milestone, condition: milestoneCondition.condition } : milestone;
+        })
+      })
+    };
+
+    const result = await this.escrowManager.initiateTrade(tradeConfig, buyerWallet);
+
+    if (result.milestones) {
+      for (const milestone of result.milestones) {
+        const milestoneCondition = generatedMilestones.get(milestone.index);
+        if (milestoneCondition) {
+          await this.conditionManager.registerCondition(milestone.hash, {
+            ...milestoneCondition,
+            buyer: result.buyer,
+            seller: result.seller,
+            oracle: config.oracle,
+            arbiter: config.arbiter
+          });
+        }
+      }
+    } else if (generated) {
+      await this.conditionManager.registerCondition(result.hash, {
+        ...generated,
+        buyer: result.buyer,
+        seller: result.seller,
+        oracle: config.oracle,
+        arbiter: config.arbiter
+      });
+      result.condition = generated.condition;
+    } else if (config.condition) {
+      result.condition = config.condition;
+    }
+
+    await this.tradeRegistry.record(result, config);
+
+    const created = result.settlement === 'check' ? 'Check created' : result.settlement === 'payment' ? 'Payment created' : 'Escrow created';
+    console.log(`\n✅ Trade initiated - ${created}!`);
+    if (result.milestones) {
+      console.log(`   Trade ID: ${result.tradeId}`);
+      result.milestones.forEach(milestone => {
+        console.log(`   Milestone ${milestone.index + 1}: ${milestone.amount} ${config.token} - ${milestone.hash}`);
+      });
+    }
+    if (result.sentAmount !== undefined) {
+      console.log(`   Spent: ${result.sentAmount} ${result.payWith}, delivered: ${result.deliveredAmount} ${config.token}`);
+    }
+    console.log(`   Transaction Hash: ${result.hash}`);
+    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${result.hash}`);
+
+    return result;
+  }
+
+  /**
+   * Quotes what a trade priced in one asset would cost the buyer in another, through the DEX
+   * The quote reflects current order books; initiateTrade with payWith requotes before paying
+   * @example
+   * const quote = await xag.quoteTrade({ buyer, seller, amount: 10, token: 'RLUSD', payWith: 'XRP' });
+   * console.log(`~${quote.sourceAmount} XRP, at most ${quote.sendMax}`);
+   */
+  async quoteTrade(request: {
+    buyer: string;
+    seller: string;
+    amount: MoneyInput;
+    token: string;
+    payWith: string;
+    slippage?: number;
+    deliverMin?: MoneyInput;
+  }): Promise<PathQuote> {
+    await this.connect();
+
+    const quote = await this.pathfindingService.quote({
+      source: this.didManager.resolveDID(request.buyer),
+      destination: this.didManager.resolveDID(request.seller),
+      token: request.token,
+      amount: request.amount,
+      payWith: request.payWith,
+      slippage: request.slippage,
+      deliverMin: request.deliverMin
+    });
+
+    console.log(`\n💱 Quote: ${quote.amount} ${request.token} for ~${quote.sourceAmount} ${request.payWith}`);
+    console.log(`   Rate: ${quote.rate} ${request.payWith}/${request.token}`);
+    console.log(`   SendMax: ${quote.sendMax} ${request.payWith} (${quote.slippage * 100}% slippage)`);
+
+    return quote;
+  }
+
+  /**
+   * Converts an amount between XRP and registered assets at the current market rate, e.g. to compare agent pricing
+   * Rates come from the ledger's order books and AMM pools, falling back to the configured price feed,
+   * and are cached; the quote says how old its rate is
+   * @example
+   * const { converted } = await xag.quote(12, 'RLUSD', 'XRP');
+   */
+  async quote(amount: MoneyInput, from: string, to: string): Promise<PriceQuote> {
+    await this.connect();
+
+    const quote = await this.quoteService.quote(amount, from, to);
+    console.log(`\n💹 ${quote.amount} ${from} = ${quote.converted} ${to} (${quote.source}${quote.cached ? `, cached ${Math.round(quote.ageMs / 1000)}s ago` : ''})`);
+
+    return quote;
+  }
+
+  /**
+   * Confirms delivery of a conditional trade, releasing its fulfillment to the seller
+   * Only the buyer can confirm: the buyer's key must currently control the buyer account
+   */
+  async confirmDelivery(tradeHash: string, buyerDID: string, buyerSeed?: string): Promise<ConditionRecord> {
+    await this.connect();
+
+    let buyerWallet: Wallet;
+    try {
+      buyerWallet = this.getWalletFromDID(buyerDID, buyerSeed);
+    } catch (error) {
+      throw new Error(`Buyer wallet not found. Please create agent first or provide buyerSeed. ${error}`);
+    }
+
+    await this.assertKeyControlsAccount(buyerWallet, 'Buyer');
+    const record = await this.conditionManager.confirmDelivery(tradeHash, buyerWallet.address);
+    console.log(`\n📦 Delivery confirmed - fulfillment released to seller`);
+    console.log(`   Trade: ${tradeHash}`);
+    return record;
+  }
+
+  /**
+   * Oracle side: signs a delivery attestation for a trade and records it on-ledger
+   * If this instance holds the trade's fulfillment, a positive attestation releases it straight away
+   * @example
+   * await XAG.attestDelivery(trade.hash, meterDID, { delivered: true, quantity: 100, unit: 'kWh' });
+   */
+  async attestDelivery(
+    tradeHash: string,
+    oracleDID: string,
+    observation: { delivered: boolean; quantity?: number; unit?: string; evidence?: string; observedAt?: string },
+    oracleSeed?: string
+  ): Promise<{ attestation: DeliveryAttestation; hash: string }> {
+    await this.connect();
+
+    let oracleWallet: Wallet;
+    try {
+      oracleWallet = this.getWalletFromDID(oracleDID, oracleSeed);
+    } catch (error) {
+      throw new Error(`Oracle wallet not found. Please create agent first or provide oracleSeed. ${error}`);
+    }
+
+    const attestation = this.deliveryOracle.createAttestation(oracleWallet, oracleDID, tradeHash, observation);
+    const hash = await this.deliveryOracle.submitAttestation(oracleWallet, attestation);
+
+    console.log(`\n📡 Delivery attestation recorded (${observation.delivered ? 'delivered' : 'not delivered'})`);
+    console.log(`   Trade: ${tradeHash}`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    const record = await this.conditionManager.getCondition(tradeHash);
+    if (record?.oracle && record.status === 'locked' && attestation.delivered) {
+      const verification = await this.deliveryOracle.verifyAttestation(attestation, { oracleDID: record.oracle, tradeHash });
+      if (verification.valid) {
+        await this.conditionManager.confirmByOracle(tradeHash, hash);
+        console.log(`   Fulfillment released to seller`);
+      }
+    }
+
+    return { attestation, hash };
+  }
+
+  /**
+   * Looks for a valid positive attestation from the trade's oracle on the ledger and, if found, releases the fulfillment
+   * Returns the condition record, still locked if the oracle hasn't confirmed delivery
+   */
+  async checkDeliveryAttestation(tradeHash: string): Promise<ConditionRecord> {
+    await this.connect();
+
+    const record = await this.conditionManager.getCondition(tradeHash);
+    if (!record) {
+      throw new Error(`No condition stored for trade ${tradeHash}`);
+    }
+    if (record.status === 'released') {
+      return record;
+    }
+    if (!record.oracle) {
+      throw new Error('Trade has no oracle; the buyer must confirm delivery');
+    }
+
+    const attestations = await this.deliveryOracle.getAttestations(tradeHash, record.oracle);
+    const confirmed = attestations.find(result => result.valid && result.attestation.delivered);
+    if (!confirmed) {
+      return record;
+    }
+
+    console.log(`\n📡 Oracle confirmed delivery - fulfillment released to seller`);
+    console.log(`   Attestation: ${confirmed.ledgerHash}`);
+    return await this.conditionManager.confirmByOracle(tradeHash, confirmed.ledgerHash!);
+  }
+
+  /**
+   * Verifies a delivery attestation's signature and oracle
+   */
+  async verifyAttestation(
+    attestation: DeliveryAttestation,
+    options: { oracleDID?: string; tradeHash?: string; recordedAt?: string } = {}
+  ): Promise<AttestationVerificationResult> {
+    await this.connect();
+    return await this.deliveryOracle.verifyAttestation(attestation, options);
+  }
+
+  /**
+   * Fulfills a trade (finishes an escrow, cashes a check or verifies a payment, depending on how it was settled)
+   * Conditional escrows created with useCondition use the stored fulfillment once delivery is confirmed;
+   * escrows with a hand-crafted condition need the fulfillment passed in
+   */
+  async fulfillTrade(
+    escrowHash: string,
+    sellerDID: string,
+    token?: string,
+    sellerSeed?: string,
+    fulfillment?: string
+  ): Promise<string> {
+    await this.connect();
+
+    // Registered trades know their own token
+    const registered = await this.tradeRegistry.get(escrowHash);
+    token = token || registered?.token || 'XRP';
+
+    // Get seller wallet
+    let sellerWallet: Wallet;
+    try {
+      sellerWallet = this.getWalletFromDID(sellerDID, sellerSeed);
+    } catch (error) {
+      throw new Error(`Seller wallet not found. Please create agent first or provide sellerSeed. ${error}`);
+    }
+
+    let condition: string | undefined;
+    const conditionRecord = fulfillment ? undefined : await this.conditionManager.getCondition(escrowHash);
+    if (conditionRecord) {
+      // Oracle trades release on an attestation the oracle may have recorded from elsewhere
+      if (conditionRecord.status === 'locked' && conditionRecord.oracle) {
+        await this.checkDeliveryAttestation(escrowHash);
+      }
+      // Arbitrated trades release on a ruling the arbiter may have issued from elsewhere
+      if (conditionRecord.status === 'locked' && conditionRecord.arbiter) {
+        const dispute = await this.applyRuling(escrowHash);
+        if (dispute?.ruling?.outcome === 'refund') {
+          throw new Error('The arbiter ruled for a refund; the trade can only be cancelled');
+        }
+      }
+      await this.assertKeyControlsAccount(sellerWallet, 'Seller');
+      const released = await this.conditionManager.releaseFulfillment(escrowHash, sellerWallet.address);
+      fulfillment = released.fulfillment;
+      condition = released.condition;
+    }
+
+    console.log(`\n✅ Fulfilling ${token} trade...`);
+    const hash = await this.escrowManager.fulfillTrade(escrowHash, sellerWallet, fulfillment, condition);
+
+    if (condition) {
+      await this.conditionManager.discard(escrowHash);
+    }
+    await this.tradeRegistry.markResolved(escrowHash, 'fulfilled', hash);
+    
+    if (token === 'XRP') {
+      console.log(`\n✅ Trade fulfilled - Escrow finished!`);
+      console.log(`   Transaction Hash: ${hash}`);
+      console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${hash}`);
+    } else {
+      console.log(`\n✅ ${token} trade settled!`);
+      console.log(`   Transaction Hash: ${hash}`);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Cancels an expired trade (escrow or check), refunding the buyer
+   * Only possible once the trade's cancelAfter has passed; any agent can submit the cancel.
+   * The seller may also decline a check-settled trade early
+   * @example
+   * await XAG.cancelTrade(trade.hash, buyerDID);
+   */
+  async cancelTrade(escrowHash: string, callerDID: string, callerSeed?: string): Promise<string> {
+    await this.connect();
+
+    let callerWallet: Wallet;
+    try {
+      callerWallet = this.getWalletFromDID(callerDID, callerSeed);
+    } catch (error) {
+      throw new Error(`Caller wallet not found. Please create agent first or provide callerSeed. ${error}`);
+    }
+
+    console.log(`\n↩️  Cancelling trade...`);
+    const hash = await this.escrowManager.cancelTrade(escrowHash, callerWallet);
+    await this.conditionManager.discard(escrowHash);
+    await this.tradeRegistry.markResolved(escrowHash, 'cancelled', hash);
+
+    console.log(`\n✅ Trade cancelled - Funds returned to buyer`);
+    console.log(`   Transaction Hash: ${hash}`);
+    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Fulfills one milestone of a milestone trade
+   * Milestones with a generated condition need delivery confirmed first (confirmDelivery with the milestone's hash)
+   * @example
+   * await XAG.fulfillMilestone(trade.tradeId, 0, sellerDID);
+   */
+  async fulfillMilestone(
+    tradeId: string,
+    milestoneIndex: number,
+    sellerDID: string,
+    sellerSeed?: string,
+    fulfillment?: string
+  ): Promise<string> {
+    const milestone = await this.getPendingMilestone(tradeId, milestoneIndex, sellerDID);
+    console.log(`\n🏁 Fulfilling milestone ${milestoneIndex + 1} of trade ${tradeId}`);
+    return await this.fulfillTrade(milestone.hash, sellerDID, milestone.token, sellerSeed, fulfillment);
+  }
+
+  /**
+   * Cancels one expired milestone of a milestone trade, refunding its amount to the buyer
+   */
+  async cancelMilestone(tradeId: string, milestoneIndex: number, callerDID: string, callerSeed?: string): Promise<string> {
+    const milestone = await this.getPendingMilestone(tradeId, milestoneIndex, callerDID);
+    console.log(`\n🏁 Cancelling milestone ${milestoneIndex + 1} of trade ${tradeId}`);
+    return await this.cancelTrade(milestone.hash, callerDID, callerSeed);
+  }
+
+  /**
+   * Reports the status of every milestone of a trade, read from the ledger
+   * @param partyDID The buyer or seller DID (the trade is found in its account history)
+   */
+  async getMilestoneProgress(tradeId: string, partyDID: string): Promise<MilestoneProgress> {
+    await this.connect();
+    return await this.escrowManager.getMilestoneProgress(tradeId, this.didManager.resolveDID(partyDID));
+  }
+
+  private async getPendingMilestone(
+    tradeId: string,
+    milestoneIndex: number,
+    partyDID: string
+  ): Promise<{ hash: string; token: string }> {
+    const progress = await this.getMilestoneProgress(tradeId, partyDID);
+    const milestone = progress.milestones.find(candidate => candidate.index === milestoneIndex);
+    if (!milestone) {
+      throw new Error(`Trade ${tradeId} has no milestone ${milestoneIndex}`);
+    }
+    if (milestone.status === 'fulfilled' || milestone.status === 'cancelled') {
+      throw new Error(`Milestone ${milestoneIndex} of trade ${tradeId} is already ${milestone.status}`);
+    }
+    return { hash: milestone.hash, token: progress.token };
+  }
+
+  /**
+   * Gets a trade created through this instance by ID, creating hash or milestone hash
+   * @example
+   * const trade = await XAG.getTrade(result.hash);
+   * console.log(trade.state); // 'funded'
+   */
+  async getTrade(idOrHash: string, options: { reconcile?: boolean } = {}): Promise<TradeRecord | undefined> {
+    if (options.reconcile && await this.tradeRegistry.get(idOrHash)) {
+      await this.connect();
+      return await this.tradeRegistry.reconcile(idOrHash);
+    }
+    return await this.tradeRegistry.get(idOrHash);
+  }
+
+  /**
+   * Lists trades created through this instance, newest first
+   * @param filter.party Buyer or seller DID/address
+   */
+  async listTrades(filter: { buyer?: string; seller?: string; party?: string; state?: TradeState } = {}): Promise<TradeRecord[]> {
+    return await this.tradeRegistry.list({
+      ...(filter.buyer && { buyer: this.didManager.resolveDID(filter.buyer) }),
+      ...(filter.seller && { seller: this.didManager.resolveDID(filter.seller) }),
+      ...(filter.party && { party: this.didManager.resolveDID(filter.party) }),
+      ...(filter.state && { state: filter.state })
+    });
+  }
+
+  /**
+   * Updates registered trades from the ledger (e.g., escrows finished or cancelled outside this instance)
+   * Reconciles one trade, or every trade not yet fulfilled or cancelled
+   */
+  async reconcileTrades(idOrHash?: string): Promise<TradeRecord[]> {
+    await this.connect();
+    if (idOrHash) {
+      return [await this.tradeRegistry.reconcile(idOrHash)];
+    }
+    return await this.tradeRegistry.reconcileAll();
+  }
+
+  /**
+   * Opens a dispute over a trade that named an arbiter; either the buyer or the seller can open it
+   * The dispute is recorded on-ledger and the registered trade moves to 'disputed'
+   * @example
+   * await XAG.openDispute(trade.hash, buyerDID, 'Goods never arrived', { trackingId: 'ABC123' });
+   */
+  async openDispute(
+    tradeHash: string,
+    partyDID: string,
+    reason: string,
+    evidence?: any,
+    partySeed?: string
+  ): Promise<{ dispute: Dispute; txHash: string }> {
+    await this.connect();
+
+    let partyWallet: Wallet;
+    try {
+      partyWallet = this.getWalletFromDID(partyDID, partySeed);
+    } catch (error) {
+      throw new Error(`Party wallet not found. Please create agent first or provide partySeed. ${error}`);
+    }
+
+    const opened = await this.disputeService.openDispute(partyWallet, tradeHash, reason, evidence);
+    if (await this.tradeRegistry.get(tradeHash)) {
+      await this.tradeRegistry.transition(tradeHash, 'disputed', { txHash: opened.txHash, reason });
+    }
+
+    console.log(`\n⚖️  Dispute opened`);
+    console.log(`   Trade: ${tradeHash}`);
+    console.log(`   Arbiter: ${opened.dispute.arbiter}`);
+    console.log(`   Transaction Hash: ${opened.txHash}`);
+
+    return opened;
+  }
+
+  /**
+   * Adds evidence to an open dispute (either party, any number of times)
+   */
+  async submitEvidence(tradeHash: string, partyDID: string, evidence: any, partySeed?: string): Promise<string> {
+    await this.connect();
+
+    let partyWallet: Wallet;
+    try {
+      partyWallet = this.getWalletFromDID(partyDID, partySeed);
+    } catch (error) {
+      throw new Error(`Party wallet not found. Please create agent first or provide partySeed. ${error}`);
+    }
+
+    const hash = await this.disputeService.submitEvidence(partyWallet, tradeHash, evidence);
+
+    console.log(`\n📎 Evidence submitted`);
+    console.log(`   Trade: ${tradeHash}`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Arbiter side: records the final ruling on a dispute
+   * 'release' hands the held fulfillment to the seller; 'refund' destroys it so the escrow can only be
+   * cancelled back to the buyer. The faulted party loses reputation.
+   * @example
+   * await XAG.issueRuling(trade.hash, arbiterDID, { outcome: 'refund', faultedParty: sellerDID, summary: 'Not delivered' });
+   */
+  async issueRuling(
+    tradeHash: string,
+    arbiterDID: string,
+    ruling: { outcome: 'release' | 'refund'; faultedParty?: string; summary: string },
+    arbiterSeed?: string
+  ): Promise<DisputeRuling> {
+    await this.connect();
+
+    let arbiterWallet: Wallet;
+    try {
+      arbiterWallet = this.getWalletFromDID(arbiterDID, arbiterSeed);
+    } catch (error) {
+      throw new Error(`Arbiter wallet not found. Please create agent first or provide arbiterSeed. ${error}`);
+    }
+
+    const issued = await this.disputeService.issueRuling(arbiterWallet, tradeHash, {
+      ...ruling,
+      ...(ruling.faultedParty && { faultedParty: this.didManager.resolveDID(ruling.faultedParty) })
+    });
+
+    console.log(`\n⚖️  Ruling issued: ${issued.outcome}`);
+    console.log(`   Trade: ${tradeHash}`);
+    if (issued.faultedParty) {
+      console.log(`   Faulted Party: ${issued.faultedParty}`);
+    }
+    console.log(`   Transaction Hash: ${issued.txHash}`);
+
+    await this.applyRuling(tradeHash);
+    return issued;
+  }
+
+  /**
+   * Carries out the arbiter's ruling on a fulfillment this instance holds
+   * A release ruling unlocks the fulfillment for the seller; a refund ruling discards it
+   */
+  async applyRuling(tradeHash: string): Promise<Dispute | null> {
+    await this.connect();
+
+    const dispute = await this.disputeService.getDispute(tradeHash);
+    const record = await this.conditionManager.getCondition(tradeHash);
+    if (!dispute?.ruling || !record?.arbiter || record.status !== 'locked') {
+      return dispute;
+    }
+    if (!this.didManager.isSameDID(record.arbiter, dispute.arbiter)) {
+      throw new Error(`Trade ${tradeHash} was arbitrated by ${dispute.arbiter}, not ${record.arbiter}`);
+    }
+
+    if (dispute.ruling.outcome === 'release') {
+      await this.conditionManager.releaseByRuling(tradeHash, dispute.ruling.txHash);
+      console.log(`\n⚖️  Arbiter ruled for release - fulfillment released to seller`);
+    } else {
+      await this.conditionManager.discard(tradeHash);
+      console.log(`\n⚖️  Arbiter ruled for refund - fulfillment discarded; the buyer can cancel after cancelAfter`);
+    }
+    return dispute;
+  }
+
+  /**
+   * Gets a dispute with its full history, rebuilt from the ledger
+   */
+  async getDispute(tradeHash: string): Promise<Dispute | null> {
+    await this.connect();
+    return await this.disputeService.getDispute(tradeHash);
+  }
+
+  /**
+   * Puts an account under multi-signature control, e.g. a trade account run by buyer, seller and arbiter
+   * @example
+   * await XAG.configureMultisig(tradeAccountDID, [buyerDID, sellerDID, arbiterDID], 2);
+   */
+  async configureMultisig(accountDID: string, signerDIDs: string[], quorum: number, accountSeed?: string): Promise<string> {
+    await this.connect();
+
+    let accountWallet: Wallet;
+    try {
+      accountWallet = this.getWalletFromDID(accountDID, accountSeed);
+    } catch (error) {
+      throw new Error(`Account wallet not found. Please create agent first or provide accountSeed. ${error}`);
+    }
+
+    const signers = signerDIDs.map(did => this.didManager.resolveDID(did));
+    const hash = await this.multisigManager.setSignerList(accountWallet, signers, quorum);
+
+    console.log(`\n🔐 Multi-signature configured: ${quorum} of ${signers.length}`);
+    console.log(`   Account: ${accountWallet.address}`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Prepares a transaction (e.g., EscrowFinish or EscrowCancel) for a multi-signed account
+   */
+  async prepareMultisig(tx: SubmittableTransaction, signersCount: number): Promise<SubmittableTransaction> {
+    await this.connect();
+    return await this.multisigManager.prepare(tx, signersCount);
+  }
+
+  /**
+   * Signs a prepared multi-signature transaction as one of the account's signers
+   */
+  signMultisig(prepared: SubmittableTransaction, signerDID: string, signerSeed?: string): string {
+    let signerWallet: Wallet;
+    try {
+      signerWallet = this.getWalletFromDID(signerDID, signerSeed);
+    } catch (error) {
+      throw new Error(`Signer wallet not found. Please create agent first or provide signerSeed. ${error}`);
+    }
+    return this.multisigManager.sign(signerWallet, prepared);
+  }
+
+  /**
+   * Combines signatures collected with signMultisig and submits the transaction
+   */
+  async submitMultisig(signedBlobs: string[]): Promise<string> {
+    await this.connect();
+
+    const hash = await this.multisigManager.submit(signedBlobs);
+    console.log(`\n🔐 Multi-signed transaction submitted (${signedBlobs.length} signatures)`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return hash;
+  }
+
+  /**
+   * Opens a payment channel for metered purchases (e.g., per kWh or per API call)
+   * @example
+   * const channel = await XAG.openChannel(buyerDID, sellerDID, 50, { settleDelay: 3600 });
+   */
+  async openChannel(
+    payerDID: string,
+    payeeDID: string,
+    amount: MoneyInput,
+    options: { settleDelay?: number; cancelAfter?: number } = {},
+    payerSeed?: string
+  ): Promise<PaymentChannel> {
+    await this.connect();
+
+    let payerWallet: Wallet;
+    try {
+      payerWallet = this.getWalletFromDID(payerDID, payerSeed);
+    } catch (error) {
+      throw new Error(`Payer wallet not found. Please create agent first or provide payerSeed. ${error}`);
+    }
+
+    console.log(`\n🔌 Opening payment channel...`);
+    const channel = await this.channelManager.createChannel(payerWallet, payeeDID, amount, options);
+
+    console.log(`\n✅ Payment channel opened!`);
+    console.log(`   Channel ID: ${channel.channelId}`);
+    console.log(`   Capacity: ${amount} XRP`);
+    return channel;
+  }
+
+  /**
+   * Adds XRP to an open payment channel
+   */
+  async fundChannel(channelId: string, payerDID: string, amount: MoneyInput, payerSeed?: string): Promise<string> {
+    await this.connect();
+
+    let payerWallet: Wallet;
+    try {
+      payerWallet = this.getWalletFromDID(payerDID, payerSeed);
+    } catch (error) {
+      throw new Error(`Payer wallet not found. Please create agent first or provide payerSeed. ${error}`);
+    }
+
+    const hash = await this.channelManager.fundChannel(payerWallet, channelId, amount);
+    console.log(`\n✅ Channel funded with ${amount} XRP`);
+    console.log(`   Transaction Hash: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Buyer side: signs an off-chain claim paying a further amount for units consumed
+   * Send the claim to the seller; nothing touches the ledger until the seller redeems
+   * @example
+   * const claim = await XAG.payChannel(channel.channelId, buyerDID, kWhUsed * pricePerKWh);
+   */
+  async payChannel(channelId: string, payerDID: string, amount: MoneyInput, payerSeed?: string): Promise<ChannelClaim> {
+    await this.connect();
+
+    let payerWallet: Wallet;
+    try {
+      payerWallet = this.getWalletFromDID(payerDID, payerSeed);
+    } catch (error) {
+      throw new Error(`Payer wallet not found. Please create agent first or provide payerSeed. ${error}`);
+    }
+
+    return await this.channelManager.createClaim(payerWallet, channelId, amount);
+  }
+
+  /**
+   * Seller side: verifies a claim against the channel and keeps it for redemption if valid
+   */
+  async verifyChannelClaim(claim: ChannelClaim, payeeDID?: string): Promise<ChannelClaimVerification> {
+    await this.connect();
+    return await this.channelManager.verifyClaim(claim, payeeDID ? this.didManager.resolveDID(payeeDID) : undefined);
+  }
+
+  /**
+   * Seller side: redeems the best accepted claim on-ledger, optionally closing the channel
+   * Returns null when there is nothing new to redeem
+   */
+  async redeemChannel(channelId: string, payeeDID: string, payeeSeed?: string, close: boolean = false): Promise<string | null> {
+    await this.connect();
+
+    let payeeWallet: Wallet;
+    try {
+      payeeWallet = this.getWalletFromDID(payeeDID, payeeSeed);
+    } catch (error) {
+      throw new Error(`Payee wallet not found. Please create agent first or provide payeeSeed. ${error}`);
+    }
+
+    const hash = await this.channelManager.redeem(payeeWallet, channelId, close);
+    if (hash) {
+      console.log(`\n✅ Channel claims redeemed${close ? ' and channel closed' : ''}`);
+      console.log(`   Transaction Hash: ${hash}`);
+    }
+    return hash;
+  }
+
+  /**
+   * Closes a payment channel; a payer's close takes effect after the settle delay
+   */
+  async closeChannel(channelId: string, callerDID: string, callerSeed?: string): Promise<string> {
+    await this.connect();
+
+    let callerWallet: Wallet;
+    try {
+      callerWallet = this.getWalletFromDID(callerDID, callerSeed);
+    } catch (error) {
+      throw new Error(`Caller wallet not found. Please create agent first or provide callerSeed. ${error}`);
+    }
+
+    const hash = await this.channelManager.closeChannel(callerWallet, channelId);
+    console.log(`\n🔌 Channel close requested`);
+    console.log(`   Transaction Hash: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Gets a payment channel's on-ledger state and, for channels this instance receives on, the accepted claim balance
+   */
+  async getChannel(channelId: string): Promise<{ channel: PaymentChannel; balance?: ChannelBalance }> {
+    await this.connect();
+    const channel = await this.channelManager.getChannel(channelId);
+    const balance = this.channelManager.getBalance(channelId);
+    return { channel, ...(balance && { balance }) };
+  }
+
+  /**
+   * Seller side: redeems accepted claims periodically instead of after every unit
+   * @param options.minAmount Redeem once this much XRP is unredeemed on a channel (channels about to close are always redeemed)
+   */
+  async startChannelRedemption(
+    payeeDID: string,
+    options: { intervalMs?: number; minAmount?: MoneyInput } = {},
+    payeeSeed?: string
+  ) {
+    await this.connect();
+
+    let payeeWallet: Wallet;
+    try {
+      payeeWallet = this.getWalletFromDID(payeeDID, payeeSeed);
+    } catch (error) {
+      throw new Error(`Payee wallet not found. Please create agent first or provide payeeSeed. ${error}`);
+    }
+
+    this.channelManager.startRedemption(payeeWallet, {
+      ...options,
+      onRedeem: (channelId, hash) => {
+        console.log(`\n💸 Redeemed channel ${channelId}`);
+        console.log(`   Transaction Hash: ${hash}`);
+      }
+    });
+    console.log(`\n⏱️  Channel redemption started`);
+  }
+
+  stopChannelRedemption() {
+    this.channelManager.stopRedemption();
+  }
+
+  /**
+   * Adds an agent to the escrow watcher, which refunds its expired escrows automatically
+   */
+  watchEscrows(agentDID: string, agentSeed?: string) {
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+    this.escrowWatcher.watch(wallet);
+  }
+
+  unwatchEscrows(agentDID: string) {
+    this.escrowWatcher.unwatch(this.didManager.resolveDID(agentDID));
+  }
+
+  /**
+   * Starts polling watched agents' escrows and cancelling the expired ones
+   * @example
+   * XAG.watchEscrows(buyerDID);
+   * await XAG.startEscrowWatcher();
+   */
+  async startEscrowWatcher() {
+    await this.connect();
+    this.escrowWatcher.start();
+    console.log(`\n👀 Escrow watcher started`);
+  }
+
+  stopEscrowWatcher() {
+    this.escrowWatcher.stop();
+  }
+
+  /**
+   * Runs one escrow watcher pass immediately
+   */
+  async checkExpiredEscrows(): Promise<EscrowRefundOutcome[]> {
+    await this.connect();
+    return await this.escrowWatcher.checkNow();
+  }
+
+  private logRefund(outcome: EscrowRefundOutcome) {
+    if (outcome.status === 'refunded') {
+      console.log(`\n↩️  Expired escrow refunded to ${outcome.escrow.owner}`);
+      console.log(`   Escrow: ${outcome.escrow.createHash}`);
+      console.log(`   Transaction Hash: ${outcome.hash}`);
+    } else {
+      console.error(`\n❌ Failed to refund expired escrow ${outcome.escrow.createHash}: ${outcome.error}`);
+    }
+  }
+
+  /**
+   * Gets reputation for an agent by DID
+   * The score weighs completed trades by value, counterparty diversity and age, and penalises self-dealing,
+   * reversed trades, lapsed escrows, failed settlements, abandoned negotiations, cancelled intents and lost disputes;
+   * the result breaks the score down by factor
+   * @example
+   * const score = await XAG.getReputation(agentDID);
+   */
+  async getReputation(agentDID: string): Promise<ReputationResult> {
+    await this.connect();
+
+    console.log(`\n📊 Fetching reputation for: ${agentDID}`);
+    
+    const result = await this.reputationService.getReputation(agentDID);
 
-    // If seed provided, use it
-    if (seed) {
-      return Wallet.fromSeed(seed);
+    console.log(`   Completed Trades: ${result.successfulTrades} with ${result.counterparties} counterparties`);
+    console.log(`   Volume: ${result.volumeXRP} XRP`);
+    if (result.selfDealingTrades > 0 || result.cycleTrades > 0) {
+      console.log(`   ⚠️  Not counted: ${result.selfDealingTrades} with linked accounts, ${result.cycleTrades} reversed`);
+    }
+    if (result.successRatio !== undefined) {
+      console.log(`   Success Ratio: ${Math.round(result.successRatio * 100)}% (${result.cancelledTrades} cancelled, ${result.failedSettlements} failed)`);
+    }
+    if (result.disputesLost > 0) {
+      console.log(`   Disputes Lost: ${result.disputesLost}`);
+    }
+    if (result.rejectedNegotiations > 0 || result.abandonedNegotiations > 0) {
+      console.log(`   Negotiations: ${result.rejectedNegotiations} rejected, ${result.abandonedNegotiations} abandoned`);
     }
+    if (!result.historyComplete) {
+      console.log(`   ⚠️  Only the latest ${result.transactionsScanned} transactions were read`);
+    }
+    console.log(`   Reputation Score: ${result.score}`);
 
-    throw new Error(`Wallet not found for ${didOrAddress}. Please provide seed or create agent first.`);
+    return result;
   }
 
   /**
-   * Initiates a trade with escrow-locked payments
+   * Gets an agent's reputation activity over time, bucketed by day or week
+   * Each bucket counts trades, volume, cancellations and ratings, broken down by counterparty and trade category
    * @example
-   * const settlement = await XAG.initiateTrade({
-   *   buyer: buyerDID,
-   *   seller: sellerDID,
-   *   amount: 100,
-   *   token: "RLUSD",
-   *   condition: fulfillmentCryptoCondition 
-   * });
+   * const history = await XAG.getReputationHistory(agentDID, { interval: 'week' });
    */
-  async initiateTrade(config: TradeConfig, buyerSeed?: string): Promise<TradeResult> {
+  async getReputationHistory(
+    agentDID: string,
+    options: { interval?: 'day' | 'week'; since?: Date | string } = {}
+  ): Promise<ReputationHistory> {
     await this.connect();
+    return await this.reputationService.getHistory(agentDID, options);
+  }
 
-    // Get buyer wallet (from stored wallets or seed)
-    let buyerWallet: Wallet;
+  /**
+   * Exports the agent's reputation as a signed snapshot another agent can verify without reading its history,
+   * e.g. to present at the start of a negotiation
+   * @example
+   * const proof = await XAG.exportReputationProof(agentDID);
+   * const check = await otherXAG.verifyReputationProof(proof, { sample: 5 });
+   */
+  async exportReputationProof(agentDID: string, agentSeed?: string): Promise<ReputationProof> {
+    await this.connect();
+
+    let agentWallet: Wallet;
     try {
-      buyerWallet = this.getWalletFromDID(config.buyer, buyerSeed);
+      agentWallet = this.getWalletFromDID(agentDID, agentSeed);
     } catch (error) {
-      throw new Error(`Buyer wallet not found. Please create agent first or provide buyerSeed. ${error}`);
-    }
-
-    const buyerAddress = this.didManager.resolveDID(config.buyer);
-    
-    // Check balance
-    if (config.token === 'XRP') {
-      const accountInfo = await this.client.request({
-        command: 'account_info',
-        account: buyerAddress
-      });
-      const balance = parseFloat(accountInfo.result.account_data.Balance) / 1000000;
-      console.log(`\n💰 Buyer balance: ${balance} XRP`);
-
-      if (balance < config.amount + 0.1) {
-        throw new Error(`Insufficient balance. Need ${config.amount + 0.1} XRP (amount + fees)`);
-      }
-    } else if (config.token === 'RLUSD') {
-      const balance = await this.rlusdManager.getBalance(buyerAddress);
-      console.log(`\n💰 Buyer RLUSD balance: ${balance}`);
-      
-      if (parseFloat(balance) < config.amount) {
-        throw new Error(`Insufficient RLUSD balance. Need ${config.amount}, have ${balance}`);
-      }
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
     }
 
-    // Add default memo for auditability
-    const memo = config.memo || `XAG Trade: ${config.amount} ${config.token} from ${config.buyer} to ${config.seller}`;
-
-    console.log(`\n🔒 Creating ${config.token === 'RLUSD' ? 'RLUSD Payment' : 'Native Escrow'}...`);
-    console.log(`   Amount: ${config.amount} ${config.token}`);
-    console.log(`   Buyer: ${config.buyer}`);
-    console.log(`   Seller: ${config.seller}`);
-    console.log(`   Memo: ${memo}`);
-
-    const tradeConfig: TradeConfig = {
-      ...config,
-      memo
-    };
+    const proof = await this.reputationService.exportProof(agentWallet, agentDID);
 
-    const result = await this.escrowManager.initiateTrade(tradeConfig, buyerWallet);
+    console.log(`\n📜 Reputation proof for: ${agentDID}`);
+    console.log(`   Reputation Score: ${proof.reputation.score}`);
+    console.log(`   Ledgers: ${proof.ledgerRange.first} to ${proof.ledgerRange.last}`);
+    console.log(`   Supporting Transactions: ${proof.transactions.length}`);
 
-    console.log(`\n✅ Trade initiated - ${config.token === 'RLUSD' ? 'Payment created' : 'Escrow created'}!`);
-    console.log(`   Transaction Hash: ${result.hash}`);
-    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${result.hash}`);
+    return proof;
+  }
 
-    return result;
+  /**
+   * Verifies a reputation proof's signature offline (a self-attested result), or with a sample, also re-reads that
+   * many of its transactions from the ledger and checks the signing key controls the DID now
+   */
+  async verifyReputationProof(proof: ReputationProof, options: { sample?: number } = {}): Promise<ReputationProofVerificationResult> {
+    if (options.sample) {
+      await this.connect();
+    }
+    return await this.reputationService.verifyProof(proof, options);
   }
 
   /**
-   * Fulfills a trade (completes escrow or verifies payment)
+   * Rates the other party to a fulfilled trade, from 1 to 5 stars with an optional comment
+   * The rating is signed and sent to the rated party as an xag:rating memo; each party can rate a trade once
+   * @example
+   * await XAG.rateTrade(trade.hash, buyerDID, { score: 5, comment: 'Delivered on time' });
    */
-  async fulfillTrade(escrowHash: string, sellerDID: string, token: 'RLUSD' | 'XRP' = 'XRP', sellerSeed?: string): Promise<string> {
+  async rateTrade(
+    tradeHash: string,
+    raterDID: string,
+    review: { score: number; comment?: string },
+    raterSeed?: string
+  ): Promise<{ rating: TradeRating; hash: string }> {
     await this.connect();
 
-    // Get seller wallet
-    let sellerWallet: Wallet;
+    let raterWallet: Wallet;
     try {
-      sellerWallet = this.getWalletFromDID(sellerDID, sellerSeed);
+      raterWallet = this.getWalletFromDID(raterDID, raterSeed);
     } catch (error) {
-      throw new Error(`Seller wallet not found. Please create agent first or provide sellerSeed. ${error}`);
+      throw new Error(`Rater wallet not found. Please create agent first or provide raterSeed. ${error}`);
     }
 
-    console.log(`\n✅ Fulfilling ${token} trade...`);
-    const hash = await this.escrowManager.fulfillTrade(escrowHash, sellerWallet, token);
-    
-    if (token === 'XRP') {
-      console.log(`\n✅ Trade fulfilled - Escrow finished!`);
-      console.log(`   Transaction Hash: ${hash}`);
-      console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${hash}`);
-    } else {
-      console.log(`\n✅ RLUSD Payment verified!`);
-      console.log(`   Transaction Hash: ${hash}`);
-    }
+    const rating = await this.ratingService.createRating(raterWallet, raterDID, tradeHash, review);
+    const hash = await this.ratingService.submitRating(raterWallet, rating);
 
-    return hash;
+    console.log(`\n⭐ Rated ${rating.ratee} ${rating.score}/5`);
+    console.log(`   Trade: ${tradeHash}`);
+    console.log(`   Transaction Hash: ${hash}`);
+
+    return { rating, hash };
   }
 
   /**
-   * Gets reputation for an agent by DID
+   * Gets the ratings an agent has received, oldest first, each with its verification
+   */
+  async getRatings(agentDID: string): Promise<RatingVerificationResult[]> {
+    await this.connect();
+    return await this.ratingService.getRatings(agentDID);
+  }
+
+  /**
+   * Verifies a rating's signature, that its rater and rated party made the trade, and that the trade was fulfilled
+   */
+  async verifyRating(rating: TradeRating): Promise<RatingVerificationResult> {
+    await this.connect();
+    return await this.ratingService.verifyRating(rating);
+  }
+
+  /**
+   * Runs any XAG operation without submitting it, to see what it would cost first
+   * The operation stops at the first transaction it would submit; that transaction is returned prepared but
+   * unsigned, with its fee, XRP spend, owner-reserve impact and (where the server supports simulate) engine result.
+   * If the operation would go on to submit more, the report is marked partial
    * @example
-   * const score = await XAG.getReputation(agentDID);
+   * const report = await XAG.dryRun(() => XAG.initiateTrade(config, buyerSeed));
+   * if (report.canAfford && report.engineResult === 'tesSUCCESS') {
+   *   await XAG.initiateTrade(config, buyerSeed);
+   * }
    */
-  async getReputation(agentDID: string): Promise<ReputationResult> {
+  async dryRun(operation: () => Promise<unknown>): Promise<DryRunReport> {
     await this.connect();
 
-    console.log(`\n📊 Fetching reputation for: ${agentDID}`);
-    
-    const result = await this.reputationService.getReputation(agentDID);
+    const report = await runDryRun(operation);
 
-    console.log(`   Successful Escrow Creates: ${result.escrowCreates}`);
-    console.log(`   Successful Escrow Finishes: ${result.escrowFinishes}`);
-    console.log(`   Successful Payments: ${result.payments}`);
-    console.log(`   Reputation Score: ${result.score}`);
+    console.log(`\n🧪 Dry run: ${report.action}`);
+    console.log(`   Account: ${report.account}`);
+    console.log(`   Fee: ${report.fee} drops`);
+    console.log(`   XRP Spend: ${report.xrpSpend} drops`);
+    console.log(`   Owner Reserve Change: ${report.reserve.ownerCountChange} object(s), ${report.reserve.required} drops required`);
+    console.log(`   Can Afford: ${report.canAfford ? 'yes' : 'no'}`);
+    if (report.engineResult) {
+      console.log(`   Predicted Result: ${report.engineResult}`);
+    }
+    if (report.partial) {
+      console.log(`   ⚠️  Partial: later transactions of this operation are not estimated`);
+    }
 
-    return result;
+    return report;
   }
 
   /**
@@ -299,11 +1660,9 @@ export class XAG {
     };
 
     try {
-      const prepared = await this.client.autofill(paymentTx);
-      const signed = agentWallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
+      const result = await submitTransaction(this.client, paymentTx, agentWallet, 'log message');
 
-      const txHash = result.result.hash as string;
+      const txHash = result.hash;
       console.log(`\n📝 Logged to blockchain [${level.toUpperCase()}]`);
       console.log(`   Message: ${message}`);
       console.log(`   Transaction Hash: ${txHash}`);
@@ -315,6 +1674,59 @@ export class XAG {
     }
   }
 
+  /**
+   * Creates a signed off-chain message for another agent (no ledger transaction, no fee)
+   * @example
+   * const envelope = await xag.createMessage(buyer.did, seller.did, { bid: 0.09 }, { ttlSeconds: 60 });
+   */
+  async createMessage<T>(
+    senderDID: string,
+    recipientDID: string,
+    payload: T,
+    options: { ttlSeconds?: number } = {},
+    senderSeed?: string
+  ): Promise<MessageEnvelope<T>> {
+    await this.connect();
+
+    let senderWallet: Wallet;
+    try {
+      senderWallet = this.getWalletFromDID(senderDID, senderSeed);
+    } catch (error) {
+      throw new Error(`Sender wallet not found. Please create agent first or provide senderSeed. ${error}`);
+    }
+
+    return this.messagingService.createEnvelope(senderWallet, senderDID, recipientDID, payload, options.ttlSeconds);
+  }
+
+  /**
+   * Verifies a signed message against the sender's DID, rejecting expired and replayed envelopes
+   */
+  async verifyMessage(envelope: MessageEnvelope, options?: { recipientDID?: string }): Promise<EnvelopeVerificationResult> {
+    await this.connect();
+    return await this.messagingService.verifyEnvelope(envelope, options);
+  }
+
+  /**
+   * Anchors a signed message's hash on-chain, making an important exchange attributable on the ledger
+   */
+  async anchorMessage(envelope: MessageEnvelope, senderSeed?: string): Promise<string> {
+    await this.connect();
+
+    let senderWallet: Wallet;
+    try {
+      senderWallet = this.getWalletFromDID(envelope.sender, senderSeed);
+    } catch (error) {
+      throw new Error(`Sender wallet not found. Please create agent first or provide senderSeed. ${error}`);
+    }
+
+    const txHash = await this.messagingService.anchorEnvelope(senderWallet, envelope);
+    console.log(`\n⚓ Message anchored`);
+    console.log(`   Envelope ID: ${envelope.id}`);
+    console.log(`   Transaction Hash: ${txHash}`);
+    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${txHash}`);
+    return txHash;
+  }
+
   /**
    * Retrieves logs from blockchain for an agent
    * Parses transaction memos to extract log entries
@@ -440,15 +1852,226 @@ export class XAG {
   /**
    * Verifies an agent's credentials
    */
-  async verifyAgent(agentDID: string, requirements?: {
-    minReputation?: number;
-    requireProfile?: boolean;
-    requiredCapabilities?: string[];
-  }): Promise<VerificationResult> {
+  async verifyAgent(agentDID: string, requirements?: VerificationRequirements): Promise<VerificationResult> {
     await this.connect();
     return await this.verificationService.verifyAgent(agentDID, requirements);
   }
 
+  /**
+   * Issues a Verifiable Credential about another agent, signed with the issuer's XRPL key
+   * The credential is stored so verifyAgent checks it automatically
+   * @example
+   * const vc = await xag.issueCredential(certifier.did, supplier.did, {
+   *   type: 'SolarSupplierCredential',
+   *   claims: { capacityKw: 250 }
+   * }, certifier.seed);
+   */
+  async issueCredential(
+    issuerDID: string,
+    subjectDID: string,
+    credential: { type: string; claims?: Record<string, any>; expirationDate?: string },
+    issuerSeed?: string
+  ): Promise<VerifiableCredential> {
+    await this.connect();
+
+    let issuerWallet: Wallet;
+    try {
+      issuerWallet = this.getWalletFromDID(issuerDID, issuerSeed);
+    } catch (error) {
+      throw new Error(`Issuer wallet not found. Please create agent first or provide issuerSeed. ${error}`);
+    }
+
+    const vc = this.credentialService.issueCredential(issuerWallet, issuerDID, subjectDID, credential);
+    this.credentialService.storeCredential(vc);
+
+    console.log(`\n🎓 Credential issued`);
+    console.log(`   Type: ${credential.type}`);
+    console.log(`   Issuer: ${issuerDID}`);
+    console.log(`   Subject: ${subjectDID}`);
+
+    return vc;
+  }
+
+  /**
+   * Stores a credential received from another agent or issuer
+   */
+  storeCredential(credential: VerifiableCredential) {
+    this.credentialService.storeCredential(credential);
+  }
+
+  /**
+   * Gets stored credentials about an agent
+   */
+  getCredentials(subjectDID: string, type?: string): VerifiableCredential[] {
+    return this.credentialService.getCredentials(subjectDID, type);
+  }
+
+  /**
+   * Presents stored credentials about an agent in a presentation signed by that agent
+   */
+  async presentCredentials(
+    holderDID: string,
+    options: { types?: string[]; challenge?: string } = {},
+    holderSeed?: string
+  ): Promise<VerifiablePresentation> {
+    await this.connect();
+
+    let holderWallet: Wallet;
+    try {
+      holderWallet = this.getWalletFromDID(holderDID, holderSeed);
+    } catch (error) {
+      throw new Error(`Holder wallet not found. Please create agent first or provide holderSeed. ${error}`);
+    }
+
+    const credentials = this.credentialService.getCredentials(holderDID).filter(credential =>
+      !options.types || options.types.some(type => credential.type.includes(type))
+    );
+    return this.credentialService.createPresentation(holderWallet, holderDID, credentials, options.challenge);
+  }
+
+  /**
+   * Verifies a Verifiable Credential (signature, issuer DID, expiry, revocation, trusted issuers)
+   */
+  async verifyCredential(
+    credential: VerifiableCredential,
+    options?: { trustedIssuers?: string[] }
+  ): Promise<CredentialVerificationResult> {
+    await this.connect();
+    return await this.credentialService.verifyCredential(credential, options);
+  }
+
+  /**
+   * Verifies a Verifiable Presentation and the credentials it carries
+   */
+  async verifyPresentation(
+    presentation: VerifiablePresentation,
+    options?: { challenge?: string; trustedIssuers?: string[] }
+  ): Promise<{ verified: boolean; holderVerified: boolean; credentials: CredentialVerificationResult[] }> {
+    await this.connect();
+    return await this.credentialService.verifyPresentation(presentation, options);
+  }
+
+  /**
+   * Revokes a credential issued by this agent
+   */
+  async revokeCredential(issuerDID: string, credentialId: string, issuerSeed?: string): Promise<string> {
+    await this.connect();
+
+    let issuerWallet: Wallet;
+    try {
+      issuerWallet = this.getWalletFromDID(issuerDID, issuerSeed);
+    } catch (error) {
+      throw new Error(`Issuer wallet not found. Please create agent first or provide issuerSeed. ${error}`);
+    }
+
+    const txHash = await this.credentialService.revokeCredential(issuerWallet, credentialId);
+    console.log(`\n🚫 Credential revoked`);
+    console.log(`   Credential ID: ${credentialId}`);
+    console.log(`   Transaction Hash: ${txHash}`);
+    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${txHash}`);
+    return txHash;
+  }
+
+  /**
+   * Issues an on-ledger credential (XLS-70) to another agent
+   * @example
+   * await xag.issueLedgerCredential(certifier.did, supplier.did, 'SolarCertified', {}, certifier.seed);
+   */
+  async issueLedgerCredential(
+    issuerDID: string,
+    subjectDID: string,
+    credentialType: string,
+    options: { expiration?: number; uri?: string } = {},
+    issuerSeed?: string
+  ): Promise<string> {
+    await this.connect();
+
+    let issuerWallet: Wallet;
+    try {
+      issuerWallet = this.getWalletFromDID(issuerDID, issuerSeed);
+    } catch (error) {
+      throw new Error(`Issuer wallet not found. Please create agent first or provide issuerSeed. ${error}`);
+    }
+
+    const subjectAddress = this.didManager.resolveDID(subjectDID);
+    const txHash = await this.ledgerCredentialManager.createCredential(issuerWallet, subjectAddress, credentialType, options);
+    console.log(`\n🎓 Ledger credential issued`);
+    console.log(`   Type: ${credentialType}`);
+    console.log(`   Subject: ${subjectDID}`);
+    console.log(`   Transaction Hash: ${txHash}`);
+    console.log(`   View on Testnet: https://testnet.xrpl.org/transactions/${txHash}`);
+    return txHash;
+  }
+
+  /**
+   * Accepts an on-ledger credential issued to this agent
+   */
+  async acceptLedgerCredential(
+    subjectDID: string,
+    issuerDID: string,
+    credentialType: string,
+    subjectSeed?: string
+  ): Promise<string> {
+    await this.connect();
+
+    let subjectWallet: Wallet;
+    try {
+      subjectWallet = this.getWalletFromDID(subjectDID, subjectSeed);
+    } catch (error) {
+      throw new Error(`Subject wallet not found. Please create agent first or provide subjectSeed. ${error}`);
+    }
+
+    const issuerAddress = this.didManager.resolveDID(issuerDID);
+    const txHash = await this.ledgerCredentialManager.acceptCredential(subjectWallet, issuerAddress, credentialType);
+    console.log(`\n✅ Ledger credential accepted`);
+    console.log(`   Type: ${credentialType}`);
+    console.log(`   Transaction Hash: ${txHash}`);
+    return txHash;
+  }
+
+  /**
+   * Deletes an on-ledger credential (as issuer, subject, or anyone once it has expired)
+   */
+  async deleteLedgerCredential(
+    agentDID: string,
+    credential: { issuer?: string; subject?: string; credentialType: string },
+    agentSeed?: string
+  ): Promise<string> {
+    await this.connect();
+
+    let wallet: Wallet;
+    try {
+      wallet = this.getWalletFromDID(agentDID, agentSeed);
+    } catch (error) {
+      throw new Error(`Agent wallet not found. Please create agent first or provide agentSeed. ${error}`);
+    }
+
+    const txHash = await this.ledgerCredentialManager.deleteCredential(wallet, {
+      credentialType: credential.credentialType,
+      ...(credential.issuer && { issuer: this.didManager.resolveDID(credential.issuer) }),
+      ...(credential.subject && { subject: this.didManager.resolveDID(credential.subject) })
+    });
+    console.log(`\n🗑️  Ledger credential deleted`);
+    console.log(`   Transaction Hash: ${txHash}`);
+    return txHash;
+  }
+
+  /**
+   * Gets on-ledger credentials an agent has issued or holds
+   */
+  async getLedgerCredentials(
+    agentDID: string,
+    filter: { issuer?: string; subject?: string; credentialType?: string } = {}
+  ): Promise<LedgerCredential[]> {
+    await this.connect();
+    const address = this.didManager.resolveDID(agentDID);
+    return await this.ledgerCredentialManager.getCredentials(address, {
+      ...(filter.credentialType && { credentialType: filter.credentialType }),
+      ...(filter.issuer && { issuer: this.didManager.resolveDID(filter.issuer) }),
+      ...(filter.subject && { subject: this.didManager.resolveDID(filter.subject) })
+    });
+  }
+
   /**
    * Broadcasts an intent (offer or request)
    */
@@ -469,17 +2092,39 @@ export class XAG {
 
   /**
    * Searches for matching intents
+   * With sortBy 'price', intents priced in different assets are compared in `currency` (default XRP)
    */
   async searchIntents(criteria: {
     type?: 'offer' | 'request';
     category?: string;
     agentDID?: string;
     limit?: number;
+    sortBy?: 'timestamp' | 'price';
+    currency?: string;
+    order?: 'asc' | 'desc';
   }): Promise<Intent[]> {
     await this.connect();
     return await this.intentService.searchIntents(criteria);
   }
 
+  /**
+   * Searches known agents' on-chain profiles by capability, reputation and price
+   * @example
+   * const sellers = await xag.searchAgents({ agents: [solarDID, windDID], capabilities: ['solar-energy'], sortBy: 'price', currency: 'RLUSD' });
+   */
+  async searchAgents(criteria: {
+    agents: string[];
+    type?: string;
+    capabilities?: string[];
+    minReputation?: number;
+    sortBy?: 'price';
+    currency?: string;
+    order?: 'asc' | 'desc';
+  }): Promise<Array<{ address: string; profile: AgentProfile; reputation?: number; normalizedPrice?: { amount: number; currency: string } }>> {
+    await this.connect();
+    return await this.profileManager.searchAgents(criteria);
+  }
+
   /**
    * Initiates a negotiation
    */
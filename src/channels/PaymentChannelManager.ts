@@ -0,0 +1,341 @@
+import {
+  Client,
+  Wallet,
+  PaymentChannelCreate,
+  PaymentChannelFund,
+  PaymentChannelClaim,
+  PaymentChannelClaimFlags,
+  dropsToXrp,
+  signPaymentChannelClaim,
+  verifyPaymentChannelClaim
+} from 'xrpl';
+import { PaymentChannel, ChannelClaim, ChannelClaimVerification, ChannelBalance } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { submitTransaction } from '../transactions/submit';
+import { Money, MoneyInput } from '../currency/Money';
+
+const DEFAULT_SETTLE_DELAY = 24 * 60 * 60;
+const DEFAULT_REDEEM_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Streams XRP micropayments over payment channels:
+ * the buyer signs cumulative claims off-chain as units are consumed, and the seller redeems them on-ledger
+ */
+export class PaymentChannelManager {
+  private didManager: DIDManager;
+  private issued: Map<string, bigint> = new Map(); // Payer side: cumulative drops signed per channel
+  private balances: Map<string, ChannelBalance> = new Map(); // Payee side: best accepted claim per channel
+  private redeemTimer?: NodeJS.Timeout;
+
+  constructor(private client: Client) {
+    this.didManager = new DIDManager(client);
+  }
+
+  /**
+   * Opens a channel from the payer to a payee DID, funded with an XRP amount
+   */
+  async createChannel(
+    payerWallet: Wallet,
+    payeeDID: string,
+    amount: MoneyInput,
+    options: { settleDelay?: number; cancelAfter?: number } = {}
+  ): Promise<PaymentChannel> {
+    const createTx: PaymentChannelCreate = {
+      TransactionType: 'PaymentChannelCreate',
+      Account: payerWallet.address,
+      Destination: this.didManager.resolveDID(payeeDID),
+      Amount: Money.xrp(amount).toDrops(),
+      SettleDelay: options.settleDelay ?? DEFAULT_SETTLE_DELAY,
+      PublicKey: payerWallet.publicKey,
+      ...(options.cancelAfter && { CancelAfter: options.cancelAfter })
+    };
+
+    const result = await this.submit(createTx, payerWallet, 'create payment channel');
+    const channelId = ((result.meta as any)?.AffectedNodes || [])
+      .find((node: any) => node.CreatedNode?.LedgerEntryType === 'PayChannel')?.CreatedNode.LedgerIndex;
+    if (!channelId) {
+      throw new Error(`Channel created but its ID was not found in the metadata. Hash: ${result.hash}`);
+    }
+
+    this.issued.set(channelId, 0n);
+    return await this.getChannel(channelId);
+  }
+
+  /**
+   * Adds XRP to an open channel (only the payer can fund)
+   */
+  async fundChannel(payerWallet: Wallet, channelId: string, amount: MoneyInput, expiration?: number): Promise<string> {
+    const fundTx: PaymentChannelFund = {
+      TransactionType: 'PaymentChannelFund',
+      Account: payerWallet.address,
+      Channel: channelId,
+      Amount: Money.xrp(amount).toDrops(),
+      ...(expiration && { Expiration: expiration })
+    };
+
+    return (await this.submit(fundTx, payerWallet, 'fund payment channel')).hash;
+  }
+
+  /**
+   * Gets a channel's current on-ledger state
+   */
+  async getChannel(channelId: string): Promise<PaymentChannel> {
+    let node: any;
+    try {
+      const entry = await this.client.request({
+        command: 'ledger_entry',
+        payment_channel: channelId,
+        ledger_index: 'validated'
+      });
+      node = entry.result.node;
+    } catch (error: any) {
+      if (error?.data?.error === 'entryNotFound') {
+        throw new Error(`Payment channel ${channelId} not found (it may have been closed)`);
+      }
+      throw error;
+    }
+
+    return {
+      channelId,
+      payer: node.Account,
+      payee: node.Destination,
+      amount: node.Amount,
+      balance: node.Balance,
+      settleDelay: node.SettleDelay,
+      publicKey: node.PublicKey,
+      ...(node.Expiration !== undefined && { expiration: node.Expiration }),
+      ...(node.CancelAfter !== undefined && { cancelAfter: node.CancelAfter })
+    };
+  }
+
+  /**
+   * Signs a claim for a further XRP amount on top of everything signed so far
+   * Claims are cumulative, so the payee only ever needs to redeem the latest one
+   * The total can't exceed what the channel holds; fund the channel first to sign more
+   */
+  async createClaim(payerWallet: Wallet, channelId: string, amount: MoneyInput): Promise<ChannelClaim> {
+    const increment = Money.xrp(amount);
+    if (!increment.isPositive()) {
+      throw new Error(`Claim amount must be more than 0, not ${increment}`);
+    }
+
+    // Read every time, since the channel may have been funded since the last claim
+    const channel = await this.getChannel(channelId);
+    if (channel.payer !== payerWallet.address) {
+      throw new Error('Only the channel payer can sign claims');
+    }
+    if (!this.issued.has(channelId)) {
+      // Resume from what has already been redeemed; earlier claims can't be worth less than that
+      this.issued.set(channelId, BigInt(channel.balance));
+    }
+
+    const cumulative = this.issued.get(channelId)! + BigInt(increment.toDrops());
+    if (cumulative > BigInt(channel.amount)) {
+      throw new Error(`Claims would total ${dropsToXrp(cumulative.toString())} XRP, more than the ${dropsToXrp(channel.amount)} XRP in channel ${channelId}`);
+    }
+    const claim = this.signClaim(payerWallet, channelId, cumulative.toString());
+    this.issued.set(channelId, cumulative);
+    return claim;
+  }
+
+  /**
+   * Signs a claim for an absolute cumulative amount (in drops)
+   */
+  signClaim(payerWallet: Wallet, channelId: string, cumulativeDrops: string): ChannelClaim {
+    return {
+      channelId,
+      amount: cumulativeDrops,
+      signature: signPaymentChannelClaim(channelId, dropsToXrp(cumulativeDrops).toString(), payerWallet.privateKey),
+      publicKey: payerWallet.publicKey
+    };
+  }
+
+  /**
+   * Verifies a claim against the channel on the ledger and, if valid, keeps it as the best claim to redeem
+   * A claim must be signed by the channel's key, stay within its funds and exceed the last accepted claim
+   */
+  async verifyClaim(claim: ChannelClaim, payeeAddress?: string): Promise<ChannelClaimVerification> {
+    const errors: string[] = [];
+    const channel = await this.getChannel(claim.channelId);
+    const amount = BigInt(claim.amount);
+    const previous = this.balances.get(claim.channelId);
+    const floor = [BigInt(channel.balance), BigInt(previous?.claimed || '0')].reduce((a, b) => (a > b ? a : b));
+
+    if (claim.publicKey.toUpperCase() !== channel.publicKey.toUpperCase()) {
+      errors.push('Claim is not signed with the channel key');
+    } else if (!verifyPaymentChannelClaim(claim.channelId, dropsToXrp(claim.amount).toString(), claim.signature, claim.publicKey)) {
+      errors.push('Invalid claim signature');
+    }
+    if (payeeAddress && channel.payee !== payeeAddress) {
+      errors.push(`Channel pays ${channel.payee}, not ${payeeAddress}`);
+    }
+    if (amount > BigInt(channel.amount)) {
+      errors.push(`Claim of ${claim.amount} drops exceeds channel funds (${channel.amount} drops)`);
+    }
+    if (amount <= floor) {
+      errors.push(`Claim of ${claim.amount} drops does not exceed the accepted total (${floor} drops)`);
+    }
+    if (channel.expiration !== undefined || channel.cancelAfter !== undefined) {
+      const closeTime = await this.getLedgerCloseTime();
+      const closesAt = Math.min(channel.expiration ?? Infinity, channel.cancelAfter ?? Infinity);
+      if (closesAt <= closeTime) {
+        errors.push('Channel has expired');
+      }
+    }
+
+    const valid = errors.length === 0;
+    if (valid) {
+      this.balances.set(claim.channelId, {
+        channelId: claim.channelId,
+        payer: channel.payer,
+        payee: channel.payee,
+        capacity: channel.amount,
+        redeemed: channel.balance,
+        claimed: claim.amount,
+        unredeemed: (amount - BigInt(channel.balance)).toString(),
+        latestClaim: claim
+      });
+    }
+
+    return {
+      valid,
+      channelId: claim.channelId,
+      amount: claim.amount,
+      increment: (amount > floor ? amount - floor : 0n).toString(),
+      remaining: (BigInt(channel.amount) - (valid ? amount : floor)).toString(),
+      errors
+    };
+  }
+
+  /**
+   * Gets the payee-side balance of a channel (best accepted claim vs. what has been redeemed)
+   */
+  getBalance(channelId: string): ChannelBalance | undefined {
+    return this.balances.get(channelId);
+  }
+
+  listBalances(): ChannelBalance[] {
+    return Array.from(this.balances.values());
+  }
+
+  /**
+   * Redeems the best accepted claim on-ledger; with close, also closes the channel and returns the rest to the payer
+   */
+  async redeem(payeeWallet: Wallet, channelId: string, close: boolean = false): Promise<string | null> {
+    const balance = this.balances.get(channelId);
+    if (!balance?.latestClaim || BigInt(balance.unredeemed) === 0n) {
+      return close ? await this.closeChannel(payeeWallet, channelId) : null;
+    }
+    if (balance.payee !== payeeWallet.address) {
+      throw new Error('Only the channel payee can redeem claims');
+    }
+
+    const claim = balance.latestClaim;
+    const claimTx: PaymentChannelClaim = {
+      TransactionType: 'PaymentChannelClaim',
+      Account: payeeWallet.address,
+      Channel: channelId,
+      Balance: claim.amount,
+      Amount: claim.amount,
+      Signature: claim.signature.toUpperCase(),
+      PublicKey: claim.publicKey,
+      ...(close && { Flags: PaymentChannelClaimFlags.tfClose })
+    };
+
+    const hash = (await this.submit(claimTx, payeeWallet, 'redeem channel claim')).hash;
+    this.balances.set(channelId, { ...balance, redeemed: claim.amount, unredeemed: '0' });
+    return hash;
+  }
+
+  /**
+   * Closes a channel. The payee closes immediately; the payer's request takes effect after the settle delay
+   * (or immediately once the channel holds no unclaimed XRP)
+   */
+  async closeChannel(wallet: Wallet, channelId: string): Promise<string> {
+    const closeTx: PaymentChannelClaim = {
+      TransactionType: 'PaymentChannelClaim',
+      Account: wallet.address,
+      Channel: channelId,
+      Flags: PaymentChannelClaimFlags.tfClose
+    };
+
+    return (await this.submit(closeTx, wallet, 'close payment channel')).hash;
+  }
+
+  /**
+   * Periodically redeems accepted claims for the payee's channels
+   * A channel is redeemed once its unredeemed amount reaches minAmount (XRP), or when it is about to close
+   */
+  startRedemption(
+    payeeWallet: Wallet,
+    options: { intervalMs?: number; minAmount?: MoneyInput; onRedeem?: (channelId: string, hash: string) => void } = {}
+  ) {
+    this.stopRedemption();
+    const intervalMs = options.intervalMs || DEFAULT_REDEEM_INTERVAL_MS;
+    const minDrops = BigInt(Money.xrp(options.minAmount ?? 0).toDrops());
+
+    this.redeemTimer = setInterval(() => {
+      this.redeemDue(payeeWallet, minDrops, intervalMs, options.onRedeem)
+        .catch(error => console.error('Channel redemption failed:', error));
+    }, intervalMs);
+    this.redeemTimer.unref();
+  }
+
+  stopRedemption() {
+    if (this.redeemTimer) {
+      clearInterval(this.redeemTimer);
+      this.redeemTimer = undefined;
+    }
+  }
+
+  private async redeemDue(
+    payeeWallet: Wallet,
+    minDrops: bigint,
+    intervalMs: number,
+    onRedeem?: (channelId: string, hash: string) => void
+  ) {
+    if (!this.client.isConnected()) return;
+    const closeTime = await this.getLedgerCloseTime();
+
+    for (const balance of this.balances.values()) {
+      if (balance.payee !== payeeWallet.address || BigInt(balance.unredeemed) === 0n) continue;
+
+      const channel = await this.getChannel(balance.channelId);
+      const closesAt = Math.min(channel.expiration ?? Infinity, channel.cancelAfter ?? Infinity);
+      const closingSoon = closesAt - closeTime <= (2 * intervalMs) / 1000;
+
+      if (BigInt(balance.unredeemed) >= minDrops || closingSoon) {
+        const hash = await this.redeem(payeeWallet, balance.channelId);
+        if (hash && onRedeem) {
+          onRedeem(balance.channelId, hash);
+        }
+      }
+    }
+  }
+
+  private async getLedgerCloseTime(): Promise<number> {
+    const ledger = await this.client.request({
+      command: 'ledger',
+      ledger_index: 'validated'
+    });
+    return ledger.result.ledger.close_time;
+  }
+
+  private async submit(
+    tx: PaymentChannelCreate | PaymentChannelFund | PaymentChannelClaim,
+    wallet: Wallet,
+    action: string
+  ): Promise<{ hash: string; meta: unknown }> {
+    try {
+      const result = await submitTransaction(this.client, tx, wallet, action);
+
+      const txResult = result.meta?.TransactionResult;
+      if (txResult !== 'tesSUCCESS') {
+        throw new Error(txResult);
+      }
+      return { hash: result.hash, meta: result.meta };
+    } catch (error: any) {
+      throw new Error(`Failed to ${action}: ${error.message || error}`);
+    }
+  }
+}
@@ -0,0 +1,328 @@
+import { Client, Wallet, Payment, xrpToDrops, deriveAddress } from 'xrpl';
+import { randomUUID } from 'crypto';
+import { VerifiableCredential, VerifiablePresentation, CredentialProof, CredentialVerificationResult } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { signPayload, proofTypeForKey } from '../identity/signing';
+import { submitTransaction } from '../transactions/submit';
+
+const CREDENTIALS_CONTEXT = ['https://www.w3.org/2018/credentials/v1'];
+
+export class CredentialService {
+  private didManager: DIDManager;
+  private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
+  private credentials: Map<string, VerifiableCredential[]> = new Map(); // Stored credentials by subject address
+  private trustedIssuers: string[];
+
+  constructor(private client: Client, options: { trustedIssuers?: string[] } = {}) {
+    this.didManager = new DIDManager(client);
+    this.trustedIssuers = options.trustedIssuers || [];
+  }
+
+  /**
+   * Sets the issuer DIDs accepted when verifying credentials
+   * An empty list trusts no issuer, so every credential fails verification until issuers are configured
+   */
+  setTrustedIssuers(issuers: string[]) {
+    this.trustedIssuers = issuers;
+  }
+
+  /**
+   * Issues a Verifiable Credential about a subject DID, signed with the issuer's XRPL key
+   */
+  issueCredential(
+    issuerWallet: Wallet,
+    issuerDID: string,
+    subjectDID: string,
+    credential: {
+      type: string; // e.g., "SolarSupplierCredential"
+      claims?: Record<string, any>;
+      expirationDate?: string;
+    }
+  ): VerifiableCredential {
+    const unsigned: VerifiableCredential = {
+      '@context': CREDENTIALS_CONTEXT,
+      id: `urn:uuid:${randomUUID()}`,
+      type: ['VerifiableCredential', credential.type],
+      issuer: issuerDID,
+      issuanceDate: new Date().toISOString(),
+      ...(credential.expirationDate && { expirationDate: credential.expirationDate }),
+      credentialSubject: {
+        ...(credential.claims || {}),
+        id: subjectDID
+      },
+      credentialStatus: {
+        id: `${issuerDID}#revocations`,
+        type: 'XAGLedgerRevocation'
+      }
+    };
+
+    return {
+      ...unsigned,
+      proof: this.createProof(issuerWallet, issuerDID, unsigned, 'assertionMethod')
+    };
+  }
+
+  /**
+   * Stores a credential so it can be presented and checked during agent verification
+   */
+  storeCredential(credential: VerifiableCredential) {
+    const subject = this.didManager.parseDID(credential.credentialSubject.id).address;
+    const stored = this.credentials.get(subject) || [];
+    if (!stored.some(existing => existing.id === credential.id)) {
+      stored.push(credential);
+    }
+    this.credentials.set(subject, stored);
+  }
+
+  /**
+   * Gets stored credentials about a subject, optionally filtered by type
+   */
+  getCredentials(subjectDID: string, type?: string): VerifiableCredential[] {
+    const subject = this.didManager.parseDID(subjectDID).address;
+    const stored = this.credentials.get(subject) || [];
+    return type ? stored.filter(credential => credential.type.includes(type)) : stored;
+  }
+
+  /**
+   * Wraps credentials in a Verifiable Presentation signed by the holder
+   * The challenge should come from the verifier to prevent replaying the presentation
+   */
+  createPresentation(
+    holderWallet: Wallet,
+    holderDID: string,
+    credentials: VerifiableCredential[],
+    challenge?: string
+  ): VerifiablePresentation {
+    const unsigned: VerifiablePresentation = {
+      '@context': CREDENTIALS_CONTEXT,
+      type: ['VerifiablePresentation'],
+      holder: holderDID,
+      verifiableCredential: credentials
+    };
+
+    return {
+      ...unsigned,
+      proof: this.createProof(holderWallet, holderDID, unsigned, 'authentication', challenge)
+    };
+  }
+
+  /**
+   * Verifies a credential's signature, issuer, expiry, revocation status and issuer trust
+   */
+  async verifyCredential(
+    credential: VerifiableCredential,
+    options: { trustedIssuers?: string[] } = {}
+  ): Promise<CredentialVerificationResult> {
+    const errors: string[] = [];
+    const checks = {
+      signature: false,
+      issuerResolved: false,
+      notExpired: false,
+      notRevoked: false,
+      trustedIssuer: false
+    };
+
+    // 1. Issuer DID must resolve to an active DID
+    try {
+      const resolution = await this.didManager.resolveDIDDocument(credential.issuer);
+      checks.issuerResolved = resolution.didDocument !== null && !resolution.didDocumentMetadata.deactivated;
+      if (!checks.issuerResolved) {
+        errors.push(resolution.didResolutionMetadata.message || `Issuer DID ${credential.issuer} is not active`);
+      }
+    } catch (error: any) {
+      errors.push(`Issuer DID could not be resolved: ${error.message || error}`);
+    }
+
+    // 2. Proof must be signed by a key that controls the issuer DID now (proof.created is the signer's own claim)
+    if (credential.proof) {
+      checks.signature = await this.verifyProof(credential.issuer, credential, credential.proof);
+      if (!checks.signature) {
+        errors.push('Invalid credential signature');
+      }
+    } else {
+      errors.push('Credential has no proof');
+    }
+
+    // 3. Expiry
+    checks.notExpired = !credential.expirationDate || new Date(credential.expirationDate).getTime() > Date.now();
+    if (!checks.notExpired) {
+      errors.push(`Credential expired on ${credential.expirationDate}`);
+    }
+
+    // 4. Revocation
+    try {
+      checks.notRevoked = !(await this.isRevoked(credential));
+      if (!checks.notRevoked) {
+        errors.push('Credential has been revoked by its issuer');
+      }
+    } catch (error: any) {
+      errors.push(`Revocation status unavailable: ${error.message || error}`);
+    }
+
+    // 5. Trusted issuers; with none configured, no issuer is trusted (anyone can issue a credential to itself)
+    const trustedIssuers = options.trustedIssuers || this.trustedIssuers;
+    checks.trustedIssuer = trustedIssuers.some(issuer => this.didManager.isSameDID(issuer, credential.issuer));
+    if (!checks.trustedIssuer) {
+      errors.push(trustedIssuers.length === 0 ? 'No trusted issuers are configured' : `Issuer ${credential.issuer} is not trusted`);
+    }
+
+    return {
+      credentialId: credential.id,
+      type: credential.type[credential.type.length - 1],
+      issuer: credential.issuer,
+      subject: credential.credentialSubject.id,
+      verified: Object.values(checks).every(Boolean),
+      checks,
+      errors
+    };
+  }
+
+  /**
+   * Verifies a presentation's holder signature and every credential it contains
+   */
+  async verifyPresentation(
+    presentation: VerifiablePresentation,
+    options: { challenge?: string; trustedIssuers?: string[] } = {}
+  ): Promise<{ verified: boolean; holderVerified: boolean; credentials: CredentialVerificationResult[] }> {
+    let holderVerified = false;
+    if (presentation.proof && (!options.challenge || presentation.proof.challenge === options.challenge)) {
+      holderVerified = await this.verifyProof(presentation.holder, presentation, presentation.proof);
+    }
+
+    const credentials = await Promise.all(
+      presentation.verifiableCredential.map(credential => this.verifyCredential(credential, options))
+    );
+
+    // Holders may only present credentials issued about themselves
+    const heldBySubject = presentation.verifiableCredential.every(credential =>
+      this.didManager.isSameDID(credential.credentialSubject.id, presentation.holder)
+    );
+
+    return {
+      verified: holderVerified && heldBySubject && credentials.every(result => result.verified),
+      holderVerified,
+      credentials
+    };
+  }
+
+  /**
+   * Revokes a credential by publishing its ID in a memo from the issuer's account
+   */
+  async revokeCredential(issuerWallet: Wallet, credentialId: string): Promise<string> {
+    const revocation = {
+      action: 'revoke_credential',
+      credentialId,
+      timestamp: new Date().toISOString()
+    };
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: issuerWallet.address,
+      Destination: this.SINK_ADDRESS,
+      Amount: xrpToDrops('0.000001'),
+      Memos: [{
+        Memo: {
+          MemoData: Buffer.from(JSON.stringify(revocation)).toString('hex'),
+          MemoType: Buffer.from('application/json').toString('hex'),
+          MemoFormat: Buffer.from('xag:vc:revocation').toString('hex')
+        }
+      }]
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, issuerWallet, 'revoke credential');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to revoke credential: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Checks the issuer's whole account history for a revocation memo
+   */
+  private async isRevoked(credential: VerifiableCredential): Promise<boolean> {
+    if (!credential.credentialStatus) {
+      return false;
+    }
+
+    const issuerAddress = this.didManager.resolveDID(credential.issuer);
+    let marker: unknown;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: issuerAddress,
+        limit: 200,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const tx of accountTx.result.transactions || []) {
+        const txData: any = tx.tx || tx.tx_json || {};
+        // Only the issuer itself can revoke
+        if (txData.Account !== issuerAddress || (tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+
+        for (const memo of txData.Memos || []) {
+          try {
+            const memoFormat = (memo as any).Memo?.MemoFormat;
+            if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === 'xag:vc:revocation') {
+              const revocation = JSON.parse(Buffer.from((memo as any).Memo.MemoData, 'hex').toString('utf-8'));
+              if (revocation.credentialId === credential.id) {
+                return true;
+              }
+            }
+          } catch (error) {
+            continue;
+          }
+        }
+      }
+
+      marker = accountTx.result.marker;
+    } while (marker !== undefined);
+
+    return false;
+  }
+
+  private createProof(
+    wallet: Wallet,
+    did: string,
+    document: VerifiableCredential | VerifiablePresentation,
+    proofPurpose: 'assertionMethod' | 'authentication',
+    challenge?: string
+  ): CredentialProof {
+    const isMasterKey = deriveAddress(wallet.publicKey) === wallet.address;
+    const proof: Omit<CredentialProof, 'proofValue'> = {
+      type: proofTypeForKey(wallet.publicKey),
+      created: new Date().toISOString(),
+      verificationMethod: `${did}#${isMasterKey ? 'master' : 'regular'}`,
+      proofPurpose,
+      publicKeyHex: wallet.publicKey,
+      ...(challenge && { challenge })
+    };
+
+    return {
+      ...proof,
+      proofValue: signPayload(wallet, { ...document, proof })
+    };
+  }
+
+  private async verifyProof(
+    did: string,
+    document: VerifiableCredential | VerifiablePresentation,
+    proof: CredentialProof
+  ): Promise<boolean> {
+    const { proofValue, ...proofOptions } = proof;
+    const { proof: _proof, ...unsigned } = document;
+
+    try {
+      return await this.didManager.verifySignature(
+        did,
+        { ...unsigned, proof: proofOptions },
+        proofValue,
+        proof.publicKeyHex
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { Client, Wallet, CredentialCreate, CredentialAccept, CredentialDelete, convertStringToHex, convertHexToString } from 'xrpl';
+import { LedgerCredential } from '../types';
+import { submitTransaction } from '../transactions/submit';
+
+const LSF_ACCEPTED = 0x00010000;
+
+export class LedgerCredentialManager {
+  constructor(private client: Client) {}
+
+  /**
+   * Issues an on-ledger credential (XLS-70 CredentialCreate)
+   * The subject must accept it before it counts
+   */
+  async createCredential(
+    issuerWallet: Wallet,
+    subjectAddress: string,
+    credentialType: string,
+    options: { expiration?: number; uri?: string } = {}
+  ): Promise<string> {
+    const credentialTx: CredentialCreate = {
+      TransactionType: 'CredentialCreate',
+      Account: issuerWallet.address,
+      Subject: subjectAddress,
+      CredentialType: convertStringToHex(credentialType),
+      ...(options.expiration && { Expiration: options.expiration }),
+      ...(options.uri && { URI: convertStringToHex(options.uri) })
+    };
+
+    return await this.submit(credentialTx, issuerWallet, 'create credential');
+  }
+
+  /**
+   * Accepts a credential issued to the wallet's account (XLS-70 CredentialAccept)
+   */
+  async acceptCredential(subjectWallet: Wallet, issuerAddress: string, credentialType: string): Promise<string> {
+    const acceptTx: CredentialAccept = {
+      TransactionType: 'CredentialAccept',
+      Account: subjectWallet.address,
+      Issuer: issuerAddress,
+      CredentialType: convertStringToHex(credentialType)
+    };
+
+    return await this.submit(acceptTx, subjectWallet, 'accept credential');
+  }
+
+  /**
+   * Deletes a credential (XLS-70 CredentialDelete)
+   * The issuer or subject can delete at any time; anyone can delete an expired credential
+   */
+  async deleteCredential(
+    wallet: Wallet,
+    credential: { issuer?: string; subject?: string; credentialType: string }
+  ): Promise<string> {
+    const deleteTx: CredentialDelete = {
+      TransactionType: 'CredentialDelete',
+      Account: wallet.address,
+      CredentialType: convertStringToHex(credential.credentialType),
+      ...(credential.issuer && { Issuer: credential.issuer }),
+      ...(credential.subject && { Subject: credential.subject })
+    };
+
+    return await this.submit(deleteTx, wallet, 'delete credential');
+  }
+
+  /**
+   * Gets credentials an account has issued or holds
+   */
+  async getCredentials(
+    address: string,
+    filter: { issuer?: string; subject?: string; credentialType?: string } = {}
+  ): Promise<LedgerCredential[]> {
+    const closeTime = await this.getLedgerCloseTime();
+    const credentials: LedgerCredential[] = [];
+    let marker: unknown;
+
+    do {
+      const accountObjects = await this.client.request({
+        command: 'account_objects',
+        account: address,
+        type: 'credential',
+        ledger_index: 'validated',
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const object of accountObjects.result.account_objects || []) {
+        const credential = object as any;
+        const parsed: LedgerCredential = {
+          issuer: credential.Issuer,
+          subject: credential.Subject,
+          credentialType: convertHexToString(credential.CredentialType),
+          accepted: (credential.Flags & LSF_ACCEPTED) !== 0,
+          ...(credential.Expiration !== undefined && { expiration: credential.Expiration }),
+          expired: credential.Expiration !== undefined && credential.Expiration <= closeTime,
+          ...(credential.URI && { uri: convertHexToString(credential.URI) }),
+          ledgerIndex: credential.index,
+          previousTxnId: credential.PreviousTxnID
+        };
+
+        if (filter.issuer && parsed.issuer !== filter.issuer) continue;
+        if (filter.subject && parsed.subject !== filter.subject) continue;
+        if (filter.credentialType && parsed.credentialType !== filter.credentialType) continue;
+        credentials.push(parsed);
+      }
+      marker = accountObjects.result.marker;
+    } while (marker !== undefined);
+
+    return credentials;
+  }
+
+  /**
+   * Finds an accepted, unexpired credential held by a subject
+   */
+  async findValidCredential(
+    subjectAddress: string,
+    issuerAddress: string,
+    credentialType: string
+  ): Promise<LedgerCredential | null> {
+    const credentials = await this.getCredentials(subjectAddress, {
+      issuer: issuerAddress,
+      subject: subjectAddress,
+      credentialType
+    });
+    return credentials.find(credential => credential.accepted && !credential.expired) || null;
+  }
+
+  /**
+   * Expiration is checked against the last validated ledger, as the ledger itself does
+   */
+  private async getLedgerCloseTime(): Promise<number> {
+    const ledger = await this.client.request({
+      command: 'ledger',
+      ledger_index: 'validated'
+    });
+    return ledger.result.ledger.close_time;
+  }
+
+  private async submit(
+    tx: CredentialCreate | CredentialAccept | CredentialDelete,
+    wallet: Wallet,
+    action: string
+  ): Promise<string> {
+    try {
+      const result = await submitTransaction(this.client, tx, wallet, action);
+
+      const txResult = result.meta?.TransactionResult;
+      if (txResult !== 'tesSUCCESS') {
+        throw new Error(txResult);
+      }
+      return result.hash;
+    } catch (error: any) {
+      throw new Error(`Failed to ${action}: ${error.message || error}`);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { isValidClassicAddress } from 'xrpl';
+import { Asset, AssetConfig, XRPL_NETWORKS } from '../types';
+
+// Assets every registry starts with
+export const DEFAULT_ASSETS: AssetConfig[] = [{
+  code: 'RLUSD',
+  name: 'Ripple USD',
+  issuers: {
+    [XRPL_NETWORKS.mainnet.networkId]: 'rMxCKbEDwqr76QuheSUMdEGf4B9xJ8m5De',
+    [XRPL_NETWORKS.testnet.networkId]: 'rQhWct2fv4Vc4KRjRgMrxa8xPN9Zx9iLKV'
+  }
+}];
+
+/**
+ * Encodes a currency code in the form the ledger accepts
+ * Three-character codes are used as-is; longer codes (up to 20 bytes) become 40 hex characters, zero-padded
+ */
+export function encodeCurrencyCode(code: string): string {
+  if (/^[0-9A-F]{40}$/i.test(code)) {
+    return code.toUpperCase();
+  }
+  if (code.length === 3) {
+    if (code.toUpperCase() === 'XRP') {
+      throw new Error('XRP is not an issued currency');
+    }
+    return code;
+  }
+
+  const bytes = Buffer.from(code, 'ascii');
+  if (code.length < 3 || bytes.length > 20 || !/^[\x21-\x7E]+$/.test(code)) {
+    throw new Error(`Invalid currency code: ${code}`);
+  }
+  return Buffer.concat([bytes, Buffer.alloc(20 - bytes.length)]).toString('hex').toUpperCase();
+}
+
+/**
+ * Decodes a ledger currency code back to its symbol (hex codes that aren't ASCII are returned unchanged)
+ */
+export function decodeCurrencyCode(currency: string): string {
+  if (!/^[0-9A-F]{40}$/i.test(currency)) {
+    return currency;
+  }
+  const text = Buffer.from(currency, 'hex').toString('ascii').replace(/\0+$/, '');
+  return /^[\x21-\x7E]+$/.test(text) ? text : currency.toUpperCase();
+}
+
+/**
+ * Issued currencies the SDK can trade, with their issuer on each network
+ */
+export class AssetRegistry {
+  private assets: Map<string, AssetConfig> = new Map();
+
+  constructor(assets: AssetConfig[] = DEFAULT_ASSETS) {
+    for (const asset of assets) {
+      this.register(asset);
+    }
+  }
+
+  /**
+   * Registers an asset, or adds networks to one already registered
+   */
+  register(config: AssetConfig) {
+    encodeCurrencyCode(config.code);
+    for (const [networkId, issuer] of Object.entries(config.issuers)) {
+      if (!isValidClassicAddress(issuer)) {
+        throw new Error(`Invalid issuer for ${config.code} on network ${networkId}: ${issuer}`);
+      }
+    }
+
+    const existing = this.assets.get(config.code);
+    this.assets.set(config.code, {
+      ...existing,
+      ...config,
+      issuers: { ...existing?.issuers, ...config.issuers }
+    });
+  }
+
+  get(code: string): AssetConfig | undefined {
+    return this.assets.get(code);
+  }
+
+  list(): AssetConfig[] {
+    return Array.from(this.assets.values());
+  }
+
+  /**
+   * Resolves an asset code to its ledger currency code and issuer on a network
+   */
+  resolve(code: string, networkId: number): Asset {
+    const config = this.assets.get(code);
+    if (!config) {
+      throw new Error(`Unknown asset ${code}. Register it first (registered: ${Array.from(this.assets.keys()).join(', ') || 'none'})`);
+    }
+    const issuer = config.issuers[networkId];
+    if (!issuer) {
+      throw new Error(`Asset ${code} has no issuer on network ${networkId}`);
+    }
+    return { code, currency: encodeCurrencyCode(code), issuer };
+  }
+
+  /**
+   * Finds the registered code for a ledger currency and issuer, e.g. from a transaction's Amount
+   * Falls back to the decoded currency code for unregistered assets
+   */
+  identify(currency: string, issuer: string): string {
+    return this.find(currency, issuer)?.code || decodeCurrencyCode(currency);
+  }
+
+  /**
+   * Whether a ledger currency and issuer belong to a registered asset
+   */
+  isRegistered(currency: string, issuer: string): boolean {
+    return this.find(currency, issuer) !== undefined;
+  }
+
+  private find(currency: string, issuer: string): AssetConfig | undefined {
+    const normalized = /^[0-9A-F]{40}$/i.test(currency) ? currency.toUpperCase() : currency;
+    return this.list().find(config =>
+      encodeCurrencyCode(config.code) === normalized && Object.values(config.issuers).includes(issuer)
+    );
+  }
+}
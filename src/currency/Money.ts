@@ -0,0 +1,308 @@
+import { Amount } from 'xrpl';
+import { Asset } from '../types';
+
+/**
+ * Anything the SDK accepts as an amount: a Money, a decimal string, or a number
+ * Numbers are read through their shortest decimal representation (0.1 is exactly 0.1), but strings avoid
+ * float surprises entirely and are what the REST API returns
+ */
+export type MoneyInput = Money | string | number;
+
+// 'up' and 'down' round towards positive and negative infinity; 'half-up' rounds halves away from zero
+export type Rounding = 'down' | 'up' | 'half-up';
+
+// XRP has 6 decimal places (drops); issued currencies keep 15 significant digits
+const XRP_SCALE = 6;
+const MAX_DROPS = 10n ** 17n; // 100 billion XRP
+const ISSUED_DIGITS = 15;
+const ISSUED_MIN_EXPONENT = -96;
+const ISSUED_MAX_EXPONENT = 80;
+
+const DECIMAL_PATTERN = /^([-+])?(\d+\.?\d*|\.\d+)(?:[eE]([-+]?\d+))?$/;
+// Input bounds, well beyond any amount the ledger can hold, checked before the digits become a BigInt
+const MAX_INPUT_DIGITS = 128;
+const MAX_INPUT_EXPONENT = 256;
+
+/**
+ * An exact decimal amount of XRP or an issued currency
+ * Values are held as an integer and a decimal scale, so arithmetic never rounds unless asked to.
+ * Amounts are checked against the ledger's limits when created and again when converted to ledger form:
+ * XRP to whole drops, issued currencies to 15 significant digits within the ledger's exponent range.
+ */
+export class Money {
+  private constructor(
+    readonly currency: string, // 'XRP' or an asset code
+    private units: bigint,
+    private scale: number
+  ) {
+    // Keep the smallest scale, so equal amounts have one representation
+    while (this.scale > 0 && this.units % 10n === 0n) {
+      this.units /= 10n;
+      this.scale--;
+    }
+  }
+
+  /**
+   * Reads an amount, rejecting values the ledger can't represent for the currency
+   */
+  static of(value: MoneyInput, currency: string): Money {
+    if (value instanceof Money) {
+      if (value.currency !== currency) {
+        throw new Error(`Expected an amount of ${currency}, got ${value.currency}`);
+      }
+      return value;
+    }
+    const money = Money.parse(value, currency);
+    money.validate();
+    return money;
+  }
+
+  static xrp(value: MoneyInput): Money {
+    return Money.of(value, 'XRP');
+  }
+
+  static fromDrops(drops: string | bigint): Money {
+    return new Money('XRP', BigInt(drops), XRP_SCALE);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(currency, 0n, 0);
+  }
+
+  /**
+   * Reads a ledger Amount: drops for XRP, or an issued-currency value
+   * `code` names the issued currency (e.g. from AssetRegistry.identify); it defaults to the ledger currency code
+   */
+  static fromLedgerAmount(amount: Amount, code?: string): Money {
+    if (typeof amount === 'string') {
+      return Money.fromDrops(amount);
+    }
+    return Money.parse(amount.value, code || amount.currency);
+  }
+
+  /**
+   * Sums amounts of one currency
+   */
+  static sum(amounts: MoneyInput[], currency: string): Money {
+    return amounts.reduce<Money>((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  add(other: MoneyInput): Money {
+    const value = this.coerce(other);
+    const scale = Math.max(this.scale, value.scale);
+    return new Money(this.currency, this.rescale(scale) + value.rescale(scale), scale);
+  }
+
+  subtract(other: MoneyInput): Money {
+    return this.add(this.coerce(other).negate());
+  }
+
+  negate(): Money {
+    return new Money(this.currency, -this.units, this.scale);
+  }
+
+  /**
+   * Multiplies by a plain factor (e.g. 1 + slippage), rounding to what the ledger can hold for the currency
+   */
+  multiply(factor: string | number, rounding: Rounding = 'half-up'): Money {
+    const multiplier = Money.parse(factor, this.currency);
+    const product = new Money(this.currency, this.units * multiplier.units, this.scale + multiplier.scale);
+    return product.round(rounding);
+  }
+
+  /**
+   * Rounds to the currency's ledger precision: whole drops for XRP, 15 significant digits otherwise
+   */
+  round(rounding: Rounding = 'half-up'): Money {
+    const scale = this.currency === 'XRP'
+      ? XRP_SCALE
+      : this.scale - Math.max(0, this.digits() - ISSUED_DIGITS);
+    if (scale >= this.scale) {
+      return this;
+    }
+
+    const divisor = 10n ** BigInt(this.scale - scale);
+    let quotient = this.units / divisor;
+    const remainder = this.units % divisor;
+    if (remainder !== 0n) {
+      const away = this.units < 0n ? -1n : 1n;
+      const absRemainder = remainder < 0n ? -remainder : remainder;
+      if (rounding === 'up' && away > 0n) {
+        quotient += 1n;
+      } else if (rounding === 'down' && away < 0n) {
+        quotient -= 1n;
+      } else if (rounding === 'half-up' && absRemainder * 2n >= divisor) {
+        quotient += away;
+      }
+    }
+    // Integers beyond 15 digits round to a negative scale
+    return scale < 0
+      ? new Money(this.currency, quotient * 10n ** BigInt(-scale), 0)
+      : new Money(this.currency, quotient, scale);
+  }
+
+  compare(other: MoneyInput): -1 | 0 | 1 {
+    const value = this.coerce(other);
+    const scale = Math.max(this.scale, value.scale);
+    const a = this.rescale(scale);
+    const b = value.rescale(scale);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  equals(other: MoneyInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lessThan(other: MoneyInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  greaterThan(other: MoneyInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  /**
+   * Whole drops, for XRP amounts
+   */
+  toDrops(): string {
+    if (this.currency !== 'XRP') {
+      throw new Error(`${this.currency} has no drops; only XRP does`);
+    }
+    this.validate();
+    return this.rescale(XRP_SCALE).toString();
+  }
+
+  /**
+   * The value string of an issued-currency amount
+   */
+  toValue(): string {
+    this.validate();
+    return this.toString();
+  }
+
+  /**
+   * The ledger Amount: drops for XRP, or the asset's currency, issuer and value
+   */
+  toLedgerAmount(asset?: Asset): Amount {
+    if (this.currency === 'XRP') {
+      return this.toDrops();
+    }
+    if (!asset || asset.code !== this.currency) {
+      throw new Error(`The ${this.currency} asset is needed to convert ${this.toString()} ${this.currency} to a ledger amount`);
+    }
+    return { currency: asset.currency, issuer: asset.issuer, value: this.toValue() };
+  }
+
+  /**
+   * Plain decimal string, without exponent
+   */
+  toString(): string {
+    const negative = this.units < 0n;
+    const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+    const whole = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale);
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Approximate number, for display and estimates only
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Throws if the ledger can't represent the amount
+   */
+  private validate() {
+    if (this.currency === 'XRP') {
+      if (this.scale > XRP_SCALE) {
+        throw new Error(`Invalid XRP amount ${this.toString()}: XRP has at most ${XRP_SCALE} decimal places`);
+      }
+      const drops = this.rescale(XRP_SCALE);
+      if (drops > MAX_DROPS || drops < -MAX_DROPS) {
+        throw new Error(`Invalid XRP amount ${this.toString()}: more than 100 billion XRP`);
+      }
+      return;
+    }
+
+    if (this.units === 0n) {
+      return;
+    }
+    if (this.significantDigits() > ISSUED_DIGITS) {
+      throw new Error(`Invalid ${this.currency} amount ${this.toString()}: issued currencies have at most ${ISSUED_DIGITS} significant digits`);
+    }
+    // The ledger stores a 16-digit mantissa and an exponent
+    const exponent = this.digits() - 16 - this.scale;
+    if (exponent < ISSUED_MIN_EXPONENT || exponent > ISSUED_MAX_EXPONENT) {
+      throw new Error(`Invalid ${this.currency} amount ${this.toString()}: outside the ledger's range`);
+    }
+  }
+
+  private static parse(value: string | number, currency: string): Money {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Invalid ${currency} amount: ${value}`);
+    }
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match) {
+      throw new Error(`Invalid ${currency} amount: ${value}`);
+    }
+
+    const [whole, fraction = ''] = match[2].split('.');
+    const exponent = parseInt(match[3] || '0', 10);
+    if (whole.length + fraction.length > MAX_INPUT_DIGITS || !(Math.abs(exponent) <= MAX_INPUT_EXPONENT)) {
+      throw new Error(`Invalid ${currency} amount: ${String(value).slice(0, 40)} is out of range`);
+    }
+    let units = BigInt(`${whole || '0'}${fraction}`);
+    let scale = fraction.length - exponent;
+    if (scale < 0) {
+      units *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+    return new Money(currency, match[1] === '-' ? -units : units, scale);
+  }
+
+  private coerce(other: MoneyInput): Money {
+    if (other instanceof Money) {
+      if (other.currency !== this.currency) {
+        throw new Error(`Cannot combine ${this.currency} with ${other.currency}`);
+      }
+      return other;
+    }
+    return Money.parse(other, this.currency);
+  }
+
+  private rescale(scale: number): bigint {
+    return this.units * 10n ** BigInt(scale - this.scale);
+  }
+
+  /**
+   * Digits in the unscaled value, from the leading digit
+   */
+  private digits(): number {
+    return this.units === 0n ? 0 : (this.units < 0n ? -this.units : this.units).toString().length;
+  }
+
+  /**
+   * Digits in the unscaled value, without trailing zeros
+   */
+  private significantDigits(): number {
+    return this.units === 0n ? 0 : (this.units < 0n ? -this.units : this.units).toString().replace(/0+$/, '').length;
+  }
+}
@@ -0,0 +1,170 @@
+import { Client, Wallet, Payment, PaymentFlags, Memo, Amount, getBalanceChanges } from 'xrpl';
+import { PathQuote, PathPaymentResult } from '../types';
+import { Money, MoneyInput } from './Money';
+import { AssetRegistry } from './AssetRegistry';
+import { DIDManager } from '../identity/DIDManager';
+import { submitTransaction } from '../transactions/submit';
+
+// Quotes allow 1% more than the path's estimated cost unless told otherwise
+const DEFAULT_SLIPPAGE = 0.01;
+
+/**
+ * Cross-currency payments: finds paths through the DEX from the payer's asset to the amount the
+ * recipient should get, and pays along them with SendMax (and optionally DeliverMin) as slippage limits
+ */
+export class PathfindingService {
+  private didManager: DIDManager;
+  private assets: AssetRegistry;
+
+  constructor(private client: Client, options: { assets?: AssetRegistry } = {}) {
+    this.didManager = new DIDManager(client);
+    this.assets = options.assets || new AssetRegistry();
+  }
+
+  /**
+   * Quotes what delivering an amount would cost the payer in another asset
+   * The quote is the cheapest path the server finds right now; it is not a commitment, so SendMax
+   * adds the slippage allowance on top. Throws if there is no path the payer can afford.
+   */
+  async quote(request: {
+    source: string; // Payer address
+    destination: string; // Recipient address; the payer's own address to convert within its account
+    token: string; // Asset delivered: 'XRP' or a registered asset code
+    amount: MoneyInput; // Amount delivered
+    payWith: string; // Asset debited: 'XRP' or a registered asset code
+    slippage?: number; // Fraction above the quoted cost the payment may spend (default 0.01)
+    deliverMin?: MoneyInput; // Accept partial delivery down to this amount
+  }): Promise<PathQuote> {
+    if (request.token === request.payWith) {
+      throw new Error(`Nothing to convert: the payment is already in ${request.token}`);
+    }
+    const slippage = request.slippage ?? DEFAULT_SLIPPAGE;
+    if (slippage < 0 || slippage >= 1) {
+      throw new Error('Slippage must be at least 0 and less than 1');
+    }
+    const amount = Money.of(request.amount, request.token);
+    if (!amount.isPositive()) {
+      throw new Error(`Amount must be more than 0, not ${amount}`);
+    }
+    const deliverMin = request.deliverMin !== undefined ? Money.of(request.deliverMin, request.token) : undefined;
+    if (deliverMin && (!deliverMin.isPositive() || deliverMin.greaterThan(amount))) {
+      throw new Error(`deliverMin must be more than 0 and at most the amount (${amount})`);
+    }
+
+    let sourceCurrency: { currency: string; issuer?: string } = { currency: 'XRP' };
+    if (request.payWith !== 'XRP') {
+      const asset = this.resolveAsset(request.payWith);
+      sourceCurrency = { currency: asset.currency, issuer: asset.issuer };
+    }
+
+    const response = await this.client.request({
+      command: 'ripple_path_find',
+      source_account: request.source,
+      destination_account: request.destination,
+      destination_amount: this.toLedgerAmount(amount),
+      source_currencies: [sourceCurrency]
+    });
+
+    // ripple_path_find only returns alternatives the source account can fund
+    const alternatives = response.result.alternatives || [];
+    if (alternatives.length === 0) {
+      throw new Error(`No path delivers ${amount} ${request.token} for ${request.payWith} from ${request.source}; the DEX may lack liquidity or the payer lacks funds`);
+    }
+    const best = alternatives
+      .map(alternative => ({ paths: alternative.paths_computed, cost: Money.fromLedgerAmount(alternative.source_amount, request.payWith) }))
+      .reduce((cheapest, alternative) => alternative.cost.lessThan(cheapest.cost) ? alternative : cheapest);
+
+    return {
+      source: request.source,
+      destination: request.destination,
+      token: request.token,
+      amount,
+      payWith: request.payWith,
+      sourceAmount: best.cost,
+      sendMax: best.cost.multiply(1 + slippage, 'up'),
+      ...(deliverMin && { deliverMin }),
+      slippage,
+      rate: best.cost.toNumber() / amount.toNumber(),
+      paths: best.paths,
+      ...(response.result.ledger_current_index !== undefined && { ledgerIndex: response.result.ledger_current_index }),
+      quotedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Quotes and pays in one step, so the path is as fresh as possible
+   */
+  async pay(
+    wallet: Wallet,
+    request: { destination: string; token: string; amount: MoneyInput; payWith: string; slippage?: number; deliverMin?: MoneyInput },
+    memos: Memo[] = []
+  ): Promise<PathPaymentResult> {
+    const quote = await this.quote({ ...request, source: wallet.address });
+    return await this.payQuote(wallet, quote, memos);
+  }
+
+  /**
+   * Sends a quoted cross-currency payment
+   * Fails with tecPATH_PARTIAL rather than spend more than SendMax or deliver less than requested
+   * (or than DeliverMin, when the quote allows partial delivery)
+   */
+  async payQuote(wallet: Wallet, quote: PathQuote, memos: Memo[] = []): Promise<PathPaymentResult> {
+    if (quote.source !== wallet.address) {
+      throw new Error(`Quote was made for ${quote.source}, not ${wallet.address}`);
+    }
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: wallet.address,
+      Destination: quote.destination,
+      Amount: this.toLedgerAmount(Money.of(quote.amount, quote.token)),
+      SendMax: this.toLedgerAmount(Money.of(quote.sendMax, quote.payWith)),
+      ...(quote.paths.length > 0 && { Paths: quote.paths }),
+      ...(quote.deliverMin !== undefined && {
+        DeliverMin: this.toLedgerAmount(Money.of(quote.deliverMin, quote.token)),
+        Flags: PaymentFlags.tfPartialPayment
+      }),
+      ...(memos.length > 0 && { Memos: memos })
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, wallet, `pay ${quote.token} with ${quote.payWith}`);
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Cross-currency payment failed: ${txResult}`);
+    }
+
+    return {
+      hash: result.hash,
+      token: quote.token,
+      delivered: Money.fromLedgerAmount(result.meta.delivered_amount ?? paymentTx.Amount, quote.token),
+      payWith: quote.payWith,
+      sent: this.getAmountSent(result.meta, wallet.address, quote.payWith, result.fee)
+    };
+  }
+
+  /**
+   * Converts an amount of 'XRP' or a registered asset to the ledger's Amount format
+   */
+  private toLedgerAmount(amount: Money): Amount {
+    return amount.toLedgerAmount(amount.currency === 'XRP' ? undefined : this.resolveAsset(amount.currency));
+  }
+
+  /**
+   * Reads how much of the source asset left the payer's account, not counting the XRP fee
+   */
+  private getAmountSent(meta: any, account: string, payWith: string, fee: string): Money {
+    const changes = getBalanceChanges(meta).find(change => change.account === account)?.balances || [];
+    if (payWith === 'XRP') {
+      const xrpChange = changes.find(balance => balance.currency === 'XRP');
+      return xrpChange ? Money.xrp(xrpChange.value).negate().subtract(Money.fromDrops(fee)) : Money.zero('XRP');
+    }
+    const asset = this.resolveAsset(payWith);
+    const tokenChange = changes.find(balance => balance.currency === asset.currency && balance.issuer === asset.issuer);
+    return tokenChange ? Money.of(tokenChange.value, payWith).negate() : Money.zero(payWith);
+  }
+
+  private resolveAsset(code: string) {
+    return this.assets.resolve(code, this.didManager.getNetworkId());
+  }
+}
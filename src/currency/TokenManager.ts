@@ -0,0 +1,277 @@
+import { Client, Wallet, TrustSet, TrustSetFlags, Payment, Memo, transferRateToDecimal } from 'xrpl';
+import { Asset, TrustLineStatus, TokenTradeCheck, SettlementMethod } from '../types';
+import { submitTransaction, expectMoreTransactions } from '../transactions/submit';
+import { Money, MoneyInput } from './Money';
+
+// AccountRoot flags
+const LSF_REQUIRE_AUTH = 0x00040000;
+const LSF_GLOBAL_FREEZE = 0x00400000;
+const LSF_DEFAULT_RIPPLE = 0x00800000;
+
+/**
+ * Trust lines, balances and payments for issued currencies (resolve assets with AssetRegistry)
+ */
+export class TokenManager {
+  constructor(private client: Client) {}
+
+  /**
+   * Creates a TrustLine to the asset's issuer
+   * NoRipple is set, so the holder's balance can't be rippled through to other holders
+   */
+  async createTrustLine(wallet: Wallet, asset: Asset, limit: string = '1000000'): Promise<string> {
+    return await this.setTrustLine(wallet, asset, { limit, noRipple: true });
+  }
+
+  /**
+   * Creates or adjusts a TrustLine: its limit and whether NoRipple is set
+   * Options left out keep the line's current setting (the limit defaults to 1000000 for a new line)
+   */
+  async setTrustLine(wallet: Wallet, asset: Asset, options: { limit?: string; noRipple?: boolean } = {}): Promise<string> {
+    const line = await this.getTrustLine(wallet.address, asset);
+    const limit = options.limit ?? line?.limit ?? '1000000';
+    if (line && Money.of(limit, asset.code).lessThan(line.balance)) {
+      throw new Error(`Limit ${limit} is below the current ${asset.code} balance of ${line.balance}`);
+    }
+
+    const trustSetTx: TrustSet = {
+      TransactionType: 'TrustSet',
+      Account: wallet.address,
+      LimitAmount: {
+        currency: asset.currency,
+        issuer: asset.issuer,
+        value: limit
+      },
+      ...(options.noRipple !== undefined && {
+        Flags: options.noRipple ? TrustSetFlags.tfSetNoRipple : TrustSetFlags.tfClearNoRipple
+      })
+    };
+
+    const result = await submitTransaction(this.client, trustSetTx, wallet, `${line ? 'update' : 'create'} ${asset.code} trust line`);
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to set ${asset.code} trust line: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Removes a TrustLine, freeing its owner reserve
+   * The balance must be zero. The ledger deletes the line once it is back in its default state, so the limit
+   * is set to zero and NoRipple is returned to the account's default
+   */
+  async removeTrustLine(wallet: Wallet, asset: Asset): Promise<string> {
+    const line = await this.getTrustLine(wallet.address, asset);
+    if (!line) {
+      throw new Error(`${wallet.address} has no ${asset.code} trust line`);
+    }
+    if (!Money.of(line.balance, asset.code).isZero()) {
+      throw new Error(`The ${asset.code} trust line still holds ${line.balance}; send it back to the issuer or sell it first`);
+    }
+
+    const accountInfo = await this.client.request({
+      command: 'account_info',
+      account: wallet.address,
+      ledger_index: 'validated'
+    });
+    const defaultRipple = (accountInfo.result.account_data.Flags & LSF_DEFAULT_RIPPLE) !== 0;
+
+    return await this.setTrustLine(wallet, asset, { limit: '0', noRipple: !defaultRipple });
+  }
+
+  /**
+   * Reads an account's TrustLine for the asset, including whether the issuer froze or authorised it
+   */
+  async getTrustLineStatus(
+    address: string,
+    asset: Asset,
+    issuerSettings?: { requireAuth: boolean; globalFreeze: boolean }
+  ): Promise<TrustLineStatus> {
+    const [line, issuer] = await Promise.all([
+      this.getTrustLine(address, asset),
+      issuerSettings || this.getIssuerSettings(asset)
+    ]);
+
+    return {
+      account: address,
+      asset: asset.code,
+      issuer: asset.issuer,
+      exists: line !== undefined,
+      balance: line?.balance || '0',
+      limit: line?.limit || '0',
+      noRipple: line?.no_ripple === true,
+      // The issuer is the peer on the holder's line
+      frozen: issuer.globalFreeze || line?.freeze_peer === true,
+      deepFrozen: line?.deep_freeze_peer === true,
+      authorized: !issuer.requireAuth || line?.peer_authorized === true
+    };
+  }
+
+  /**
+   * Checks that a token trade can settle: neither party's line is frozen or unauthorised, the seller
+   * can receive the amount within its limit, and reports the issuer's transfer fee
+   * The buyer's balance is not checked. With crossCurrency, the buyer may have no line yet, as the conversion creates it.
+   * Only payment settlement needs the seller's line up front; finishing an escrow or cashing a check creates it.
+   */
+  async checkTrade(
+    buyerAddress: string,
+    sellerAddress: string,
+    asset: Asset,
+    amount: MoneyInput,
+    options: { crossCurrency?: boolean; settlement?: 'auto' | SettlementMethod } = {}
+  ): Promise<TokenTradeCheck> {
+    const issuer = await this.getIssuerSettings(asset);
+    const [buyer, seller] = await Promise.all([
+      this.getTrustLineStatus(buyerAddress, asset, issuer),
+      this.getTrustLineStatus(sellerAddress, asset, issuer)
+    ]);
+    const issues: string[] = [];
+    const warnings: string[] = [];
+
+    if (issuer.globalFreeze) {
+      issues.push(`Issuer ${asset.issuer} has frozen all ${asset.code}`);
+    }
+
+    if (buyerAddress !== asset.issuer) {
+      if (!buyer.exists && !options.crossCurrency) {
+        issues.push(`Buyer has no ${asset.code} trust line`);
+      }
+      if (buyer.exists && buyer.frozen && !issuer.globalFreeze) {
+        issues.push(`Issuer has frozen the buyer's ${asset.code} trust line`);
+      }
+      if (buyer.exists && !buyer.authorized) {
+        issues.push(`Issuer requires authorisation and has not authorised the buyer's ${asset.code} trust line`);
+      }
+    }
+
+    if (sellerAddress !== asset.issuer) {
+      if (!seller.exists) {
+        if (options.settlement === 'payment') {
+          issues.push(`Seller has no ${asset.code} trust line`);
+        } else {
+          warnings.push(`Seller has no ${asset.code} trust line yet; one is created when the seller fulfils the trade`);
+        }
+      } else {
+        if (seller.deepFrozen) {
+          issues.push(`Issuer has deep-frozen the seller's ${asset.code} trust line, so it cannot receive`);
+        } else if (seller.frozen && !issuer.globalFreeze) {
+          warnings.push(`Issuer has frozen the seller's ${asset.code} trust line; it can receive but only send back to the issuer`);
+        }
+        if (!seller.authorized) {
+          issues.push(`Issuer requires authorisation and has not authorised the seller's ${asset.code} trust line`);
+        }
+        const room = Money.of(seller.limit, asset.code).subtract(seller.balance);
+        if (room.lessThan(amount)) {
+          issues.push(`Seller's ${asset.code} trust line limit leaves room for ${room}, less than ${amount}`);
+        }
+      }
+    }
+
+    if (issuer.transferRate > 0) {
+      warnings.push(`Issuer charges a ${issuer.transferRate * 100}% transfer fee on ${asset.code} moving between holders`);
+    }
+
+    return {
+      asset: asset.code,
+      issuer: asset.issuer,
+      transferRate: issuer.transferRate,
+      requireAuth: issuer.requireAuth,
+      globalFreeze: issuer.globalFreeze,
+      buyer,
+      seller,
+      issues,
+      warnings,
+      ok: issues.length === 0
+    };
+  }
+
+  /**
+   * Checks if an account has a TrustLine for the asset
+   */
+  async hasTrustLine(address: string, asset: Asset): Promise<boolean> {
+    return (await this.getTrustLine(address, asset)) !== undefined;
+  }
+
+  /**
+   * Gets an account's balance of the asset
+   */
+  async getBalance(address: string, asset: Asset): Promise<string> {
+    const line = await this.getTrustLine(address, asset);
+    return line ? line.balance : '0';
+  }
+
+  /**
+   * Sends the asset directly, creating the sender's TrustLine first if it has none
+   * `memos` are added after the text memo
+   */
+  async createPayment(
+    fromWallet: Wallet,
+    toAddress: string,
+    asset: Asset,
+    amount: MoneyInput,
+    memo?: string,
+    memos: Memo[] = []
+  ): Promise<string> {
+    // Ensure trustline exists
+    const hasTrustLine = await this.hasTrustLine(fromWallet.address, asset);
+    if (!hasTrustLine) {
+      console.log(`Creating ${asset.code} TrustLine for ${fromWallet.address}...`);
+      expectMoreTransactions(`the ${asset.code} payment`);
+      await this.createTrustLine(fromWallet, asset);
+    }
+
+    const allMemos: Memo[] = [...(memo ? [{
+      Memo: {
+        MemoData: Buffer.from(memo).toString('hex'),
+        MemoType: Buffer.from('text/plain').toString('hex')
+      }
+    }] : []), ...memos];
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: fromWallet.address,
+      Destination: toAddress,
+      Amount: Money.of(amount, asset.code).toLedgerAmount(asset),
+      ...(allMemos.length > 0 && { Memos: allMemos })
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, fromWallet, `send ${asset.code} payment`);
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`${asset.code} payment failed: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Reads the issuer settings that affect holders: authorisation, global freeze and the transfer fee
+   */
+  private async getIssuerSettings(asset: Asset): Promise<{ requireAuth: boolean; globalFreeze: boolean; transferRate: number }> {
+    const accountInfo = await this.client.request({
+      command: 'account_info',
+      account: asset.issuer,
+      ledger_index: 'validated'
+    });
+    const accountData = accountInfo.result.account_data;
+
+    return {
+      requireAuth: (accountData.Flags & LSF_REQUIRE_AUTH) !== 0,
+      globalFreeze: (accountData.Flags & LSF_GLOBAL_FREEZE) !== 0,
+      // TransferRate is 1000000000 plus the fee in billionths; transferRateToDecimal returns just the fee
+      transferRate: accountData.TransferRate ? parseFloat(transferRateToDecimal(accountData.TransferRate)) : 0
+    };
+  }
+
+  private async getTrustLine(address: string, asset: Asset): Promise<any | undefined> {
+    const accountLines = await this.client.request({
+      command: 'account_lines',
+      account: address,
+      peer: asset.issuer,
+      ledger_index: 'validated'
+    });
+
+    const lines = accountLines.result.lines || [];
+    return lines.find((line: any) => line.currency === asset.currency && line.account === asset.issuer);
+  }
+}
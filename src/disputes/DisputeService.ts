@@ -0,0 +1,256 @@
+import { Client, Wallet, Payment, xrpToDrops } from 'xrpl';
+import { Dispute, DisputeRuling } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { EscrowManager } from '../escrow/EscrowManager';
+import { submitTransaction } from '../transactions/submit';
+
+type DisputeStep = Dispute['history'][number];
+
+/**
+ * Disputes over trades that named an arbiter at creation
+ * Every step is an xag:dispute memo: parties send theirs to the arbiter's account, and the arbiter
+ * sends the ruling to the faulted party, so the dispute can be rebuilt from the arbiter's history
+ */
+export class DisputeService {
+  private didManager: DIDManager;
+  private escrowManager: EscrowManager;
+  private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
+
+  constructor(private client: Client) {
+    this.didManager = new DIDManager(client);
+    this.escrowManager = new EscrowManager(client);
+  }
+
+  /**
+   * Opens a dispute over an unresolved trade; only the buyer or seller can open one
+   */
+  async openDispute(
+    wallet: Wallet,
+    tradeHash: string,
+    reason: string,
+    evidence?: any
+  ): Promise<{ dispute: Dispute; txHash: string }> {
+    const trade = await this.getTrade(tradeHash);
+    this.assertParty(trade, wallet.address);
+
+    const status = await this.escrowManager.getTradeStatus(tradeHash);
+    if (status.status === 'fulfilled' || status.status === 'cancelled') {
+      throw new Error(`Trade ${tradeHash} is already ${status.status}`);
+    }
+    if (await this.getDispute(tradeHash)) {
+      throw new Error(`Trade ${tradeHash} is already disputed`);
+    }
+
+    const txHash = await this.submitStep(wallet, trade.arbiterAddress, tradeHash, 'open', {
+      reason,
+      ...(evidence !== undefined && { evidence })
+    });
+
+    const dispute = await this.getDispute(tradeHash);
+    return { dispute: dispute!, txHash };
+  }
+
+  /**
+   * Adds evidence to an open dispute; either party can submit as often as needed
+   */
+  async submitEvidence(wallet: Wallet, tradeHash: string, evidence: any): Promise<string> {
+    const trade = await this.getTrade(tradeHash);
+    this.assertParty(trade, wallet.address);
+
+    const dispute = await this.getDispute(tradeHash);
+    if (!dispute) {
+      throw new Error(`Trade ${tradeHash} has no open dispute`);
+    }
+    if (dispute.status !== 'open') {
+      throw new Error(`The dispute over trade ${tradeHash} has already been ruled on`);
+    }
+
+    return await this.submitStep(wallet, trade.arbiterAddress, tradeHash, 'evidence', { evidence });
+  }
+
+  /**
+   * Records the arbiter's final ruling
+   * The ruling is sent to the faulted party's account so it shows up in that party's history
+   */
+  async issueRuling(
+    arbiterWallet: Wallet,
+    tradeHash: string,
+    ruling: { outcome: 'release' | 'refund'; faultedParty?: string; summary: string }
+  ): Promise<DisputeRuling> {
+    const trade = await this.getTrade(tradeHash);
+    if (arbiterWallet.address !== trade.arbiterAddress) {
+      throw new Error('Only the trade\'s arbiter can issue a ruling');
+    }
+    if (ruling.faultedParty && ruling.faultedParty !== trade.buyer && ruling.faultedParty !== trade.seller) {
+      throw new Error('The faulted party must be the buyer or the seller');
+    }
+
+    const dispute = await this.getDispute(tradeHash);
+    if (!dispute) {
+      throw new Error(`Trade ${tradeHash} has no open dispute`);
+    }
+    if (dispute.status !== 'open') {
+      throw new Error(`The dispute over trade ${tradeHash} has already been ruled on`);
+    }
+
+    const details = {
+      outcome: ruling.outcome,
+      ...(ruling.faultedParty && { faultedParty: ruling.faultedParty }),
+      summary: ruling.summary
+    };
+    const txHash = await this.submitStep(arbiterWallet, ruling.faultedParty || this.SINK_ADDRESS, tradeHash, 'ruling', details);
+
+    return { ...details, timestamp: new Date().toISOString(), txHash };
+  }
+
+  /**
+   * Rebuilds a dispute from the arbiter's account history, read back to the ledger the trade was created in
+   * Only steps from the trade's parties (open, evidence) and its arbiter (ruling) count
+   */
+  async getDispute(tradeHash: string): Promise<Dispute | null> {
+    const trade = await this.getTrade(tradeHash);
+    const steps: Array<{ from: string; action: DisputeStep['action']; details: any; timestamp: string; txHash: string }> = [];
+    let marker: unknown;
+
+    // Nothing about the trade can predate it, so older history needn't be read
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: trade.arbiterAddress,
+        limit: 200,
+        ...(trade.ledgerIndex !== undefined && { ledger_index_min: trade.ledgerIndex }),
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const tx of accountTx.result.transactions || []) {
+        const txData: any = tx.tx || tx.tx_json || {};
+        if ((tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+
+        const step = this.parseStep(txData.Memos);
+        if (!step || step.tradeHash !== tradeHash) continue;
+
+        const fromParty = (txData.Account === trade.buyer || txData.Account === trade.seller) &&
+          txData.Destination === trade.arbiterAddress && step.action !== 'ruling';
+        const fromArbiter = txData.Account === trade.arbiterAddress && step.action === 'ruling';
+        if (!fromParty && !fromArbiter) continue;
+
+        steps.push({
+          from: txData.Account,
+          action: step.action,
+          details: step.details,
+          timestamp: step.timestamp,
+          txHash: txData.hash || (tx as any).hash || ''
+        });
+      }
+
+      marker = accountTx.result.marker;
+    } while (marker !== undefined);
+
+    // account_tx lists newest first
+    steps.reverse();
+    const openIndex = steps.findIndex(step => step.action === 'open');
+    if (openIndex === -1) {
+      return null;
+    }
+
+    const dispute: Dispute = {
+      tradeHash,
+      arbiter: trade.arbiter,
+      buyer: trade.buyer,
+      seller: trade.seller,
+      status: 'open',
+      openedBy: steps[openIndex].from,
+      reason: steps[openIndex].details?.reason || '',
+      openedAt: steps[openIndex].timestamp,
+      history: []
+    };
+
+    for (const step of steps.slice(openIndex)) {
+      if (step.action === 'open' && dispute.history.length > 0) continue;
+      dispute.history.push({ step: dispute.history.length + 1, ...step });
+
+      if (step.action === 'ruling') {
+        dispute.status = 'ruled';
+        dispute.ruling = {
+          outcome: step.details?.outcome === 'release' ? 'release' : 'refund',
+          ...(step.details?.faultedParty && { faultedParty: step.details.faultedParty }),
+          summary: step.details?.summary || '',
+          timestamp: step.timestamp,
+          txHash: step.txHash
+        };
+        break;
+      }
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Looks up a trade's parties and its arbiter, as recorded on-ledger when the trade was created
+   */
+  private async getTrade(
+    tradeHash: string
+  ): Promise<{ buyer: string; seller: string; arbiter: string; arbiterAddress: string; ledgerIndex?: number }> {
+    const settlement = await this.escrowManager.getSettlement(tradeHash);
+    if (!settlement.arbiter) {
+      throw new Error(`Trade ${tradeHash} has no arbiter`);
+    }
+    return {
+      buyer: settlement.owner,
+      seller: settlement.destination,
+      arbiter: settlement.arbiter,
+      arbiterAddress: this.didManager.resolveDID(settlement.arbiter),
+      ...(settlement.ledgerIndex !== undefined && { ledgerIndex: settlement.ledgerIndex })
+    };
+  }
+
+  private assertParty(trade: { buyer: string; seller: string }, address: string) {
+    if (address !== trade.buyer && address !== trade.seller) {
+      throw new Error('Only the buyer or seller can take part in a dispute');
+    }
+  }
+
+  private parseStep(memos: any[] = []): { tradeHash: string; action: DisputeStep['action']; details: any; timestamp: string } | null {
+    for (const memo of memos) {
+      try {
+        const memoFormat = memo.Memo?.MemoFormat;
+        if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === 'xag:dispute') {
+          return JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+        }
+      } catch (error) {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  private async submitStep(
+    wallet: Wallet,
+    destination: string,
+    tradeHash: string,
+    action: DisputeStep['action'],
+    details: any
+  ): Promise<string> {
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: wallet.address,
+      Destination: destination,
+      Amount: xrpToDrops('0.000001'),
+      Memos: [{
+        Memo: {
+          MemoData: Buffer.from(JSON.stringify({ tradeHash, action, details, timestamp: new Date().toISOString() })).toString('hex'),
+          MemoType: Buffer.from('application/json').toString('hex'),
+          MemoFormat: Buffer.from('xag:dispute').toString('hex')
+        }
+      }]
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, wallet, `submit dispute ${action}`);
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to submit dispute ${action}: ${txResult}`);
+    }
+    return result.hash;
+  }
+}
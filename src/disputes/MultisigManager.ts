@@ -0,0 +1,92 @@
+import { Client, Wallet, SignerListSet, SubmittableTransaction } from 'xrpl';
+import { submitTransaction, submitMultisigned } from '../transactions/submit';
+
+/**
+ * Multi-signature control of an account, e.g. a trade account whose escrows the buyer, seller and
+ * arbiter finish or cancel together (any two of three)
+ */
+export class MultisigManager {
+  constructor(private client: Client) {}
+
+  /**
+   * Sets the account's signer list; each signer has weight 1, so quorum is the number of signatures needed
+   */
+  async setSignerList(wallet: Wallet, signers: string[], quorum: number): Promise<string> {
+    if (signers.includes(wallet.address)) {
+      throw new Error('An account cannot be in its own signer list');
+    }
+    if (quorum < 1 || quorum > signers.length) {
+      throw new Error(`Quorum must be between 1 and ${signers.length}`);
+    }
+
+    const signerListTx: SignerListSet = {
+      TransactionType: 'SignerListSet',
+      Account: wallet.address,
+      SignerQuorum: quorum,
+      SignerEntries: signers.map(address => ({
+        SignerEntry: { Account: address, SignerWeight: 1 }
+      }))
+    };
+
+    const result = await submitTransaction(this.client, signerListTx, wallet, 'set signer list');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to set signer list: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Gets an account's signers and quorum, or null if it has no signer list
+   */
+  async getSignerList(address: string): Promise<{ signers: string[]; quorum: number } | null> {
+    const accountInfo = await this.client.request({
+      command: 'account_info',
+      account: address,
+      signer_lists: true,
+      ledger_index: 'validated'
+    });
+
+    const result: any = accountInfo.result;
+    const signerList = result.signer_lists?.[0] || result.account_data?.signer_lists?.[0];
+    if (!signerList) {
+      return null;
+    }
+    return {
+      signers: signerList.SignerEntries.map((entry: any) => entry.SignerEntry.Account),
+      quorum: signerList.SignerQuorum
+    };
+  }
+
+  /**
+   * Autofills a transaction for multi-signing (the fee grows with the number of signers)
+   */
+  async prepare(tx: SubmittableTransaction, signersCount: number): Promise<SubmittableTransaction> {
+    return await this.client.autofill(tx, signersCount);
+  }
+
+  /**
+   * Adds one signer's signature to a prepared transaction
+   */
+  sign(wallet: Wallet, prepared: SubmittableTransaction): string {
+    return wallet.sign(prepared, true).tx_blob;
+  }
+
+  /**
+   * Combines the signers' signatures and submits the transaction
+   */
+  async submit(signedBlobs: string[]): Promise<string> {
+    if (signedBlobs.length === 0) {
+      throw new Error('No signatures to submit');
+    }
+
+    const result = await submitMultisigned(this.client, signedBlobs, 'submit multi-signed transaction');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to submit multi-signed transaction: ${txResult}`);
+    }
+    return result.hash;
+  }
+}
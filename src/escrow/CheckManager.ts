@@ -0,0 +1,117 @@
+import { Client, Wallet, CheckCreate, CheckCash, CheckCancel, Memo } from 'xrpl';
+import { submitTransaction } from '../transactions/submit';
+
+type CheckAmount = string | { currency: string; issuer: string; value: string };
+
+/**
+ * Wraps XRPL Checks (deferred payments the destination cashes later)
+ * Used to settle issued-currency trades where token escrow is unavailable
+ */
+export class CheckManager {
+  constructor(private client: Client) {}
+
+  /**
+   * Creates a Check and returns its ledger ID, which is needed to cash or cancel it
+   */
+  async createCheck(
+    wallet: Wallet,
+    destination: string,
+    sendMax: CheckAmount,
+    options: { expiration?: number; memos?: Memo[] } = {}
+  ): Promise<{ hash: string; sequence: number; checkId: string }> {
+    const checkTx: CheckCreate = {
+      TransactionType: 'CheckCreate',
+      Account: wallet.address,
+      Destination: destination,
+      SendMax: sendMax,
+      ...(options.expiration && { Expiration: options.expiration }),
+      ...(options.memos && options.memos.length > 0 && { Memos: options.memos })
+    };
+
+    const result = await submitTransaction(this.client, checkTx, wallet, 'create check');
+
+    const meta = result.meta;
+    if (meta?.TransactionResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to create check: ${meta?.TransactionResult}`);
+    }
+
+    const checkId = CheckManager.getCheckId(meta);
+    if (!checkId) {
+      throw new Error(`Check created but its ID was not found in the metadata. Hash: ${result.hash}`);
+    }
+
+    return {
+      hash: result.hash,
+      sequence: result.sequence,
+      checkId
+    };
+  }
+
+  /**
+   * Cashes a Check for its exact amount (only the destination can cash)
+   */
+  async cashCheck(wallet: Wallet, checkId: string, amount: CheckAmount): Promise<string> {
+    const cashTx: CheckCash = {
+      TransactionType: 'CheckCash',
+      Account: wallet.address,
+      CheckID: checkId,
+      Amount: amount
+    };
+
+    return await this.submit(cashTx, wallet, 'cash check');
+  }
+
+  /**
+   * Cancels a Check; the sender or destination can cancel at any time, anyone once it has expired
+   */
+  async cancelCheck(wallet: Wallet, checkId: string): Promise<string> {
+    const cancelTx: CheckCancel = {
+      TransactionType: 'CheckCancel',
+      Account: wallet.address,
+      CheckID: checkId
+    };
+
+    return await this.submit(cancelTx, wallet, 'cancel check');
+  }
+
+  /**
+   * Gets a Check ledger object, or null once it has been cashed or cancelled
+   */
+  async getCheck(checkId: string): Promise<any | null> {
+    try {
+      const entry = await this.client.request({
+        command: 'ledger_entry',
+        check: checkId,
+        ledger_index: 'validated'
+      });
+      return entry.result.node || null;
+    } catch (error: any) {
+      if (error?.data?.error === 'entryNotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the ID of the Check a CheckCreate transaction created
+   */
+  static getCheckId(meta: any): string | undefined {
+    for (const node of meta?.AffectedNodes || []) {
+      if (node.CreatedNode?.LedgerEntryType === 'Check') {
+        return node.CreatedNode.LedgerIndex;
+      }
+    }
+    return undefined;
+  }
+
+  private async submit(tx: CheckCash | CheckCancel, wallet: Wallet, action: string): Promise<string> {
+    const result = await submitTransaction(this.client, tx, wallet, action);
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to ${action}: ${txResult}`);
+    }
+    return result.hash;
+  }
+}
@@ -0,0 +1,231 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { ConditionRecord, FulfillmentStore } from '../types';
+
+/**
+ * Checks that a PREIMAGE-SHA-256 fulfillment satisfies a condition
+ */
+export function matchesCondition(condition: string, fulfillment: string): boolean {
+  const fulfillmentBytes = Buffer.from(fulfillment, 'hex');
+  if (fulfillmentBytes.length !== 36 || fulfillmentBytes.subarray(0, 4).toString('hex').toUpperCase() !== 'A0228020') {
+    return false;
+  }
+  const fingerprint = createHash('sha256').update(fulfillmentBytes.subarray(4)).digest('hex').toUpperCase();
+  return condition.toUpperCase() === `A0258020${fingerprint}810120`;
+}
+
+/**
+ * Keeps condition records in process memory
+ */
+export class InMemoryFulfillmentStore implements FulfillmentStore {
+  private records: Map<string, ConditionRecord> = new Map();
+
+  async get(tradeHash: string): Promise<ConditionRecord | undefined> {
+    return this.records.get(tradeHash);
+  }
+
+  async set(record: ConditionRecord): Promise<void> {
+    this.records.set(record.tradeHash, record);
+  }
+
+  async delete(tradeHash: string): Promise<void> {
+    this.records.delete(tradeHash);
+  }
+}
+
+export class ConditionManager {
+  private store: FulfillmentStore;
+  private encryptionKey: Buffer;
+
+  /**
+   * @param options.encryptionKey 32-byte hex key used to encrypt fulfillments at rest.
+   * Without one, a random key is generated and fulfillments do not survive a restart.
+   */
+  constructor(options: { store?: FulfillmentStore; encryptionKey?: string } = {}) {
+    this.store = options.store || new InMemoryFulfillmentStore();
+    this.encryptionKey = options.encryptionKey ? Buffer.from(options.encryptionKey, 'hex') : randomBytes(32);
+    if (this.encryptionKey.length !== 32) {
+      throw new Error('Fulfillment encryption key must be 32 bytes (64 hex characters)');
+    }
+  }
+
+  /**
+   * Generates a PREIMAGE-SHA-256 crypto-condition and its fulfillment (hex, as used by EscrowCreate/EscrowFinish)
+   */
+  generateCondition(): { condition: string; fulfillment: string } {
+    const preimage = randomBytes(32);
+    const fingerprint = createHash('sha256').update(preimage).digest();
+
+    // DER encodings from the crypto-conditions spec: fulfillment = [preimage], condition = [fingerprint, cost]
+    const fulfillment = Buffer.concat([Buffer.from('A0228020', 'hex'), preimage]);
+    const condition = Buffer.concat([
+      Buffer.from('A0258020', 'hex'),
+      fingerprint,
+      Buffer.from('810120', 'hex') // cost = preimage length (32)
+    ]);
+
+    return {
+      condition: condition.toString('hex').toUpperCase(),
+      fulfillment: fulfillment.toString('hex').toUpperCase()
+    };
+  }
+
+  /**
+   * Stores a fulfillment for a trade, locked until the buyer (or the trade's oracle or arbiter) releases it
+   */
+  async registerCondition(
+    tradeHash: string,
+    params: { condition: string; fulfillment: string; buyer: string; seller: string; oracle?: string; arbiter?: string }
+  ): Promise<void> {
+    if (!this.matchesCondition(params.condition, params.fulfillment)) {
+      throw new Error('Fulfillment does not match condition');
+    }
+
+    await this.store.set({
+      tradeHash,
+      condition: params.condition,
+      encryptedFulfillment: this.encrypt(params.fulfillment),
+      buyer: params.buyer,
+      seller: params.seller,
+      ...(params.oracle && { oracle: params.oracle }),
+      ...(params.arbiter && { arbiter: params.arbiter }),
+      status: 'locked',
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Gets the condition record for a trade (without the fulfillment)
+   */
+  async getCondition(tradeHash: string): Promise<ConditionRecord | undefined> {
+    return await this.store.get(tradeHash);
+  }
+
+  /**
+   * Releases the fulfillment to the seller once the buyer confirms delivery
+   */
+  async confirmDelivery(tradeHash: string, buyerAddress: string): Promise<ConditionRecord> {
+    const record = await this.store.get(tradeHash);
+    if (!record) {
+      throw new Error(`No condition stored for trade ${tradeHash}`);
+    }
+    if (record.buyer !== buyerAddress) {
+      throw new Error('Only the buyer can confirm delivery');
+    }
+
+    if (record.status === 'released') {
+      return record;
+    }
+
+    const released: ConditionRecord = {
+      ...record,
+      status: 'released',
+      releasedAt: new Date().toISOString(),
+      releasedBy: 'buyer'
+    };
+    await this.store.set(released);
+    return released;
+  }
+
+  /**
+   * Releases the fulfillment on a verified delivery attestation from the trade's oracle
+   * The caller is responsible for verifying the attestation against record.oracle
+   */
+  async confirmByOracle(tradeHash: string, attestationHash: string): Promise<ConditionRecord> {
+    const record = await this.store.get(tradeHash);
+    if (!record) {
+      throw new Error(`No condition stored for trade ${tradeHash}`);
+    }
+    if (!record.oracle) {
+      throw new Error('Trade has no oracle');
+    }
+    if (record.status === 'released') {
+      return record;
+    }
+
+    const released: ConditionRecord = {
+      ...record,
+      status: 'released',
+      releasedAt: new Date().toISOString(),
+      releasedBy: 'oracle',
+      attestationHash
+    };
+    await this.store.set(released);
+    return released;
+  }
+
+  /**
+   * Releases the fulfillment on the arbiter's ruling in the seller's favour
+   * The caller is responsible for checking the ruling came from record.arbiter
+   */
+  async releaseByRuling(tradeHash: string, rulingHash: string): Promise<ConditionRecord> {
+    const record = await this.store.get(tradeHash);
+    if (!record) {
+      throw new Error(`No condition stored for trade ${tradeHash}`);
+    }
+    if (!record.arbiter) {
+      throw new Error('Trade has no arbiter');
+    }
+    if (record.status === 'released') {
+      return record;
+    }
+
+    const released: ConditionRecord = {
+      ...record,
+      status: 'released',
+      releasedAt: new Date().toISOString(),
+      releasedBy: 'arbiter',
+      rulingHash
+    };
+    await this.store.set(released);
+    return released;
+  }
+
+  /**
+   * Returns the fulfillment to the trade's seller, if the buyer has released it
+   */
+  async releaseFulfillment(tradeHash: string, sellerAddress: string): Promise<{ condition: string; fulfillment: string }> {
+    const record = await this.store.get(tradeHash);
+    if (!record) {
+      throw new Error(`No condition stored for trade ${tradeHash}`);
+    }
+    if (record.seller !== sellerAddress) {
+      throw new Error('Only the seller can receive the fulfillment');
+    }
+    if (record.status !== 'released') {
+      throw new Error('Delivery has not been confirmed by the buyer yet');
+    }
+
+    return {
+      condition: record.condition,
+      fulfillment: this.decrypt(record.encryptedFulfillment)
+    };
+  }
+
+  /**
+   * Forgets a trade's fulfillment (e.g., after the escrow is finished or cancelled)
+   */
+  async discard(tradeHash: string): Promise<void> {
+    await this.store.delete(tradeHash);
+  }
+
+  /**
+   * Checks that a PREIMAGE-SHA-256 fulfillment satisfies a condition
+   */
+  matchesCondition(condition: string, fulfillment: string): boolean {
+    return matchesCondition(condition, fulfillment);
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('hex')).join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'hex'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8');
+  }
+}
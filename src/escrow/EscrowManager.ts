@@ -1,15 +1,34 @@
-import { Client, Wallet, EscrowCreate, EscrowFinish, Payment, Memo, xrpToDrops } from 'xrpl';
-import { TradeConfig, TradeResult } from '../types';
+import { Client, Wallet, EscrowCreate, EscrowFinish, EscrowCancel, Memo, IssuedCurrencyAmount } from 'xrpl';
+import { createHash, randomUUID } from 'crypto';
+import { TradeConfig, TradeResult, OpenEscrow, SettlementMethod, TradeSettlement, MilestoneResult, MilestoneStatus, MilestoneProgress, TradeLedgerStatus, Asset } from '../types';
 import { DIDManager } from '../identity/DIDManager';
-import { RLUSDManager } from '../currency/RLUSDManager';
+import { TokenManager } from '../currency/TokenManager';
+import { AssetRegistry } from '../currency/AssetRegistry';
+import { PathfindingService } from '../currency/PathfindingService';
+import { Money } from '../currency/Money';
+import { CheckManager } from './CheckManager';
+import { submitTransaction, expectMoreTransactions } from '../transactions/submit';
+
+// The singleton Amendments ledger object lists every enabled amendment by ID (SHA-512Half of its name)
+const AMENDMENTS_LEDGER_INDEX = '7DB0788C020F02780A673DC74757F23823FA3014C1866E72CC4CD8B226CD6EF4';
+const TOKEN_ESCROW_AMENDMENT = createHash('sha512').update('TokenEscrow').digest('hex').slice(0, 64).toUpperCase();
+const LSF_ALLOW_TRUSTLINE_LOCKING = 0x40000000;
+
+type TradeResolution = { status: 'fulfilled' | 'cancelled'; hash: string };
 
 export class EscrowManager {
   private didManager: DIDManager;
-  private rlusdManager: RLUSDManager;
+  private tokenManager: TokenManager;
+  private checkManager: CheckManager;
+  private pathfindingService: PathfindingService;
+  private assets: AssetRegistry;
 
-  constructor(private client: Client) {
+  constructor(private client: Client, options: { assets?: AssetRegistry } = {}) {
     this.didManager = new DIDManager(client);
-    this.rlusdManager = new RLUSDManager(client);
+    this.tokenManager = new TokenManager(client);
+    this.checkManager = new CheckManager(client);
+    this.assets = options.assets || new AssetRegistry();
+    this.pathfindingService = new PathfindingService(client, { assets: this.assets });
   }
 
   /**
@@ -26,119 +45,803 @@ export class EscrowManager {
   }
 
   /**
-   * Initiates a trade using native XRPL Escrow (for XRP) or Payment (for RLUSD)
+   * Initiates a trade using native XRPL Escrow (for XRP)
+   * Issued-currency trades (e.g. RLUSD) settle through token escrow where the ledger and issuer allow it,
+   * or through a Check or Payment when asked for.
+   * Trades with milestones are split into one escrow per milestone
+   * With payWith, the buyer pays in another asset, converted through the DEX
    */
   async initiateTrade(config: TradeConfig, buyerWallet: Wallet): Promise<TradeResult> {
+    if (config.milestones) {
+      return await this.initiateMilestoneTrade(config, buyerWallet);
+    }
+    return await this.createTradeLeg(config, buyerWallet, this.createArbitrationMemos(config));
+  }
+
+  /**
+   * Creates one escrow per milestone, linked by a shared trade ID in an xag:trade memo
+   * If a milestone fails, the escrows already created stay open and are reported in the error
+   */
+  private async initiateMilestoneTrade(config: TradeConfig, buyerWallet: Wallet): Promise<TradeResult> {
+    const milestones = config.milestones!;
+    if (milestones.length === 0) {
+      throw new Error('A milestone trade needs at least one milestone');
+    }
+    const amount = Money.of(config.amount, config.token);
+    const amounts = milestones.map(milestone => Money.of(milestone.amount, config.token));
+    // Check every milestone before the first escrow is created
+    const invalid = amounts.findIndex(milestoneAmount => !milestoneAmount.isPositive());
+    if (invalid !== -1) {
+      throw new Error(`Milestone ${invalid} amount must be more than 0, not ${amounts[invalid]}`);
+    }
+    const total = Money.sum(amounts, config.token);
+    if (!total.equals(amount)) {
+      throw new Error(`Milestone amounts (${total}) must add up to the trade amount (${amount})`);
+    }
+    if (config.token !== 'XRP' && config.settlement === 'payment') {
+      throw new Error('Milestone trades need escrow or check settlement');
+    }
+    if (config.deliverMin !== undefined) {
+      throw new Error('deliverMin is not supported for milestone trades; milestone amounts must be delivered in full');
+    }
+
+    const tradeId = randomUUID();
+    const results: MilestoneResult[] = [];
+    if (milestones.length > 1) {
+      expectMoreTransactions(`the remaining ${milestones.length - 1} milestone(s)`);
+    }
+
+    for (let index = 0; index < milestones.length; index++) {
+      const milestone = milestones[index];
+      const legConfig: TradeConfig = {
+        ...config,
+        amount: milestone.amount,
+        condition: milestone.condition,
+        finishAfter: milestone.finishAfter ?? config.finishAfter,
+        cancelAfter: milestone.cancelAfter ?? config.cancelAfter,
+        memo: `${milestone.description || config.memo || 'XAG Trade'} (milestone ${index + 1}/${milestones.length})`,
+        milestones: undefined
+      };
+
+      let leg: TradeResult;
+      try {
+        leg = await this.createTradeLeg(legConfig, buyerWallet, [
+          this.createTradeLinkMemo(tradeId, index, milestones.length),
+          ...this.createArbitrationMemos(config)
+        ]);
+      } catch (error: any) {
+        const created = results.map(result => result.hash).join(', ') || 'none';
+        throw new Error(`Milestone ${index} of trade ${tradeId} failed (already created: ${created}): ${error.message || error}`);
+      }
+
+      results.push({
+        index,
+        hash: leg.hash,
+        sequence: leg.sequence,
+        amount: leg.amount,
+        ...(leg.settlement && { settlement: leg.settlement }),
+        ...(leg.checkId && { checkId: leg.checkId }),
+        ...(legConfig.condition && { condition: legConfig.condition }),
+        ...(legConfig.finishAfter && { finishAfter: legConfig.finishAfter }),
+        ...(legConfig.cancelAfter && { cancelAfter: legConfig.cancelAfter }),
+        ...(milestone.description && { description: milestone.description }),
+        ...(leg.sentAmount !== undefined && { sentAmount: leg.sentAmount }),
+        ...(leg.conversionHash && { conversionHash: leg.conversionHash })
+      });
+    }
+    const converted = results.every(result => result.sentAmount !== undefined);
+
+    return {
+      hash: results[0].hash,
+      sequence: results[0].sequence,
+      amount,
+      token: config.token,
+      buyer: this.didManager.resolveDID(config.buyer),
+      seller: this.didManager.resolveDID(config.seller),
+      ...(results[0].settlement && { settlement: results[0].settlement }),
+      tradeId,
+      milestones: results,
+      ...(converted && {
+        payWith: config.payWith,
+        sentAmount: Money.sum(results.map(result => result.sentAmount!), config.payWith!),
+        deliveredAmount: amount
+      })
+    };
+  }
+
+  /**
+   * Creates the escrow, check or payment for a single trade or milestone
+   */
+  private async createTradeLeg(config: TradeConfig, buyerWallet: Wallet, linkMemos: Memo[] = []): Promise<TradeResult> {
     const buyerAddress = this.didManager.resolveDID(config.buyer);
     const sellerAddress = this.didManager.resolveDID(config.seller);
+    if (!Money.of(config.amount, config.token).isPositive()) {
+      throw new Error(`Trade amount must be more than 0, not ${config.amount}`);
+    }
 
-    if (config.token === 'RLUSD') {
-      // For RLUSD, we use Payment transactions (native escrows only support XRP)
-      // In production, this could use Hooks or other mechanisms
-      const memo = config.memo || `XAG Trade: ${config.amount} RLUSD from ${buyerAddress} to ${sellerAddress}`;
-      
-      console.log(`\n💱 Creating RLUSD Payment (Escrow-like)...`);
-      console.log(`   Note: Native Escrows only support XRP. Using Payment for RLUSD.`);
-      
-      const hash = await this.rlusdManager.createRLUSDPayment(
-        buyerWallet,
-        sellerAddress,
-        config.amount.toString(),
-        memo
-      );
+    if (config.payWith && config.payWith !== config.token) {
+      return await this.createCrossCurrencyLeg(config, buyerWallet, buyerAddress, sellerAddress, linkMemos);
+    }
 
-      return {
-        hash,
-        sequence: 0, // Payment doesn't use sequence like Escrow
-        amount: config.amount,
-        token: config.token,
-        buyer: buyerAddress,
-        seller: sellerAddress
-      };
+    const amount = Money.of(config.amount, config.token);
+
+    if (config.token !== 'XRP') {
+      const asset = this.assets.resolve(config.token, this.didManager.getNetworkId());
+      const settlement = await this.resolveSettlement(config, asset);
+      const ledgerAmount = amount.toLedgerAmount(asset) as IssuedCurrencyAmount;
+
+      if (settlement === 'payment') {
+        // Unsecured: funds move immediately, so there is nothing to finish or cancel
+        if (config.condition || config.finishAfter || config.cancelAfter || linkMemos.length > 0) {
+          throw new Error('Payment settlement cannot honour condition, finishAfter, cancelAfter or an arbiter; use escrow settlement');
+        }
+        const memo = config.memo || `XAG Trade: ${amount} ${asset.code} from ${buyerAddress} to ${sellerAddress}`;
+
+        console.log(`\n💱 Creating ${asset.code} Payment...`);
+        console.log(`   Note: Payment settlement has no buyer protection.`);
+
+        const hash = await this.tokenManager.createPayment(
+          buyerWallet,
+          sellerAddress,
+          asset,
+          amount,
+          memo,
+          this.createCategoryMemos(config)
+        );
+
+        return {
+          hash,
+          sequence: 0, // Payment doesn't use sequence like Escrow
+          amount,
+          token: config.token,
+          buyer: buyerAddress,
+          seller: sellerAddress,
+          settlement
+        };
+      }
+
+      if (settlement === 'check') {
+        // Checks don't lock funds and the ledger only enforces Expiration, so there is nowhere to hold other terms
+        if (config.condition || config.finishAfter) {
+          throw new Error('Check settlement cannot honour condition or finishAfter, which the ledger does not enforce on checks; use escrow settlement');
+        }
+
+        console.log(`\n💱 Creating ${asset.code} Check...`);
+        const check = await this.checkManager.createCheck(buyerWallet, sellerAddress, ledgerAmount, {
+          expiration: config.cancelAfter,
+          memos: [
+            ...this.createMemos(config.memo),
+            ...this.createCategoryMemos(config),
+            ...linkMemos
+          ]
+        });
+
+        return {
+          hash: check.hash,
+          sequence: check.sequence,
+          amount,
+          token: config.token,
+          buyer: buyerAddress,
+          seller: sellerAddress,
+          settlement,
+          checkId: check.checkId
+        };
+      }
+
+      // Token escrow must be cancellable, so the ledger requires CancelAfter
+      if (!config.cancelAfter) {
+        throw new Error(`cancelAfter is required for ${asset.code} escrow`);
+      }
+      console.log(`\n💱 Creating ${asset.code} token escrow...`);
+      return await this.createEscrow(config, ledgerAmount, buyerWallet, buyerAddress, sellerAddress, linkMemos);
     } else {
       // Native XRPL Escrow for XRP
-      const escrowTx: EscrowCreate = {
-        TransactionType: 'EscrowCreate',
-        Account: buyerWallet.address,
-        Amount: xrpToDrops(config.amount.toString()),
-        Destination: sellerAddress,
-        ...(config.condition && { Condition: config.condition }),
-        ...(config.finishAfter && { FinishAfter: config.finishAfter }),
-        ...(config.cancelAfter && { CancelAfter: config.cancelAfter }),
-        ...(config.memo && { Memos: this.createMemos(config.memo) })
-      };
+      return await this.createEscrow(config, amount.toDrops(), buyerWallet, buyerAddress, sellerAddress, linkMemos);
+    }
+  }
 
-      const prepared = await this.client.autofill(escrowTx);
-      const signed = buyerWallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
+  /**
+   * Creates a trade leg priced in one asset and paid for with another
+   * Payment settlement pays the seller directly along a DEX path. Escrow and check settlement first convert
+   * within the buyer's account, then lock what the conversion delivered, so the seller keeps its protection.
+   */
+  private async createCrossCurrencyLeg(
+    config: TradeConfig,
+    buyerWallet: Wallet,
+    buyerAddress: string,
+    sellerAddress: string,
+    linkMemos: Memo[]
+  ): Promise<TradeResult> {
+    const payWith = config.payWith!;
+    const amount = Money.of(config.amount, config.token);
+    const request = {
+      token: config.token,
+      amount,
+      payWith,
+      slippage: config.slippage,
+      deliverMin: config.deliverMin
+    };
+    // Only payment settlement pays along the path in one transaction; the others convert first, then lock
+    if (config.token === 'XRP' || config.settlement !== 'payment') {
+      expectMoreTransactions(`the escrow or check that locks the converted ${config.token}`);
+    }
 
-      const txHash = result.result.hash as string;
-      const sequence = (result.result as any).Sequence || prepared.Sequence;
+    let settlement: SettlementMethod = 'escrow';
+    if (config.token !== 'XRP') {
+      const asset = this.assets.resolve(config.token, this.didManager.getNetworkId());
+      settlement = await this.resolveSettlement(config, asset);
 
-      return {
-        hash: txHash,
-        sequence,
-        amount: config.amount,
-        token: config.token,
-        buyer: buyerAddress,
-        seller: sellerAddress
-      };
+      if (settlement === 'payment') {
+        if (config.condition || config.finishAfter || config.cancelAfter || linkMemos.length > 0) {
+          throw new Error('Payment settlement cannot honour condition, finishAfter, cancelAfter or an arbiter; use escrow settlement');
+        }
+        const memo = config.memo || `XAG Trade: ${amount} ${asset.code} paid with ${payWith} from ${buyerAddress} to ${sellerAddress}`;
+
+        console.log(`\n💱 Paying ${asset.code} with ${payWith} through the DEX...`);
+        console.log(`   Note: Payment settlement has no buyer protection.`);
+        const payment = await this.pathfindingService.pay(
+          buyerWallet,
+          { ...request, destination: sellerAddress },
+          [...this.createMemos(memo), ...this.createCategoryMemos(config)]
+        );
+        console.log(`   Spent ${payment.sent} ${payWith}, delivered ${payment.delivered} ${asset.code}`);
+
+        return {
+          hash: payment.hash,
+          sequence: 0,
+          amount,
+          token: config.token,
+          buyer: buyerAddress,
+          seller: sellerAddress,
+          settlement,
+          payWith,
+          sentAmount: payment.sent,
+          deliveredAmount: payment.delivered
+        };
+      }
+
+      // Check the settlement can go ahead before converting anything
+      if (settlement === 'escrow' && !config.cancelAfter) {
+        throw new Error(`cancelAfter is required for ${asset.code} escrow`);
+      }
+      if (settlement === 'check' && (config.condition || config.finishAfter)) {
+        throw new Error('Check settlement cannot honour condition or finishAfter, which the ledger does not enforce on checks; use escrow settlement');
+      }
+
+      // The conversion lands in the buyer's own account
+      if (!(await this.tokenManager.hasTrustLine(buyerAddress, asset))) {
+        console.log(`Creating ${asset.code} TrustLine for ${buyerAddress}...`);
+        await this.tokenManager.createTrustLine(buyerWallet, asset);
+      }
+    }
+
+    console.log(`\n💱 Converting ${payWith} to ${amount} ${config.token} through the DEX...`);
+    const conversion = await this.pathfindingService.pay(buyerWallet, { ...request, destination: buyerAddress });
+    console.log(`   Spent ${conversion.sent} ${payWith}, received ${conversion.delivered} ${config.token}`);
+
+    let leg: TradeResult;
+    try {
+      leg = await this.createTradeLeg(
+        { ...config, amount: conversion.delivered, settlement, payWith: undefined },
+        buyerWallet,
+        linkMemos
+      );
+    } catch (error: any) {
+      throw new Error(`Converted ${conversion.sent} ${payWith} to ${conversion.delivered} ${config.token} (${conversion.hash}), which stays in the buyer's account, but the trade failed: ${error.message || error}`);
     }
+
+    return {
+      ...leg,
+      amount,
+      payWith,
+      sentAmount: conversion.sent,
+      deliveredAmount: conversion.delivered,
+      conversionHash: conversion.hash
+    };
   }
 
   /**
-   * Fulfills an escrow (for XRP) or verifies payment (for RLUSD)
+   * Fulfills a trade: finishes an escrow, cashes a check or verifies a payment
+   * The settlement method is read from the trade's creating transaction
    */
   async fulfillTrade(
     escrowHash: string,
     sellerWallet: Wallet,
-    token: 'XRP' | 'RLUSD',
     fulfillment?: string,
     condition?: string
   ): Promise<string> {
-    if (token === 'RLUSD') {
-      // For RLUSD, payment is already complete, just verify
-      const tx = await this.client.request({
-        command: 'tx',
-        transaction: escrowHash
+    const settlement = await this.getSettlement(escrowHash);
+
+    if (settlement.method === 'payment') {
+      // Payment is already complete
+      return escrowHash;
+    }
+
+    if (settlement.method === 'check') {
+      if (settlement.destination !== sellerWallet.address) {
+        throw new Error('Only the seller can cash the trade check');
+      }
+      return await this.checkManager.cashCheck(sellerWallet, settlement.checkId!, settlement.amount);
+    }
+
+    // EscrowFinish must repeat the escrow's condition alongside the fulfillment
+    const escrowCondition = condition || settlement.condition;
+
+    const escrowFinishTx: EscrowFinish = {
+      TransactionType: 'EscrowFinish',
+      Account: sellerWallet.address,
+      Owner: settlement.owner,
+      OfferSequence: settlement.sequence,
+      ...(fulfillment && { Fulfillment: fulfillment }),
+      ...(fulfillment && escrowCondition && { Condition: escrowCondition })
+    };
+
+    const result = await submitTransaction(this.client, escrowFinishTx, sellerWallet, 'finish escrow');
+
+    // A failed finish leaves the escrow open; the caller must keep the fulfillment to retry
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Escrow finish failed: ${txResult}`);
+    }
+
+    return result.hash;
+  }
+
+  /**
+   * Cancels an expired trade, returning the funds to the buyer
+   * Anyone can cancel once CancelAfter has passed; before that, only the seller can decline a check
+   */
+  async cancelTrade(escrowHash: string, wallet: Wallet): Promise<string> {
+    const settlement = await this.getSettlement(escrowHash);
+
+    if (settlement.method === 'payment') {
+      throw new Error(`Trade ${escrowHash} was settled by direct payment; it cannot be cancelled`);
+    }
+
+    if (settlement.method === 'check') {
+      // The ledger lets the buyer cancel a check at any time; hold it to the same rules as an escrow
+      const closeTime = await this.getLedgerCloseTime();
+      const expired = settlement.cancelAfter !== undefined && settlement.cancelAfter <= closeTime;
+      if (!expired && wallet.address !== settlement.destination) {
+        throw new Error('Only the seller can cancel a check-settled trade before cancelAfter');
+      }
+      return await this.checkManager.cancelCheck(wallet, settlement.checkId!);
+    }
+
+    return await this.cancelEscrow(wallet, settlement.owner, settlement.sequence);
+  }
+
+  /**
+   * Reads how a trade was settled from its creating transaction
+   */
+  async getSettlement(tradeHash: string): Promise<TradeSettlement> {
+    const tx = await this.client.request({
+      command: 'tx',
+      transaction: tradeHash
+    });
+
+    const txResult = tx.result as any;
+    const txData = txResult.tx_json || txResult;
+    if (txResult.meta?.TransactionResult !== 'tesSUCCESS') {
+      throw new Error(`Trade transaction was not successful: ${txResult.meta?.TransactionResult}`);
+    }
+
+    const ledgerIndex = txResult.ledger_index ?? txData.ledger_index;
+    return {
+      ...this.parseSettlement(tradeHash, txData, txResult.meta),
+      ...(ledgerIndex !== undefined && { ledgerIndex })
+    };
+  }
+
+  private parseSettlement(tradeHash: string, txData: any, meta: any): TradeSettlement {
+    const arbitration = this.parseMemo<{ arbiter: string }>(txData.Memos, 'xag:arbitration');
+    const base = {
+      hash: tradeHash,
+      owner: txData.Account,
+      destination: txData.Destination,
+      sequence: txData.Sequence || txData.TicketSequence,
+      ...(arbitration?.arbiter && { arbiter: arbitration.arbiter })
+    };
+
+    switch (txData.TransactionType) {
+      case 'EscrowCreate':
+        if (!base.owner || !base.sequence) {
+          throw new Error(`Could not extract owner or sequence from escrow transaction. Hash: ${tradeHash}`);
+        }
+        return {
+          ...base,
+          method: 'escrow',
+          amount: txData.Amount,
+          ...(txData.Condition && { condition: txData.Condition }),
+          ...(txData.FinishAfter !== undefined && { finishAfter: txData.FinishAfter }),
+          ...(txData.CancelAfter !== undefined && { cancelAfter: txData.CancelAfter })
+        };
+      case 'CheckCreate': {
+        const checkId = CheckManager.getCheckId(meta);
+        if (!checkId) {
+          throw new Error(`Could not find the check created by transaction ${tradeHash}`);
+        }
+        return {
+          ...base,
+          method: 'check',
+          amount: txData.SendMax,
+          checkId,
+          ...(txData.Expiration !== undefined && { cancelAfter: txData.Expiration })
+        };
+      }
+      case 'Payment':
+        return { ...base, method: 'payment', amount: txData.Amount || txData.DeliverMax };
+      default:
+        throw new Error(`Transaction ${tradeHash} is not a trade (${txData.TransactionType})`);
+    }
+  }
+
+  /**
+   * Checks whether an issued currency can be held in escrow:
+   * the TokenEscrow amendment must be enabled and the issuer must allow trust line locking
+   */
+  async supportsTokenEscrow(issuer: string): Promise<{ supported: boolean; reason?: string }> {
+    const amendments = await this.client.request({
+      command: 'ledger_entry',
+      index: AMENDMENTS_LEDGER_INDEX,
+      ledger_index: 'validated'
+    });
+    const enabled: string[] = (amendments.result.node as any)?.Amendments || [];
+    if (!enabled.includes(TOKEN_ESCROW_AMENDMENT)) {
+      return { supported: false, reason: 'TokenEscrow amendment is not enabled on this network' };
+    }
+
+    const accountInfo = await this.client.request({
+      command: 'account_info',
+      account: issuer,
+      ledger_index: 'validated'
+    });
+    if ((accountInfo.result.account_data.Flags & LSF_ALLOW_TRUSTLINE_LOCKING) === 0) {
+      return { supported: false, reason: `Issuer ${issuer} does not allow trust line locking` };
+    }
+
+    return { supported: true };
+  }
+
+  private async resolveSettlement(config: TradeConfig, asset: Asset): Promise<SettlementMethod> {
+    const requested = config.settlement || 'auto';
+    if (requested === 'check' || requested === 'payment') {
+      return requested;
+    }
+
+    const support = await this.supportsTokenEscrow(asset.issuer);
+    if (support.supported) {
+      return 'escrow';
+    }
+    // Never fall back to a weaker settlement than the caller may have assumed; they must choose it explicitly
+    if (requested === 'escrow') {
+      throw new Error(`${asset.code} escrow is not available: ${support.reason}`);
+    }
+    throw new Error(`${asset.code} escrow is not available: ${support.reason}. Choose check or payment settlement explicitly`);
+  }
+
+  private async createEscrow(
+    config: TradeConfig,
+    amount: EscrowCreate['Amount'],
+    buyerWallet: Wallet,
+    buyerAddress: string,
+    sellerAddress: string,
+    linkMemos: Memo[] = []
+  ): Promise<TradeResult> {
+    const memos = [...this.createMemos(config.memo), ...this.createCategoryMemos(config), ...linkMemos];
+    const escrowTx: EscrowCreate = {
+      TransactionType: 'EscrowCreate',
+      Account: buyerWallet.address,
+      Amount: amount,
+      Destination: sellerAddress,
+      ...(config.condition && { Condition: config.condition }),
+      ...(config.finishAfter && { FinishAfter: config.finishAfter }),
+      ...(config.cancelAfter && { CancelAfter: config.cancelAfter }),
+      ...(memos.length > 0 && { Memos: memos })
+    };
+
+    const result = await submitTransaction(this.client, escrowTx, buyerWallet, 'create escrow');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Escrow create failed: ${txResult}`);
+    }
+
+    const txHash = result.hash;
+    const sequence = result.sequence;
+
+    return {
+      hash: txHash,
+      sequence,
+      amount: Money.of(config.amount, config.token),
+      token: config.token,
+      buyer: buyerAddress,
+      seller: sellerAddress,
+      settlement: 'escrow'
+    };
+  }
+
+  /**
+   * Reports each milestone of a trade as pending, fulfilled, cancelled or expired
+   * Reads the history of any party to the trade; escrows and checks appear in both the buyer's and seller's history
+   */
+  async getMilestoneProgress(tradeId: string, partyAddress: string): Promise<MilestoneProgress> {
+    const history = await this.getAccountHistory(partyAddress);
+    const legs: { index: number; total: number; settlement: TradeSettlement }[] = [];
+    const resolutions: Map<string, TradeResolution> = new Map();
+
+    for (const tx of history) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if ((tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+      const hash = txData.hash || tx.hash;
+
+      switch (txData.TransactionType) {
+        case 'EscrowCreate':
+        case 'CheckCreate': {
+          const link = this.parseMemo<{ tradeId: string; milestone: number; milestones: number }>(txData.Memos, 'xag:trade');
+          if (link?.tradeId === tradeId) {
+            legs.push({ index: link.milestone, total: link.milestones, settlement: this.parseSettlement(hash, txData, tx.meta) });
+          }
+          break;
+        }
+        default:
+          this.recordResolution(txData, hash, resolutions);
+      }
+    }
+
+    if (legs.length === 0) {
+      throw new Error(`No milestones found for trade ${tradeId} in the history of ${partyAddress}`);
+    }
+
+    const first = legs[0].settlement;
+    const token = typeof first.amount === 'string' ? 'XRP' : this.assets.identify(first.amount.currency, first.amount.issuer);
+
+    const closeTime = await this.getLedgerCloseTime();
+    const milestones: MilestoneStatus[] = legs
+      .sort((a, b) => a.index - b.index)
+      .map(({ index, settlement }) => {
+        const { status, resolvedBy } = this.resolveStatus(settlement, resolutions, closeTime);
+        return {
+          index,
+          hash: settlement.hash,
+          sequence: settlement.sequence,
+          amount: Money.fromLedgerAmount(settlement.amount, token),
+          settlement: settlement.method,
+          ...(settlement.checkId && { checkId: settlement.checkId }),
+          ...(settlement.condition && { condition: settlement.condition }),
+          ...(settlement.finishAfter !== undefined && { finishAfter: settlement.finishAfter }),
+          ...(settlement.cancelAfter !== undefined && { cancelAfter: settlement.cancelAfter }),
+          status,
+          ...(resolvedBy && { resolvedBy })
+        };
       });
-      
-      const txResult = tx.result as any;
-      if (txResult.meta?.TransactionResult !== 'tesSUCCESS') {
-        throw new Error('RLUSD payment was not successful');
+
+    const sumBy = (...statuses: MilestoneStatus['status'][]) =>
+      Money.sum(milestones.filter(milestone => statuses.includes(milestone.status)).map(milestone => milestone.amount), token);
+
+    return {
+      tradeId,
+      buyer: first.owner,
+      seller: first.destination,
+      token,
+      totalMilestones: legs[0].total,
+      totalAmount: Money.sum(milestones.map(milestone => milestone.amount), token),
+      fulfilledAmount: sumBy('fulfilled'),
+      cancelledAmount: sumBy('cancelled'),
+      pendingAmount: sumBy('pending', 'expired'),
+      complete: milestones.length === legs[0].total && milestones.every(milestone => milestone.status === 'fulfilled' || milestone.status === 'cancelled'),
+      milestones
+    };
+  }
+
+  /**
+   * Reports whether a trade is still pending, has expired, or was fulfilled or cancelled on the ledger
+   */
+  async getTradeStatus(tradeHash: string): Promise<{ status: TradeLedgerStatus; resolvedBy?: string }> {
+    const settlement = await this.getSettlement(tradeHash);
+    if (settlement.method === 'payment') {
+      return { status: 'fulfilled', resolvedBy: tradeHash };
+    }
+
+    const resolutions: Map<string, TradeResolution> = new Map();
+    for (const tx of await this.getAccountHistory(settlement.owner)) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if ((tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+      this.recordResolution(txData, txData.hash || tx.hash, resolutions);
+    }
+
+    return this.resolveStatus(settlement, resolutions, await this.getLedgerCloseTime());
+  }
+
+  /**
+   * Indexes finishing and cancelling transactions by the escrow (owner:sequence) or check they resolve
+   */
+  private recordResolution(txData: any, hash: string, resolutions: Map<string, TradeResolution>) {
+    switch (txData.TransactionType) {
+      case 'EscrowFinish':
+      case 'EscrowCancel':
+        resolutions.set(`${txData.Owner}:${txData.OfferSequence}`, {
+          status: txData.TransactionType === 'EscrowFinish' ? 'fulfilled' : 'cancelled',
+          hash
+        });
+        break;
+      case 'CheckCash':
+      case 'CheckCancel':
+        resolutions.set(txData.CheckID, {
+          status: txData.TransactionType === 'CheckCash' ? 'fulfilled' : 'cancelled',
+          hash
+        });
+        break;
+    }
+  }
+
+  private resolveStatus(
+    settlement: TradeSettlement,
+    resolutions: Map<string, TradeResolution>,
+    closeTime: number
+  ): { status: TradeLedgerStatus; resolvedBy?: string } {
+    const key = settlement.method === 'check' ? settlement.checkId! : `${settlement.owner}:${settlement.sequence}`;
+    const resolution = resolutions.get(key);
+    if (resolution) {
+      return { status: resolution.status, resolvedBy: resolution.hash };
+    }
+    const expired = settlement.cancelAfter !== undefined && settlement.cancelAfter <= closeTime;
+    return { status: expired ? 'expired' : 'pending' };
+  }
+
+  /**
+   * Links an escrow to its trade and milestone position
+   */
+  private createTradeLinkMemo(tradeId: string, milestone: number, milestones: number): Memo {
+    return {
+      Memo: {
+        MemoData: Buffer.from(JSON.stringify({ tradeId, milestone, milestones })).toString('hex'),
+        MemoType: Buffer.from('application/json').toString('hex'),
+        MemoFormat: Buffer.from('xag:trade').toString('hex')
       }
-      
-      return escrowHash; // Payment already completed
-    } else {
-      // Native EscrowFinish for XRP
-      const tx = await this.client.request({
-        command: 'tx',
-        transaction: escrowHash
+    };
+  }
+
+
+  /**
+   * Pages through an account's history, newest first
+   */
+  private async getAccountHistory(address: string, max: number = 2000): Promise<any[]> {
+    const transactions: any[] = [];
+    let marker: unknown;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: address,
+        limit: 200,
+        ...(marker !== undefined && { marker })
       });
+      transactions.push(...(accountTx.result.transactions || []));
+      marker = accountTx.result.marker;
+    } while (marker !== undefined && transactions.length < max);
 
-      const txResult = tx.result as any;
-      const owner = txResult.tx_json?.Account || txResult.Account;
-      const sequence = txResult.tx_json?.Sequence || txResult.Sequence;
+    return transactions;
+  }
 
-      if (!owner || !sequence) {
-        throw new Error(`Could not extract owner or sequence from escrow transaction. Hash: ${escrowHash}`);
+  /**
+   * Names the arbiter who can rule on disputes, so rulings can be checked against the trade on-ledger
+   */
+  private createArbitrationMemos(config: TradeConfig): Memo[] {
+    if (!config.arbiter) return [];
+    return [{
+      Memo: {
+        MemoData: Buffer.from(JSON.stringify({ arbiter: config.arbiter })).toString('hex'),
+        MemoType: Buffer.from('application/json').toString('hex'),
+        MemoFormat: Buffer.from('xag:arbitration').toString('hex')
       }
+    }];
+  }
 
-      const escrowFinishTx: EscrowFinish = {
-        TransactionType: 'EscrowFinish',
-        Account: sellerWallet.address,
-        Owner: owner,
-        OfferSequence: sequence,
-        ...(fulfillment && { Fulfillment: fulfillment }),
-        ...(condition && { Condition: condition })
-      };
+  /**
+   * Records what the trade was for, so reputation history can break trades down by category
+   */
+  private createCategoryMemos(config: TradeConfig): Memo[] {
+    if (!config.category) return [];
+    return [{
+      Memo: {
+        MemoData: Buffer.from(JSON.stringify({ category: config.category })).toString('hex'),
+        MemoType: Buffer.from('application/json').toString('hex'),
+        MemoFormat: Buffer.from('xag:category').toString('hex')
+      }
+    }];
+  }
+
+  /**
+   * Reads the JSON memo with the given format from a transaction's memos
+   */
+  private parseMemo<T>(memos: any[] = [], format: string): T | null {
+    for (const memo of memos) {
+      try {
+        const memoFormat = memo.Memo?.MemoFormat;
+        if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === format) {
+          return JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+        }
+      } catch (error) {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  private async getLedgerCloseTime(): Promise<number> {
+    const ledger = await this.client.request({
+      command: 'ledger',
+      ledger_index: 'validated'
+    });
+    return ledger.result.ledger.close_time;
+  }
+
+  /**
+   * Submits an EscrowCancel for an escrow identified by owner and sequence
+   */
+  async cancelEscrow(wallet: Wallet, owner: string, offerSequence: number): Promise<string> {
+    const escrowCancelTx: EscrowCancel = {
+      TransactionType: 'EscrowCancel',
+      Account: wallet.address,
+      Owner: owner,
+      OfferSequence: offerSequence
+    };
 
-      const prepared = await this.client.autofill(escrowFinishTx);
-      const signed = sellerWallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
+    const result = await submitTransaction(this.client, escrowCancelTx, wallet, 'cancel escrow');
 
-      return result.result.hash as string;
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Escrow cancel failed: ${txResult}`);
     }
+
+    return result.hash;
+  }
+
+  /**
+   * Lists escrows an account has created that are still open
+   */
+  async getOpenEscrows(ownerAddress: string): Promise<OpenEscrow[]> {
+    const escrows: OpenEscrow[] = [];
+    let marker: unknown;
+
+    do {
+      const accountObjects = await this.client.request({
+        command: 'account_objects',
+        account: ownerAddress,
+        type: 'escrow',
+        ledger_index: 'validated',
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const object of accountObjects.result.account_objects || []) {
+        const escrow = object as any;
+        // Escrows also appear in the destination's directory; only track the ones this account funded
+        if (escrow.Account !== ownerAddress) continue;
+
+        // Escrows are never modified, so PreviousTxnID is the EscrowCreate that holds the sequence
+        const createTx = await this.client.request({
+          command: 'tx',
+          transaction: escrow.PreviousTxnID
+        });
+        const createData: any = (createTx.result as any).tx_json || createTx.result;
+
+        escrows.push({
+          index: escrow.index,
+          owner: escrow.Account,
+          destination: escrow.Destination,
+          amount: typeof escrow.Amount === 'string' ? escrow.Amount : escrow.Amount.value,
+          sequence: createData.Sequence || createData.TicketSequence,
+          createHash: escrow.PreviousTxnID,
+          ...(escrow.Condition && { condition: escrow.Condition }),
+          ...(escrow.FinishAfter !== undefined && { finishAfter: escrow.FinishAfter }),
+          ...(escrow.CancelAfter !== undefined && { cancelAfter: escrow.CancelAfter })
+        });
+      }
+      marker = accountObjects.result.marker;
+    } while (marker !== undefined);
+
+    return escrows;
   }
 }
 
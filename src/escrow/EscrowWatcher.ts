@@ -0,0 +1,123 @@
+import { Client, Wallet } from 'xrpl';
+import { EscrowManager } from './EscrowManager';
+import { OpenEscrow, EscrowRefundOutcome } from '../types';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Polls the escrows of watched accounts and cancels them once CancelAfter has passed,
+ * so buyers get refunded without having to track expiries themselves
+ */
+export class EscrowWatcher {
+  private escrowManager: EscrowManager;
+  private wallets: Map<string, Wallet> = new Map(); // Owner address -> wallet used to sign refunds
+  private pending: Set<string> = new Set(); // Escrow IDs with a cancel in flight
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private intervalMs: number;
+  private onOutcome?: (outcome: EscrowRefundOutcome) => void;
+
+  constructor(
+    private client: Client,
+    options: { intervalMs?: number; onOutcome?: (outcome: EscrowRefundOutcome) => void } = {}
+  ) {
+    this.escrowManager = new EscrowManager(client);
+    this.intervalMs = options.intervalMs || DEFAULT_INTERVAL_MS;
+    this.onOutcome = options.onOutcome;
+  }
+
+  /**
+   * Watches the escrows funded by a wallet's account
+   */
+  watch(wallet: Wallet) {
+    this.wallets.set(wallet.classicAddress, wallet);
+  }
+
+  unwatch(address: string) {
+    this.wallets.delete(address);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Starts polling; the timer does not keep the process alive on its own
+   */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkNow().catch(error => console.error('Escrow watcher poll failed:', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Cancels every expired escrow of the watched accounts
+   * Expiry is judged by the last validated ledger's close time, as the ledger itself does
+   */
+  async checkNow(): Promise<EscrowRefundOutcome[]> {
+    if (this.polling || !this.client.isConnected()) {
+      return [];
+    }
+    this.polling = true;
+
+    try {
+      const closeTime = await this.getLedgerCloseTime();
+      const outcomes: EscrowRefundOutcome[] = [];
+
+      for (const [address, wallet] of this.wallets) {
+        const escrows = await this.escrowManager.getOpenEscrows(address);
+        const expired = escrows.filter(escrow =>
+          escrow.cancelAfter !== undefined && escrow.cancelAfter <= closeTime && !this.pending.has(escrow.index)
+        );
+
+        for (const escrow of expired) {
+          outcomes.push(await this.refund(wallet, escrow));
+        }
+      }
+
+      return outcomes;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async refund(wallet: Wallet, escrow: OpenEscrow): Promise<EscrowRefundOutcome> {
+    this.pending.add(escrow.index);
+    let outcome: EscrowRefundOutcome;
+
+    try {
+      const hash = await this.escrowManager.cancelEscrow(wallet, escrow.owner, escrow.sequence);
+      outcome = { escrow, status: 'refunded', hash, timestamp: new Date().toISOString() };
+    } catch (error: any) {
+      outcome = { escrow, status: 'failed', error: error.message || String(error), timestamp: new Date().toISOString() };
+    } finally {
+      this.pending.delete(escrow.index);
+    }
+
+    if (this.onOutcome) {
+      try {
+        this.onOutcome(outcome);
+      } catch (error) {
+        console.error('Escrow watcher callback failed:', error);
+      }
+    }
+    return outcome;
+  }
+
+  private async getLedgerCloseTime(): Promise<number> {
+    const ledger = await this.client.request({
+      command: 'ledger',
+      ledger_index: 'validated'
+    });
+    return ledger.result.ledger.close_time;
+  }
+}
@@ -1,28 +1,536 @@
-import { Client, Wallet, DIDSet } from 'xrpl';
+import { Client, Wallet, DIDSet, DIDDelete, SetRegularKey, AccountSet, AccountSetAsfFlags, deriveAddress, isValidClassicAddress, parseAccountRootFlags, rippleTimeToISOTime } from 'xrpl';
+import { DIDDocument, DIDKeyHistoryEntry, DIDResolutionResult, DIDService, DIDVerificationMethod, ParsedDID, XRPL_NETWORKS } from '../types';
+import { verifyPayloadSignature } from './signing';
+import { submitTransaction, expectMoreTransactions } from '../transactions/submit';
+
+const DID_CONTEXT = [
+  'https://www.w3.org/ns/did/v1',
+  'https://w3id.org/security/suites/secp256k1-2019/v1',
+  'https://w3id.org/security/suites/ed25519-2018/v1'
+];
+const DID_CONTENT_TYPE = 'application/did+ld+json';
+
+interface AccountTransaction {
+  type: string;
+  hash: string;
+  ledger: number;
+  timestamp: string;
+  result: string;
+  data: any;
+}
 
 export class DIDManager {
   constructor(private client: Client) {}
 
   /**
    * Resolves a DID to an XRPL address
-   * Format: did:xrpl:1:rAddress...
+   * Format: did:xrpl:<networkId>:rAddress...
+   * Throws if the DID belongs to a different network than the connected client
    */
   resolveDID(did: string): string {
-    if (did.startsWith('did:xrpl:1:')) {
-      return did.replace('did:xrpl:1:', '');
+    const { address, networkId } = this.parseDID(did);
+    const connectedNetworkId = this.getNetworkId();
+    if (networkId !== undefined && networkId !== connectedNetworkId) {
+      throw new Error(`DID ${did} belongs to network ${networkId}, but client is connected to network ${connectedNetworkId}`);
+    }
+    return address;
+  }
+
+  /**
+   * Splits a DID into its network identifier and address without checking the connected network
+   */
+  parseDID(did: string): ParsedDID {
+    const match = did.match(/^did:xrpl:(\d+):(.+)$/);
+    if (match && isValidClassicAddress(match[2])) {
+      return { networkId: parseInt(match[1], 10), address: match[2] };
     }
     // If it's already an address, return as-is
-    if (did.startsWith('r')) {
-      return did;
+    if (isValidClassicAddress(did)) {
+      return { address: did };
     }
     throw new Error(`Invalid DID format: ${did}`);
   }
 
   /**
-   * Creates a DID from an address
+   * Checks whether two DIDs (or addresses) identify the same account
+   * A bare address matches the DID of that address on any network
+   */
+  isSameDID(a: string, b: string): boolean {
+    try {
+      const first = this.parseDID(a);
+      const second = this.parseDID(b);
+      return first.address === second.address &&
+        (first.networkId === undefined || second.networkId === undefined || first.networkId === second.networkId);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Creates a DID from an address on the connected network
    */
   createDID(address: string): string {
-    return `did:xrpl:1:${address}`;
+    return `did:xrpl:${this.getNetworkId()}:${address}`;
+  }
+
+  /**
+   * Gets the NetworkID of the network the client points at
+   */
+  getNetworkId(): number {
+    if (this.client.networkID !== undefined) {
+      return this.client.networkID;
+    }
+    const known = Object.values(XRPL_NETWORKS).find(network => network.url === this.client.url);
+    if (known) {
+      return known.networkId;
+    }
+    // Non-mainnet servers announce their network_id in server_info; mainnet servers do not
+    if (this.client.isConnected()) {
+      return XRPL_NETWORKS.mainnet.networkId;
+    }
+    throw new Error(`Unknown XRPL network for ${this.client.url}. Connect the client before creating or resolving DIDs.`);
+  }
+
+  /**
+   * Resolves a DID to a W3C DID Document
+   * Reads the account's keys and the DID object written by registerDID / ProfileManager.updateProfile
+   */
+  async resolveDIDDocument(did: string): Promise<DIDResolutionResult> {
+    let address: string;
+    try {
+      address = this.resolveDID(did);
+    } catch (error: any) {
+      return this.resolutionError('invalidDid', error.message || String(error));
+    }
+    const id = this.createDID(address);
+
+    let accountData: any;
+    try {
+      const accountInfo = await this.client.request({
+        command: 'account_info',
+        account: address,
+        ledger_index: 'validated'
+      });
+      accountData = accountInfo.result.account_data;
+    } catch (error: any) {
+      return this.resolutionError('notFound', `Account ${address} not found: ${error.message || error}`);
+    }
+
+    const accountObjects = await this.client.request({
+      command: 'account_objects',
+      account: address,
+      type: 'did',
+      ledger_index: 'validated'
+    });
+    const didObject: any = (accountObjects.result.account_objects || [])[0];
+
+    const transactions = await this.getAccountHistory(address);
+    const knownKeys = this.collectPublicKeys(transactions);
+
+    // The current DID was created by the first DIDSet after the last DIDDelete
+    const didTransactions = transactions.filter(tx =>
+      (tx.type === 'DIDSet' || tx.type === 'DIDDelete') && tx.result === 'tesSUCCESS'
+    );
+    const lastDelete = didTransactions.map(tx => tx.type).lastIndexOf('DIDDelete');
+    const activeSets = didTransactions.slice(lastDelete + 1);
+    const created = activeSets[0];
+    const updated = activeSets[activeSets.length - 1];
+    const deactivated = !didObject && didTransactions.length > 0;
+
+    const flags = parseAccountRootFlags(accountData.Flags);
+    const verificationMethod: DIDVerificationMethod[] = [];
+    if (!deactivated) {
+      if (!flags.lsfDisableMaster) {
+        verificationMethod.push(this.buildVerificationMethod(id, 'master', address, knownKeys.get(address)));
+      }
+      if (accountData.RegularKey) {
+        verificationMethod.push(
+          this.buildVerificationMethod(id, 'regular', accountData.RegularKey, knownKeys.get(accountData.RegularKey))
+        );
+      }
+    }
+
+    const keyIds = verificationMethod.map(method => method.id);
+    const didDocument: DIDDocument = {
+      '@context': DID_CONTEXT,
+      id,
+      controller: id,
+      verificationMethod,
+      authentication: keyIds,
+      assertionMethod: keyIds,
+      service: didObject ? this.buildServices(id, didObject) : []
+    };
+
+    return {
+      didDocument,
+      didDocumentMetadata: {
+        created: created?.timestamp,
+        updated: updated?.timestamp,
+        createdLedger: created?.ledger,
+        updatedLedger: didObject?.PreviousTxnLgrSeq ?? updated?.ledger,
+        deactivated,
+        versionId: didObject?.PreviousTxnID ?? updated?.hash,
+        keyHistory: this.buildKeyHistory(address, transactions, knownKeys)
+      },
+      didResolutionMetadata: {
+        contentType: DID_CONTENT_TYPE
+      }
+    };
+  }
+
+  /**
+   * Gets every key that has controlled a DID, with the ledger range it was valid for
+   * Throws if the keys the history leaves open don't match the account's current keys, since a missed
+   * rotation or revocation would make a revoked key look valid
+   */
+  async getKeyHistory(did: string): Promise<DIDKeyHistoryEntry[]> {
+    const address = this.resolveDID(did);
+    const [transactions, current] = await Promise.all([this.getAccountHistory(address), this.getCurrentKeys(address)]);
+    const history = this.buildKeyHistory(address, transactions, this.collectPublicKeys(transactions));
+
+    const open = history.filter(entry => !entry.validUntil);
+    const masterOpen = open.some(entry => entry.keyType === 'master');
+    const regularOpen = open.find(entry => entry.keyType === 'regular')?.address;
+    if (masterOpen !== current.master || regularOpen !== current.regularKey) {
+      throw new Error(`Key history for ${did} does not match the account's current keys`);
+    }
+    return history;
+  }
+
+  /**
+   * Reads the keys that control an account now: the master key unless it is disabled, and the regular key if set
+   */
+  async getCurrentKeys(did: string): Promise<{ master: boolean; regularKey?: string }> {
+    const address = this.resolveDID(did);
+    const accountInfo = await this.client.request({
+      command: 'account_info',
+      account: address,
+      ledger_index: 'validated'
+    });
+    const accountData = accountInfo.result.account_data;
+
+    return {
+      master: !parseAccountRootFlags(accountData.Flags).lsfDisableMaster,
+      ...(accountData.RegularKey && { regularKey: accountData.RegularKey })
+    };
+  }
+
+  /**
+   * Checks whether a public key controls a DID now, from the account's current state
+   */
+  async isKeyCurrent(did: string, publicKey: string): Promise<boolean> {
+    const address = this.resolveDID(did);
+    let signerAddress: string;
+    try {
+      signerAddress = deriveAddress(publicKey);
+    } catch (error) {
+      return false;
+    }
+    const keys = await this.getCurrentKeys(address);
+    return (keys.master && signerAddress === address) || signerAddress === keys.regularKey;
+  }
+
+  /**
+   * Checks whether a public key was authorized to sign for a DID at a point in time
+   * Signatures made before a key rotation remain valid when checked against their signing time
+   */
+  async isKeyValidAt(did: string, publicKey: string, at: Date | string = new Date()): Promise<boolean> {
+    const history = await this.getKeyHistory(did);
+    return this.isKeyValidInHistory(history, publicKey, at);
+  }
+
+  /**
+   * Checks a public key against an already fetched key history (see getKeyHistory)
+   */
+  isKeyValidInHistory(history: DIDKeyHistoryEntry[], publicKey: string, at: Date | string = new Date()): boolean {
+    const signerAddress = deriveAddress(publicKey);
+    const time = new Date(at).getTime();
+
+    return history.some(entry =>
+      entry.address === signerAddress &&
+      new Date(entry.validFrom).getTime() <= time &&
+      (!entry.validUntil || time < new Date(entry.validUntil).getTime())
+    );
+  }
+
+  /**
+   * Verifies a payload signed with signPayload by a key that controls the DID now
+   * Pass signedAt only when the signing time is anchored independently of the signer, e.g. the close time of the
+   * ledger that recorded the payload; a time the signer wrote itself could be backdated past a revocation
+   */
+  async verifySignature(
+    did: string,
+    payload: any,
+    signature: string,
+    publicKey: string,
+    signedAt?: Date | string
+  ): Promise<boolean> {
+    if (!verifyPayloadSignature(payload, signature, publicKey)) {
+      return false;
+    }
+    return signedAt === undefined
+      ? await this.isKeyCurrent(did, publicKey)
+      : await this.isKeyValidAt(did, publicKey, signedAt);
+  }
+
+  /**
+   * Authorizes a regular key for the DID's account, or removes it when no address is given
+   */
+  async setRegularKey(wallet: Wallet, regularKeyAddress?: string): Promise<string> {
+    const setRegularKeyTx: SetRegularKey = {
+      TransactionType: 'SetRegularKey',
+      Account: wallet.address,
+      ...(regularKeyAddress && { RegularKey: regularKeyAddress })
+    };
+
+    return await this.submit(setRegularKeyTx, wallet, 'set regular key');
+  }
+
+  /**
+   * Rotates the DID's signing key to a freshly generated regular key
+   * The wallet may hold the master key or the current regular key
+   */
+  async rotateKey(wallet: Wallet): Promise<{ wallet: Wallet; hash: string }> {
+    const newKey = Wallet.generate();
+    const hash = await this.setRegularKey(wallet, newKey.classicAddress);
+
+    return {
+      wallet: Wallet.fromSeed(newKey.seed!, { masterAddress: wallet.address }),
+      hash
+    };
+  }
+
+  /**
+   * Revokes a compromised key
+   * 'regular' removes the regular key; 'master' disables the master key (requires a regular key)
+   */
+  async revokeKey(wallet: Wallet, key: 'master' | 'regular'): Promise<string> {
+    if (key === 'regular') {
+      return await this.setRegularKey(wallet);
+    }
+
+    const accountSetTx: AccountSet = {
+      TransactionType: 'AccountSet',
+      Account: wallet.address,
+      SetFlag: AccountSetAsfFlags.asfDisableMaster
+    };
+
+    return await this.submit(accountSetTx, wallet, 'disable master key');
+  }
+
+  /**
+   * Recovers a DID whose master key leaked, using the current regular key
+   * Rotates to a fresh regular key, then disables the master key with it
+   */
+  async recoverDID(regularKeyWallet: Wallet): Promise<{ wallet: Wallet; hashes: string[] }> {
+    expectMoreTransactions('the AccountSet that disables the master key');
+    const rotation = await this.rotateKey(regularKeyWallet);
+    const revokeHash = await this.revokeKey(rotation.wallet, 'master');
+
+    return {
+      wallet: rotation.wallet,
+      hashes: [rotation.hash, revokeHash]
+    };
+  }
+
+  /**
+   * Deactivates a DID by deleting its ledger object (XLS-40 DIDDelete)
+   * The DID can be re-registered later with registerDID
+   */
+  async deactivateDID(wallet: Wallet): Promise<string> {
+    const didDeleteTx: DIDDelete = {
+      TransactionType: 'DIDDelete',
+      Account: wallet.address
+    };
+
+    return await this.submit(didDeleteTx, wallet, 'deactivate DID');
+  }
+
+  private async submit(tx: SetRegularKey | AccountSet | DIDDelete, wallet: Wallet, action: string): Promise<string> {
+    try {
+      const result = await submitTransaction(this.client, tx, wallet, action);
+
+      const txResult = result.meta?.TransactionResult;
+      if (txResult !== 'tesSUCCESS') {
+        throw new Error(txResult);
+      }
+      return result.hash;
+    } catch (error: any) {
+      throw new Error(`Failed to ${action}: ${error.message || error}`);
+    }
+  }
+
+  /**
+   * Reads an account's whole transaction history, oldest first
+   * Key changes can happen at any point, so the history is never cut short
+   */
+  private async getAccountHistory(address: string): Promise<AccountTransaction[]> {
+    const transactions: AccountTransaction[] = [];
+    let marker: unknown;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: address,
+        forward: true,
+        limit: 200,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const tx of accountTx.result.transactions || []) {
+        const txData: any = tx.tx || tx.tx_json || {};
+        transactions.push({
+          type: txData.TransactionType,
+          hash: txData.hash || (tx as any).hash || '',
+          ledger: txData.ledger_index || (tx as any).ledger_index,
+          timestamp: (tx as any).close_time_iso || (txData.date ? rippleTimeToISOTime(txData.date) : new Date(0).toISOString()),
+          result: (tx.meta as any)?.TransactionResult || 'Unknown',
+          data: txData
+        });
+      }
+      marker = accountTx.result.marker;
+    } while (marker !== undefined);
+
+    return transactions;
+  }
+
+  /**
+   * Public keys are only published when they sign, so learn them from the account history
+   */
+  private collectPublicKeys(transactions: AccountTransaction[]): Map<string, string> {
+    const knownKeys = new Map<string, string>(); // signer address -> public key
+    for (const tx of transactions) {
+      if (tx.data.SigningPubKey && !knownKeys.has(deriveAddress(tx.data.SigningPubKey))) {
+        knownKeys.set(deriveAddress(tx.data.SigningPubKey), tx.data.SigningPubKey);
+      }
+    }
+    return knownKeys;
+  }
+
+  /**
+   * Replays SetRegularKey and master key flag changes to build the key validity timeline
+   */
+  private buildKeyHistory(
+    address: string,
+    transactions: AccountTransaction[],
+    knownKeys: Map<string, string>
+  ): DIDKeyHistoryEntry[] {
+    const history: DIDKeyHistoryEntry[] = [];
+    if (transactions.length === 0) {
+      return history;
+    }
+
+    const open = (keyType: 'master' | 'regular', keyAddress: string, tx: AccountTransaction, addedBy?: string) => {
+      const entry: DIDKeyHistoryEntry = {
+        keyType,
+        address: keyAddress,
+        ...(knownKeys.get(keyAddress) && { publicKey: knownKeys.get(keyAddress) }),
+        validFrom: tx.timestamp,
+        validFromLedger: tx.ledger,
+        ...(addedBy && { addedBy })
+      };
+      history.push(entry);
+      return entry;
+    };
+    const close = (entry: DIDKeyHistoryEntry | undefined, tx: AccountTransaction) => {
+      if (entry) {
+        entry.validUntil = tx.timestamp;
+        entry.validUntilLedger = tx.ledger;
+        entry.revokedBy = tx.hash;
+      }
+    };
+
+    // The master key is valid from the account's first transaction (its funding payment)
+    let master: DIDKeyHistoryEntry | undefined = open('master', address, transactions[0]);
+    let regular: DIDKeyHistoryEntry | undefined;
+
+    for (const tx of transactions) {
+      if (tx.result !== 'tesSUCCESS' || tx.data.Account !== address) continue;
+
+      if (tx.type === 'SetRegularKey') {
+        close(regular, tx);
+        regular = tx.data.RegularKey ? open('regular', tx.data.RegularKey, tx, tx.hash) : undefined;
+      } else if (tx.type === 'AccountSet') {
+        if (tx.data.SetFlag === AccountSetAsfFlags.asfDisableMaster && master) {
+          close(master, tx);
+          master = undefined;
+        } else if (tx.data.ClearFlag === AccountSetAsfFlags.asfDisableMaster && !master) {
+          master = open('master', address, tx, tx.hash);
+        }
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Builds a verification method for an account key
+   */
+  private buildVerificationMethod(
+    did: string,
+    fragment: string,
+    signerAddress: string,
+    publicKey?: string
+  ): DIDVerificationMethod {
+    // Ed25519 keys carry an "ED" prefix on XRPL; secp256k1 keys are 33-byte compressed points
+    const isEd25519 = publicKey?.toUpperCase().startsWith('ED');
+    return {
+      id: `${did}#${fragment}`,
+      type: isEd25519 ? 'Ed25519VerificationKey2018' : 'EcdsaSecp256k1VerificationKey2019',
+      controller: did,
+      blockchainAccountId: `xrpl:${this.getNetworkId()}:${signerAddress}`,
+      ...(publicKey && { publicKeyHex: isEd25519 ? publicKey.slice(2) : publicKey })
+    };
+  }
+
+  /**
+   * Extracts service endpoints from the DID object's URI, Data and DIDDocument fields
+   */
+  private buildServices(did: string, didObject: any): DIDService[] {
+    const services: DIDService[] = [];
+
+    if (didObject.URI) {
+      services.push({
+        id: `${did}#xag`,
+        type: 'XAGAgent',
+        serviceEndpoint: Buffer.from(didObject.URI, 'hex').toString('utf-8')
+      });
+    }
+
+    if (didObject.Data) {
+      try {
+        const data = JSON.parse(Buffer.from(didObject.Data, 'hex').toString('utf-8'));
+        if (data.contact?.website) {
+          services.push({ id: `${did}#website`, type: 'LinkedDomains', serviceEndpoint: data.contact.website });
+        }
+        if (data.contact?.email) {
+          services.push({ id: `${did}#email`, type: 'Email', serviceEndpoint: `mailto:${data.contact.email}` });
+        }
+      } catch (error) {
+        // Data is not JSON (e.g., written by another tool)
+      }
+    }
+
+    if (didObject.DIDDocument) {
+      try {
+        const document = JSON.parse(Buffer.from(didObject.DIDDocument, 'hex').toString('utf-8'));
+        if (Array.isArray(document.service)) {
+          services.push(...document.service);
+        }
+      } catch (error) {
+        // DIDDocument field may hold a hash or URL instead of JSON
+      }
+    }
+
+    return services;
+  }
+
+  private resolutionError(error: 'invalidDid' | 'notFound', message: string): DIDResolutionResult {
+    return {
+      didDocument: null,
+      didDocumentMetadata: { deactivated: false },
+      didResolutionMetadata: { contentType: DID_CONTENT_TYPE, error, message }
+    };
   }
 
   /**
@@ -37,11 +545,9 @@ export class DIDManager {
     };
 
     try {
-      const prepared = await this.client.autofill(didTx);
-      const signed = wallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
+      const result = await submitTransaction(this.client, didTx, wallet, 'register DID');
       
-      return result.result.hash as string;
+      return result.hash;
     } catch (error: any) {
       // DID registration might fail on testnet if not fully supported
       // Return the DID anyway based on address
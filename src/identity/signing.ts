@@ -0,0 +1,44 @@
+import { Wallet } from 'xrpl';
+import { sign, verify } from 'ripple-keypairs';
+
+/**
+ * Serializes a value to JSON with object keys sorted, so signer and verifier hash identical bytes
+ */
+export function canonicalize(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`;
+  }
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+}
+
+/**
+ * Signs a payload with an agent's XRPL keypair
+ * Returns the hex signature over the canonical JSON of the payload
+ */
+export function signPayload(wallet: Wallet, payload: any): string {
+  const messageHex = Buffer.from(canonicalize(payload)).toString('hex');
+  return sign(messageHex, wallet.privateKey);
+}
+
+/**
+ * Verifies a signature produced by signPayload
+ */
+export function verifyPayloadSignature(payload: any, signature: string, publicKey: string): boolean {
+  try {
+    const messageHex = Buffer.from(canonicalize(payload)).toString('hex');
+    return verify(messageHex, signature, publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Gets the linked-data proof type for an XRPL public key
+ */
+export function proofTypeForKey(publicKey: string): string {
+  return publicKey.toUpperCase().startsWith('ED') ? 'Ed25519Signature2018' : 'EcdsaSecp256k1Signature2019';
+}
@@ -1,3 +1,5 @@
 export { XAG } from './XAG';
+export { InMemoryTradeStore, FileTradeStore } from './trades/TradeRegistry';
+export { StaticPriceFeed } from './pricing/QuoteService';
+export { Money, MoneyInput, Rounding } from './currency/Money';
 export * from './types';
-
@@ -1,13 +1,19 @@
 import { Client, Wallet, Payment, Memo, xrpToDrops } from 'xrpl';
 import { Intent } from '../types';
 import { DIDManager } from '../identity/DIDManager';
+import { QuoteService } from '../pricing/QuoteService';
+import { Money } from '../currency/Money';
+import { submitTransaction } from '../transactions/submit';
 
 export class IntentService {
   private didManager: DIDManager;
   private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
 
-  constructor(private client: Client) {
+  private quoteService?: QuoteService;
+
+  constructor(private client: Client, options: { quoteService?: QuoteService } = {}) {
     this.didManager = new DIDManager(client);
+    this.quoteService = options.quoteService;
   }
 
   /**
@@ -19,7 +25,7 @@ export class IntentService {
     agentSeed?: string
   ): Promise<string> {
     const address = this.didManager.resolveDID(agentDID);
-    const wallet = agentSeed ? Wallet.fromSeed(agentSeed) : null;
+    const wallet = agentSeed ? Wallet.fromSeed(agentSeed, { masterAddress: address }) : null;
     
     if (!wallet) {
       throw new Error('Wallet seed required to broadcast intent');
@@ -28,6 +34,10 @@ export class IntentService {
     const intentData: Intent = {
       agentDID,
       ...intent,
+      // Prices are broadcast as exact decimal strings
+      ...(intent.terms?.price !== undefined && {
+        terms: { ...intent.terms, price: Money.of(intent.terms.price, intent.terms.currency || 'XRP').toString() }
+      }),
       timestamp: new Date().toISOString(),
       status: 'active'
     };
@@ -46,21 +56,24 @@ export class IntentService {
       }]
     };
 
-    const prepared = await this.client.autofill(paymentTx);
-    const signed = wallet.sign(prepared);
-    const result = await this.client.submitAndWait(signed.tx_blob);
+    const result = await submitTransaction(this.client, paymentTx, wallet, 'broadcast intent');
 
-    return result.result.hash as string;
+    return result.hash;
   }
 
   /**
    * Searches for matching intents on the blockchain
+   * Sorting by price converts each intent's terms to `currency` (default XRP) and sets normalizedPrice;
+   * intents without a price, or priced in an asset that can't be converted, come last
    */
   async searchIntents(criteria: {
     type?: 'offer' | 'request';
     category?: string;
     agentDID?: string;
     limit?: number;
+    sortBy?: 'timestamp' | 'price';
+    currency?: string; // Asset prices are normalised to when sorting by price
+    order?: 'asc' | 'desc'; // Price order; defaults to cheapest first
   }): Promise<Intent[]> {
     // Query recent transactions to find intents
     // In production, you'd use a more efficient indexing system
@@ -106,6 +119,25 @@ export class IntentService {
     // Sort by timestamp (newest first)
     intents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
+    if (criteria.sortBy === 'price') {
+      if (!this.quoteService) {
+        throw new Error('Sorting by price needs a QuoteService');
+      }
+      const currency = criteria.currency || 'XRP';
+      const sorted = await this.quoteService.sortByPrice(
+        intents,
+        intent => intent.terms?.price !== undefined && intent.terms.currency
+          ? { amount: intent.terms.price, currency: intent.terms.currency }
+          : undefined,
+        currency,
+        criteria.order
+      );
+      return sorted.map(({ item, quote }) => ({
+        ...item,
+        ...(quote && { normalizedPrice: { amount: quote.converted, currency } })
+      }));
+    }
+
     return intents;
   }
 
@@ -120,7 +152,7 @@ export class IntentService {
   ): Promise<string> {
     // Create a new transaction referencing the original intent
     const address = this.didManager.resolveDID(agentDID);
-    const wallet = agentSeed ? Wallet.fromSeed(agentSeed) : null;
+    const wallet = agentSeed ? Wallet.fromSeed(agentSeed, { masterAddress: address }) : null;
     
     if (!wallet) {
       throw new Error('Wallet seed required');
@@ -147,11 +179,9 @@ export class IntentService {
       }]
     };
 
-    const prepared = await this.client.autofill(paymentTx);
-    const signed = wallet.sign(prepared);
-    const result = await this.client.submitAndWait(signed.tx_blob);
+    const result = await submitTransaction(this.client, paymentTx, wallet, 'update intent');
 
-    return result.result.hash as string;
+    return result.hash;
   }
 }
 
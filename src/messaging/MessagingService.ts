@@ -0,0 +1,181 @@
+import { Client, Wallet, Payment, xrpToDrops } from 'xrpl';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { MessageEnvelope, EnvelopeVerificationResult, DIDKeyHistoryEntry } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { canonicalize, signPayload, verifyPayloadSignature } from '../identity/signing';
+import { submitTransaction } from '../transactions/submit';
+
+const DEFAULT_TTL_SECONDS = 300;
+const MAX_TTL_SECONDS = 3600;
+const CLOCK_SKEW_MS = 30 * 1000;
+const KEY_CACHE_MS = 60 * 1000;
+
+export class MessagingService {
+  private didManager: DIDManager;
+  private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
+  private seenNonces: Map<string, number> = new Map(); // sender|nonce -> expiry (ms)
+  private keyHistoryCache: Map<string, { history: DIDKeyHistoryEntry[]; fetchedAt: number }> = new Map();
+
+  constructor(private client: Client) {
+    this.didManager = new DIDManager(client);
+  }
+
+  /**
+   * Creates an off-chain message envelope signed with the sender's XRPL keypair
+   */
+  createEnvelope<T>(
+    senderWallet: Wallet,
+    senderDID: string,
+    recipientDID: string,
+    payload: T,
+    ttlSeconds: number = DEFAULT_TTL_SECONDS
+  ): MessageEnvelope<T> {
+    if (ttlSeconds <= 0 || ttlSeconds > MAX_TTL_SECONDS) {
+      throw new Error(`Message TTL must be between 1 and ${MAX_TTL_SECONDS} seconds`);
+    }
+
+    const issuedAt = new Date();
+    const unsigned: Omit<MessageEnvelope<T>, 'signature'> = {
+      version: 1,
+      id: randomUUID(),
+      sender: senderDID,
+      recipient: recipientDID,
+      nonce: randomBytes(16).toString('hex'),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + ttlSeconds * 1000).toISOString(),
+      contentHash: this.hashContent(payload),
+      payload
+    };
+
+    return {
+      ...unsigned,
+      signature: {
+        publicKeyHex: senderWallet.publicKey,
+        value: signPayload(senderWallet, unsigned)
+      }
+    };
+  }
+
+  /**
+   * Verifies an envelope: expiry, content hash, recipient, sender signature and replay
+   * A nonce is only consumed once the envelope is otherwise valid
+   */
+  async verifyEnvelope(
+    envelope: MessageEnvelope,
+    options: { recipientDID?: string } = {}
+  ): Promise<EnvelopeVerificationResult> {
+    const errors: string[] = [];
+    const now = Date.now();
+    const issuedAt = new Date(envelope.issuedAt).getTime();
+    const expiresAt = new Date(envelope.expiresAt).getTime();
+
+    if (envelope.version !== 1) {
+      errors.push(`Unsupported envelope version: ${envelope.version}`);
+    }
+    if (isNaN(issuedAt) || isNaN(expiresAt) || expiresAt - issuedAt > MAX_TTL_SECONDS * 1000) {
+      errors.push('Invalid envelope lifetime');
+    }
+    if (issuedAt > now + CLOCK_SKEW_MS) {
+      errors.push('Envelope issued in the future');
+    }
+    if (expiresAt + CLOCK_SKEW_MS < now) {
+      errors.push(`Envelope expired at ${envelope.expiresAt}`);
+    }
+    if (this.hashContent(envelope.payload) !== envelope.contentHash) {
+      errors.push('Content hash does not match payload');
+    }
+    if (options.recipientDID && !this.didManager.isSameDID(options.recipientDID, envelope.recipient)) {
+      errors.push(`Envelope is addressed to ${envelope.recipient}`);
+    }
+
+    const { signature, ...unsigned } = envelope;
+    if (!signature || !verifyPayloadSignature(unsigned, signature.value, signature.publicKeyHex)) {
+      errors.push('Invalid signature');
+    } else {
+      // The signing key must control the sender DID now, so revoked keys cannot send new messages
+      try {
+        const history = await this.getKeyHistory(envelope.sender);
+        if (!this.didManager.isKeyValidInHistory(history, signature.publicKeyHex)) {
+          errors.push(`Signing key is not authorized for ${envelope.sender}`);
+        }
+      } catch (error: any) {
+        errors.push(`Sender DID could not be resolved: ${error.message || error}`);
+      }
+    }
+
+    this.pruneNonces(now);
+    const nonceKey = `${envelope.sender}|${envelope.nonce}`;
+    if (this.seenNonces.has(nonceKey)) {
+      errors.push('Replayed envelope');
+    }
+
+    if (errors.length === 0) {
+      this.seenNonces.set(nonceKey, expiresAt + CLOCK_SKEW_MS);
+    }
+
+    return {
+      valid: errors.length === 0,
+      sender: envelope.sender,
+      errors
+    };
+  }
+
+  /**
+   * Anchors an envelope's hash on-chain so an important message becomes attributable on the ledger
+   */
+  async anchorEnvelope(senderWallet: Wallet, envelope: MessageEnvelope): Promise<string> {
+    const anchor = {
+      envelopeId: envelope.id,
+      sender: envelope.sender,
+      recipient: envelope.recipient,
+      contentHash: envelope.contentHash,
+      signature: envelope.signature.value,
+      timestamp: new Date().toISOString()
+    };
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: senderWallet.address,
+      Destination: this.SINK_ADDRESS,
+      Amount: xrpToDrops('0.000001'),
+      Memos: [{
+        Memo: {
+          MemoData: Buffer.from(JSON.stringify(anchor)).toString('hex'),
+          MemoType: Buffer.from('application/json').toString('hex'),
+          MemoFormat: Buffer.from('xag:envelope').toString('hex')
+        }
+      }]
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, senderWallet, 'anchor message');
+
+    return result.hash;
+  }
+
+  private hashContent(payload: any): string {
+    return createHash('sha256').update(canonicalize(payload)).digest('hex');
+  }
+
+  /**
+   * Key histories are cached briefly so high-frequency messages don't re-scan the ledger
+   */
+  private async getKeyHistory(did: string): Promise<DIDKeyHistoryEntry[]> {
+    const address = this.didManager.resolveDID(did);
+    const cached = this.keyHistoryCache.get(address);
+    if (cached && Date.now() - cached.fetchedAt < KEY_CACHE_MS) {
+      return cached.history;
+    }
+
+    const history = await this.didManager.getKeyHistory(did);
+    this.keyHistoryCache.set(address, { history, fetchedAt: Date.now() });
+    return history;
+  }
+
+  private pruneNonces(now: number) {
+    for (const [key, expiry] of this.seenNonces) {
+      if (expiry < now) {
+        this.seenNonces.delete(key);
+      }
+    }
+  }
+}
@@ -1,10 +1,14 @@
 import { Client, Wallet, Payment, Memo, xrpToDrops } from 'xrpl';
 import { Negotiation } from '../types';
 import { DIDManager } from '../identity/DIDManager';
+import { submitTransaction } from '../transactions/submit';
 
+/**
+ * Negotiation messages are sent to the other participant, so both parties' histories hold the whole
+ * negotiation and reputation can see how it ended
+ */
 export class NegotiationService {
   private didManager: DIDManager;
-  private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
 
   constructor(private client: Client) {
     this.didManager = new DIDManager(client);
@@ -20,7 +24,7 @@ export class NegotiationService {
     initiatorSeed?: string
   ): Promise<{ negotiationId: string; txHash: string }> {
     const initiatorAddress = this.didManager.resolveDID(initiatorDID);
-    const wallet = initiatorSeed ? Wallet.fromSeed(initiatorSeed) : null;
+    const wallet = initiatorSeed ? Wallet.fromSeed(initiatorSeed, { masterAddress: initiatorAddress }) : null;
     
     if (!wallet) {
       throw new Error('Wallet seed required to initiate negotiation');
@@ -51,7 +55,7 @@ export class NegotiationService {
     const paymentTx: Payment = {
       TransactionType: 'Payment',
       Account: wallet.address,
-      Destination: this.SINK_ADDRESS,
+      Destination: this.didManager.resolveDID(participantDID),
       Amount: xrpToDrops('0.000001'),
       Memos: [{
         Memo: {
@@ -62,11 +66,9 @@ export class NegotiationService {
       }]
     };
 
-    const prepared = await this.client.autofill(paymentTx);
-    const signed = wallet.sign(prepared);
-    const result = await this.client.submitAndWait(signed.tx_blob);
+    const result = await submitTransaction(this.client, paymentTx, wallet, 'initiate negotiation');
 
-    const txHash = result.result.hash as string;
+    const txHash = result.hash;
     
     // Update history with txHash
     negotiation.history[0].txHash = txHash;
@@ -86,7 +88,7 @@ export class NegotiationService {
     responderSeed?: string
   ): Promise<string> {
     const responderAddress = this.didManager.resolveDID(responderDID);
-    const wallet = responderSeed ? Wallet.fromSeed(responderSeed) : null;
+    const wallet = responderSeed ? Wallet.fromSeed(responderSeed, { masterAddress: responderAddress }) : null;
     
     if (!wallet) {
       throw new Error('Wallet seed required');
@@ -119,6 +121,11 @@ export class NegotiationService {
     if (!negotiation || negotiation.negotiationId !== negotiationId) {
       throw new Error('Negotiation not found');
     }
+    const participants = negotiation.participants.map(participant => this.didManager.resolveDID(participant));
+    const counterparty = participants.find(participant => participant !== responderAddress);
+    if (!participants.includes(responderAddress) || !counterparty) {
+      throw new Error(`${responderDID} is not a participant in negotiation ${negotiationId}`);
+    }
 
     // Add new step to history
     const newStep = negotiation.history.length + 1;
@@ -149,7 +156,7 @@ export class NegotiationService {
     const paymentTx: Payment = {
       TransactionType: 'Payment',
       Account: wallet.address,
-      Destination: this.SINK_ADDRESS,
+      Destination: counterparty,
       Amount: xrpToDrops('0.000001'),
       Memos: [{
         Memo: {
@@ -160,11 +167,9 @@ export class NegotiationService {
       }]
     };
 
-    const prepared = await this.client.autofill(paymentTx);
-    const signed = wallet.sign(prepared);
-    const result = await this.client.submitAndWait(signed.tx_blob);
+    const result = await submitTransaction(this.client, paymentTx, wallet, 'respond to negotiation');
 
-    const txHash = result.result.hash as string;
+    const txHash = result.hash;
     negotiation.history[negotiation.history.length - 1].txHash = txHash;
 
     return txHash;
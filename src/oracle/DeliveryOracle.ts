@@ -0,0 +1,166 @@
+import { Client, Wallet, Payment, xrpToDrops, rippleTimeToISOTime } from 'xrpl';
+import { DeliveryAttestation, AttestationVerificationResult } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { signPayload } from '../identity/signing';
+import { submitTransaction } from '../transactions/submit';
+
+/**
+ * Delivery attestations from a neutral oracle (e.g., a smart meter) that release a trade's fulfillment
+ * Attestations are signed with the oracle's XRPL key and recorded as xag:attestation memos
+ */
+export class DeliveryOracle {
+  private didManager: DIDManager;
+  private SINK_ADDRESS = 'rrrrrrrrrrrrrrrrrrrrBZbvji';
+
+  constructor(private client: Client) {
+    this.didManager = new DIDManager(client);
+  }
+
+  /**
+   * Creates a signed attestation that a trade was (or was not) delivered
+   */
+  createAttestation(
+    oracleWallet: Wallet,
+    oracleDID: string,
+    tradeHash: string,
+    observation: { delivered: boolean; quantity?: number; unit?: string; evidence?: string; observedAt?: string }
+  ): DeliveryAttestation {
+    const unsigned: Omit<DeliveryAttestation, 'signature'> = {
+      version: 1,
+      tradeHash,
+      oracle: oracleDID,
+      delivered: observation.delivered,
+      ...(observation.quantity !== undefined && { quantity: observation.quantity }),
+      ...(observation.unit && { unit: observation.unit }),
+      ...(observation.evidence && { evidence: observation.evidence }),
+      observedAt: observation.observedAt || new Date().toISOString(),
+      issuedAt: new Date().toISOString()
+    };
+
+    return {
+      ...unsigned,
+      signature: {
+        publicKeyHex: oracleWallet.publicKey,
+        value: signPayload(oracleWallet, unsigned)
+      }
+    };
+  }
+
+  /**
+   * Records an attestation on-ledger from the oracle's account, tied to the trade hash
+   */
+  async submitAttestation(oracleWallet: Wallet, attestation: DeliveryAttestation): Promise<string> {
+    if (this.didManager.resolveDID(attestation.oracle) !== oracleWallet.address) {
+      throw new Error('Attestations must be submitted from the oracle account');
+    }
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: oracleWallet.address,
+      Destination: this.SINK_ADDRESS,
+      Amount: xrpToDrops('0.000001'),
+      Memos: [{
+        Memo: {
+          MemoData: Buffer.from(JSON.stringify(attestation)).toString('hex'),
+          MemoType: Buffer.from('application/json').toString('hex'),
+          MemoFormat: Buffer.from('xag:attestation').toString('hex')
+        }
+      }]
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, oracleWallet, 'submit attestation');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to submit attestation: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Verifies an attestation's signature, that the key controls the oracle DID (or controlled it when the ledger
+   * recorded the attestation, if recordedAt is given), and optionally that it comes from the expected oracle
+   * about the expected trade. issuedAt is written by the signer, so it is never used as the signing time
+   */
+  async verifyAttestation(
+    attestation: DeliveryAttestation,
+    options: { oracleDID?: string; tradeHash?: string; recordedAt?: string } = {}
+  ): Promise<AttestationVerificationResult> {
+    const errors: string[] = [];
+
+    if (attestation.version !== 1) {
+      errors.push(`Unsupported attestation version: ${attestation.version}`);
+    }
+    if (options.oracleDID && !this.didManager.isSameDID(options.oracleDID, attestation.oracle)) {
+      errors.push(`Attestation is from ${attestation.oracle}, not the trade's oracle`);
+    }
+    if (options.tradeHash && attestation.tradeHash !== options.tradeHash) {
+      errors.push(`Attestation is about trade ${attestation.tradeHash}`);
+    }
+
+    const { signature, ...unsigned } = attestation;
+    try {
+      const signed = signature && await this.didManager.verifySignature(
+        attestation.oracle,
+        unsigned,
+        signature.value,
+        signature.publicKeyHex,
+        options.recordedAt
+      );
+      if (!signed) {
+        errors.push('Invalid attestation signature');
+      }
+    } catch (error: any) {
+      errors.push(`Oracle DID could not be resolved: ${error.message || error}`);
+    }
+
+    return { valid: errors.length === 0, attestation, errors };
+  }
+
+  /**
+   * Finds attestations the oracle has recorded on-ledger for a trade, newest first, with their verification
+   */
+  async getAttestations(tradeHash: string, oracleDID: string): Promise<AttestationVerificationResult[]> {
+    const oracleAddress = this.didManager.resolveDID(oracleDID);
+    const results: AttestationVerificationResult[] = [];
+    let marker: unknown;
+    let scanned = 0;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: oracleAddress,
+        limit: 200,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const tx of accountTx.result.transactions || []) {
+        const txData: any = tx.tx || tx.tx_json || {};
+        // Only memos the oracle account itself submitted count
+        if (txData.Account !== oracleAddress || (tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+
+        for (const memo of txData.Memos || []) {
+          try {
+            const memoFormat = memo.Memo?.MemoFormat;
+            if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === 'xag:attestation') {
+              const attestation: DeliveryAttestation = JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+              if (attestation.tradeHash === tradeHash) {
+                // The ledger close time anchors when the key signed, so later rotations don't void the attestation
+                const recordedAt = (tx as any).close_time_iso || (txData.date ? rippleTimeToISOTime(txData.date) : undefined);
+                const verification = await this.verifyAttestation(attestation, { oracleDID, tradeHash, recordedAt });
+                results.push({ ...verification, ledgerHash: txData.hash || tx.hash });
+              }
+            }
+          } catch (error) {
+            continue;
+          }
+        }
+      }
+
+      scanned += (accountTx.result.transactions || []).length;
+      marker = accountTx.result.marker;
+    } while (marker !== undefined && scanned < 1000);
+
+    return results;
+  }
+}
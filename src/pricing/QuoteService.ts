@@ -0,0 +1,245 @@
+import { Client, Amount, IssuedCurrency, dropsToXrp } from 'xrpl';
+import { PriceFeed, PriceQuote, PriceSource } from '../types';
+import { AssetRegistry } from '../currency/AssetRegistry';
+import { DIDManager } from '../identity/DIDManager';
+import { Money, MoneyInput } from '../currency/Money';
+
+type LedgerCurrency = IssuedCurrency | { currency: 'XRP' };
+type CachedRate = { rate: number; source: PriceSource; bridgeSources?: [PriceSource, PriceSource]; fetchedAt: number };
+
+// AMM trading fees are in units of 1/100,000
+const AMM_FEE_DENOMINATOR = 100000;
+
+/**
+ * Fixed rates, for tests and local development without a price API
+ * Rates are keyed 'FROM/TO'; the inverse pair is derived when only one direction is given
+ * @example
+ * new StaticPriceFeed({ 'XRP/RLUSD': 0.5 })
+ */
+export class StaticPriceFeed implements PriceFeed {
+  constructor(private rates: Record<string, number>) {}
+
+  async getRate(from: string, to: string): Promise<number | undefined> {
+    const direct = this.rates[`${from}/${to}`];
+    if (direct !== undefined) {
+      return direct;
+    }
+    const inverse = this.rates[`${to}/${from}`];
+    return inverse ? 1 / inverse : undefined;
+  }
+}
+
+/**
+ * Converts amounts between XRP and registered assets
+ * Rates come from the ledger first: the better of the order book's best offer and the AMM pool's spot price,
+ * bridged through XRP when two issued currencies have no direct market. The price feed is the fallback.
+ * Rates are top-of-book, so large amounts may fill at a worse price; use PathfindingService to pay.
+ */
+export class QuoteService {
+  private didManager: DIDManager;
+  private assets: AssetRegistry;
+  private priceFeed?: PriceFeed;
+  private maxAgeMs: number;
+  private cache: Map<string, CachedRate> = new Map();
+
+  constructor(
+    private client: Client,
+    options: { assets?: AssetRegistry; priceFeed?: PriceFeed; maxAgeMs?: number } = {}
+  ) {
+    this.didManager = new DIDManager(client);
+    this.assets = options.assets || new AssetRegistry();
+    this.priceFeed = options.priceFeed;
+    this.maxAgeMs = options.maxAgeMs ?? 60000;
+  }
+
+  /**
+   * Quotes what an amount of one asset is worth in another
+   * Rates are cached for maxAgeMs; the quote reports when its rate was fetched and whether it came from the cache
+   * Quotes are estimates, so the converted amount is a plain number
+   */
+  async quote(input: MoneyInput, from: string, to: string): Promise<PriceQuote> {
+    const money = Money.of(input, from);
+    if (!money.isPositive()) {
+      throw new Error(`Amount must be more than 0, not ${money}`);
+    }
+    const amount = money.toNumber();
+    const now = Date.now();
+    let cached = true;
+    let rate = this.cache.get(`${from}/${to}`);
+
+    if (!rate || now - rate.fetchedAt > this.maxAgeMs) {
+      rate = { ...(await this.fetchRate(from, to)), fetchedAt: now };
+      this.cache.set(`${from}/${to}`, rate);
+      cached = false;
+    }
+
+    return {
+      amount,
+      from,
+      to,
+      converted: Number((amount * rate.rate).toPrecision(15)),
+      rate: rate.rate,
+      source: rate.source,
+      ...(rate.bridgeSources && { bridgeSources: rate.bridgeSources }),
+      fetchedAt: new Date(rate.fetchedAt).toISOString(),
+      ageMs: now - rate.fetchedAt,
+      cached
+    };
+  }
+
+  /**
+   * Sorts items by their price in one asset, cheapest first unless order is 'desc'
+   * Items without a price, or whose price can't be converted, go last in their original order
+   */
+  async sortByPrice<T>(
+    items: T[],
+    getPrice: (item: T) => { amount: MoneyInput; currency: string } | undefined,
+    to: string,
+    order: 'asc' | 'desc' = 'asc'
+  ): Promise<Array<{ item: T; quote?: PriceQuote }>> {
+    const priced: Array<{ item: T; quote?: PriceQuote }> = [];
+    for (const item of items) {
+      const price = getPrice(item);
+      let quote: PriceQuote | undefined;
+      if (price) {
+        try {
+          quote = await this.quote(price.amount, price.currency, to);
+        } catch (error) {
+          quote = undefined;
+        }
+      }
+      priced.push({ item, ...(quote && { quote }) });
+    }
+
+    const direction = order === 'desc' ? -1 : 1;
+    return priced
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => {
+        if (!a.entry.quote || !b.entry.quote) {
+          return (a.entry.quote ? -1 : b.entry.quote ? 1 : 0) || a.index - b.index;
+        }
+        return direction * (a.entry.quote.converted - b.entry.quote.converted) || a.index - b.index;
+      })
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Forgets cached rates, so the next quote reads the ledger again
+   */
+  clearCache() {
+    this.cache.clear();
+  }
+
+  private async fetchRate(from: string, to: string): Promise<Omit<CachedRate, 'fetchedAt'>> {
+    if (from === to) {
+      return { rate: 1, source: 'identity' };
+    }
+
+    const direct = await this.getLedgerRate(from, to);
+    if (direct) {
+      return direct;
+    }
+
+    // The DEX autobridges issued currencies through XRP
+    if (from !== 'XRP' && to !== 'XRP') {
+      const toXRP = await this.getLedgerRate(from, 'XRP');
+      const fromXRP = toXRP && await this.getLedgerRate('XRP', to);
+      if (toXRP && fromXRP) {
+        return { rate: toXRP.rate * fromXRP.rate, source: 'bridged', bridgeSources: [toXRP.source, fromXRP.source] };
+      }
+    }
+
+    const feedRate = this.priceFeed ? await this.priceFeed.getRate(from, to) : undefined;
+    if (feedRate !== undefined && feedRate > 0) {
+      return { rate: feedRate, source: 'feed' };
+    }
+
+    throw new Error(`No price for ${from}/${to}: no order book or AMM pool on-ledger${this.priceFeed ? ' and none from the price feed' : ' and no price feed configured'}`);
+  }
+
+  /**
+   * The better of the order book and AMM rates for selling `from` for `to`
+   */
+  private async getLedgerRate(from: string, to: string): Promise<{ rate: number; source: PriceSource } | undefined> {
+    const [bookRate, ammRate] = await Promise.all([this.getOrderBookRate(from, to), this.getAMMRate(from, to)]);
+    if (bookRate === undefined && ammRate === undefined) {
+      return undefined;
+    }
+    if (ammRate === undefined || (bookRate !== undefined && bookRate >= ammRate)) {
+      return { rate: bookRate!, source: 'orderbook' };
+    }
+    return { rate: ammRate, source: 'amm' };
+  }
+
+  /**
+   * Rate of the best funded offer selling `to` for `from`
+   */
+  private async getOrderBookRate(from: string, to: string): Promise<number | undefined> {
+    try {
+      const response = await this.client.request({
+        command: 'book_offers',
+        taker_gets: this.toCurrency(to),
+        taker_pays: this.toCurrency(from),
+        limit: 10,
+        ledger_index: 'validated'
+      });
+
+      for (const offer of response.result.offers || []) {
+        const gets = this.toNumber(offer.taker_gets_funded ?? offer.TakerGets);
+        const pays = this.toNumber(offer.taker_pays_funded ?? offer.TakerPays);
+        if (gets > 0 && pays > 0) {
+          return gets / pays;
+        }
+      }
+      return undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Spot rate of the AMM pool for the pair, after its trading fee
+   */
+  private async getAMMRate(from: string, to: string): Promise<number | undefined> {
+    try {
+      const response = await this.client.request({
+        command: 'amm_info',
+        asset: this.toCurrency(from),
+        asset2: this.toCurrency(to),
+        ledger_index: 'validated'
+      });
+
+      const amm: any = response.result.amm;
+      const fromCurrency = this.toCurrency(from);
+      const [fromPool, toPool] = this.sameCurrency(amm.amount, fromCurrency)
+        ? [this.toNumber(amm.amount), this.toNumber(amm.amount2)]
+        : [this.toNumber(amm.amount2), this.toNumber(amm.amount)];
+      if (fromPool <= 0 || toPool <= 0) {
+        return undefined;
+      }
+      return (toPool / fromPool) * (1 - (amm.trading_fee || 0) / AMM_FEE_DENOMINATOR);
+    } catch (error) {
+      // actNotFound: no pool for the pair
+      return undefined;
+    }
+  }
+
+  private toCurrency(code: string): LedgerCurrency {
+    if (code === 'XRP') {
+      return { currency: 'XRP' };
+    }
+    const asset = this.assets.resolve(code, this.didManager.getNetworkId());
+    return { currency: asset.currency, issuer: asset.issuer };
+  }
+
+  private sameCurrency(amount: Amount, currency: LedgerCurrency): boolean {
+    if (typeof amount === 'string' || !('issuer' in currency)) {
+      return typeof amount === 'string' && currency.currency === 'XRP';
+    }
+    return amount.currency === currency.currency && amount.issuer === currency.issuer;
+  }
+
+  private toNumber(amount: Amount): number {
+    return typeof amount === 'string' ? Number(dropsToXrp(amount)) : parseFloat(amount.value);
+  }
+}
@@ -1,8 +1,23 @@
 import { Client, Wallet, DIDSet } from 'xrpl';
 import { AgentProfile } from '../types';
+import { submitTransaction } from '../transactions/submit';
+import { DIDManager } from '../identity/DIDManager';
+import { QuoteService } from '../pricing/QuoteService';
+import { ReputationService } from '../reputation/ReputationService';
 
 export class ProfileManager {
-  constructor(private client: Client) {}
+  private didManager: DIDManager;
+  private quoteService?: QuoteService;
+  private reputationService?: ReputationService;
+
+  constructor(
+    private client: Client,
+    options: { quoteService?: QuoteService; reputationService?: ReputationService } = {}
+  ) {
+    this.didManager = new DIDManager(client);
+    this.quoteService = options.quoteService;
+    this.reputationService = options.reputationService;
+  }
 
   /**
    * Updates agent profile on-chain using DIDSet Data field
@@ -26,11 +41,9 @@ export class ProfileManager {
     };
 
     try {
-      const prepared = await this.client.autofill(didTx);
-      const signed = wallet.sign(prepared);
-      const result = await this.client.submitAndWait(signed.tx_blob);
+      const result = await submitTransaction(this.client, didTx, wallet, 'update profile');
       
-      return result.result.hash as string;
+      return result.hash;
     } catch (error: any) {
       throw new Error(`Failed to update profile: ${error.message || error}`);
     }
@@ -101,16 +114,59 @@ export class ProfileManager {
   }
 
   /**
-   * Searches for agents by profile criteria
+   * Searches known agents by profile criteria
+   * There is no on-ledger agent registry, so candidates are passed in as `agents` (DIDs or addresses);
+   * without them the search returns nothing. Sorting by price converts each agent's pricing.rate to
+   * `currency` (default XRP); agents without pricing, or priced in an asset that can't be converted, come last.
    */
   async searchAgents(criteria: {
-    type?: string;
-    capabilities?: string[];
+    agents?: string[];
+    type?: string; // Matched against profile.metadata.type
+    capabilities?: string[]; // Agents must have all of them
     minReputation?: number;
-  }): Promise<Array<{ address: string; profile: AgentProfile; reputation?: number }>> {
-    // This would require indexing or querying known agents
-    // For now, return empty - in production, you'd have an agent registry
-    return [];
+    sortBy?: 'price';
+    currency?: string; // Asset prices are normalised to when sorting by price
+    order?: 'asc' | 'desc'; // Price order; defaults to cheapest first
+  }): Promise<Array<{ address: string; profile: AgentProfile; reputation?: number; normalizedPrice?: { amount: number; currency: string } }>> {
+    if (criteria.minReputation !== undefined && !this.reputationService) {
+      throw new Error('Filtering by reputation needs a ReputationService');
+    }
+    if (criteria.sortBy === 'price' && !this.quoteService) {
+      throw new Error('Sorting by price needs a QuoteService');
+    }
+
+    const matches: Array<{ address: string; profile: AgentProfile; reputation?: number }> = [];
+    for (const agent of criteria.agents || []) {
+      const address = this.didManager.resolveDID(agent);
+      const profile = await this.getProfile(address);
+      if (!profile) continue;
+
+      if (criteria.type && profile.metadata?.type !== criteria.type) continue;
+      if (criteria.capabilities && !criteria.capabilities.every(capability => profile.capabilities?.includes(capability))) continue;
+
+      let reputation: number | undefined;
+      if (criteria.minReputation !== undefined) {
+        reputation = (await this.reputationService!.getReputation(agent)).score;
+        if (reputation < criteria.minReputation) continue;
+      }
+
+      matches.push({ address, profile, ...(reputation !== undefined && { reputation }) });
+    }
+
+    if (criteria.sortBy !== 'price') {
+      return matches;
+    }
+
+    const currency = criteria.currency || 'XRP';
+    const sorted = await this.quoteService!.sortByPrice(
+      matches,
+      match => match.profile.pricing ? { amount: match.profile.pricing.rate, currency: match.profile.pricing.currency } : undefined,
+      currency,
+      criteria.order
+    );
+    return sorted.map(({ item, quote }) => ({
+      ...item,
+      ...(quote && { normalizedPrice: { amount: quote.converted, currency } })
+    }));
   }
 }
-
@@ -0,0 +1,357 @@
+import { Client, Wallet, Payment, xrpToDrops, rippleTimeToISOTime } from 'xrpl';
+import { TradeRating, RatingVerificationResult, TradeSettlement } from '../types';
+import { DIDManager } from '../identity/DIDManager';
+import { EscrowManager } from '../escrow/EscrowManager';
+import { AssetRegistry } from '../currency/AssetRegistry';
+import { signPayload } from '../identity/signing';
+import { submitTransaction } from '../transactions/submit';
+
+const MAX_COMMENT_LENGTH = 280;
+
+/**
+ * Ratings and reviews that parties of a completed trade give each other
+ * Ratings are signed with the rater's XRPL key and sent to the rated party as xag:rating memos,
+ * so they sit in the rated account's history where ReputationService reads them
+ */
+export class RatingService {
+  private didManager: DIDManager;
+  private escrowManager: EscrowManager;
+  private assets: AssetRegistry;
+
+  constructor(private client: Client, options: { assets?: AssetRegistry } = {}) {
+    this.didManager = new DIDManager(client);
+    this.assets = options.assets || new AssetRegistry();
+    this.escrowManager = new EscrowManager(client, { assets: this.assets });
+  }
+
+  /**
+   * Creates a signed rating of the other party to a trade
+   * The rated party is read from the trade, so a rating can only name the rater's counterparty
+   */
+  async createRating(
+    raterWallet: Wallet,
+    raterDID: string,
+    tradeHash: string,
+    review: { score: number; comment?: string }
+  ): Promise<TradeRating> {
+    if (!Number.isInteger(review.score) || review.score < 1 || review.score > 5) {
+      throw new Error('Ratings are whole numbers from 1 to 5');
+    }
+    if (review.comment && review.comment.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    const raterAddress = this.didManager.resolveDID(raterDID);
+    if (raterAddress !== raterWallet.address) {
+      throw new Error('Ratings must be signed by the rater account');
+    }
+    const settlement = await this.escrowManager.getSettlement(tradeHash);
+    const ratee = settlement.owner === raterAddress ? settlement.destination : settlement.owner;
+    if (settlement.owner !== raterAddress && settlement.destination !== raterAddress) {
+      throw new Error(`${raterDID} is not a party to trade ${tradeHash}`);
+    }
+
+    const unsigned: Omit<TradeRating, 'signature'> = {
+      version: 1,
+      tradeHash,
+      rater: raterDID,
+      ratee,
+      score: review.score,
+      ...(review.comment && { comment: review.comment }),
+      issuedAt: new Date().toISOString()
+    };
+
+    return {
+      ...unsigned,
+      signature: {
+        publicKeyHex: raterWallet.publicKey,
+        value: signPayload(raterWallet, unsigned)
+      }
+    };
+  }
+
+  /**
+   * Records a rating on-ledger, sent from the rater to the rated party
+   * The trade must be fulfilled, and each party can rate a trade once
+   */
+  async submitRating(raterWallet: Wallet, rating: TradeRating): Promise<string> {
+    if (this.didManager.resolveDID(rating.rater) !== raterWallet.address) {
+      throw new Error('Ratings must be submitted from the rater account');
+    }
+
+    const verification = await this.verifyRating(rating);
+    if (!verification.valid) {
+      throw new Error(`Invalid rating: ${verification.errors.join('; ')}`);
+    }
+    if (await this.hasRated(raterWallet.address, rating.tradeHash)) {
+      throw new Error(`${rating.rater} has already rated trade ${rating.tradeHash}`);
+    }
+
+    const paymentTx: Payment = {
+      TransactionType: 'Payment',
+      Account: raterWallet.address,
+      Destination: rating.ratee,
+      Amount: xrpToDrops('0.000001'),
+      Memos: [{
+        Memo: {
+          MemoData: Buffer.from(JSON.stringify(rating)).toString('hex'),
+          MemoType: Buffer.from('application/json').toString('hex'),
+          MemoFormat: Buffer.from('xag:rating').toString('hex')
+        }
+      }]
+    };
+
+    const result = await submitTransaction(this.client, paymentTx, raterWallet, 'submit rating');
+
+    const txResult = result.meta?.TransactionResult;
+    if (txResult !== 'tesSUCCESS') {
+      throw new Error(`Failed to submit rating: ${txResult}`);
+    }
+    return result.hash;
+  }
+
+  /**
+   * Verifies a rating: that the rater and rated party are the two parties to a completed trade, its signature, and
+   * that the key controls the rater DID (or controlled it at recordedAt, the close time of the ledger that recorded
+   * the rating). issuedAt is the rater's own claim, so it is never used as the signing time.
+   * The cheap checks run first; a rating that fails them is not checked against the key history
+   */
+  async verifyRating(rating: TradeRating, recordedAt?: string): Promise<RatingVerificationResult> {
+    const errors = this.checkFields(rating);
+    if (errors.length > 0) {
+      return { valid: false, rating, errors };
+    }
+
+    try {
+      const settlement = await this.escrowManager.getSettlement(rating.tradeHash);
+      const rater = this.didManager.resolveDID(rating.rater);
+      const parties = [settlement.owner, settlement.destination];
+      if (!parties.includes(rater) || !parties.includes(rating.ratee) || rater === rating.ratee) {
+        errors.push(`Rater and rated party are not the two parties to trade ${rating.tradeHash}`);
+      } else if (settlement.method === 'payment') {
+        if (!this.isTradePayment(settlement.owner, settlement.destination, settlement.amount)) {
+          errors.push(`Transaction ${rating.tradeHash} is not a trade; only payments of a registered asset between holders can be rated`);
+        }
+      } else {
+        const { status } = await this.escrowManager.getTradeStatus(rating.tradeHash);
+        if (status !== 'fulfilled') {
+          errors.push(`Trade ${rating.tradeHash} is ${status}; only fulfilled trades can be rated`);
+        }
+      }
+    } catch (error: any) {
+      errors.push(`Trade ${rating.tradeHash} could not be read: ${error.message || error}`);
+    }
+    if (errors.length > 0) {
+      return { valid: false, rating, errors };
+    }
+
+    const { signature, ...unsigned } = rating;
+    try {
+      const signed = signature && await this.didManager.verifySignature(
+        rating.rater,
+        unsigned,
+        signature.value,
+        signature.publicKeyHex,
+        recordedAt
+      );
+      if (!signed) {
+        errors.push('Invalid rating signature');
+      }
+    } catch (error: any) {
+      errors.push(`Rater DID could not be resolved: ${error.message || error}`);
+    }
+
+    return { valid: errors.length === 0, rating, errors };
+  }
+
+  /**
+   * Reads and verifies the ratings an account has received, oldest first
+   */
+  async getRatings(did: string, maxTransactions: number = 2000): Promise<RatingVerificationResult[]> {
+    const address = this.didManager.resolveDID(did);
+    const transactions: any[] = [];
+    let marker: unknown;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: address,
+        limit: 200,
+        ...(marker !== undefined && { marker })
+      });
+      transactions.push(...(accountTx.result.transactions || []));
+      marker = accountTx.result.marker;
+    } while (marker !== undefined && transactions.length < maxTransactions);
+
+    return await this.getRatingsFromHistory(address, transactions);
+  }
+
+  /**
+   * Verifies the ratings in an account's history, oldest first
+   * Only the first rating from each party for each trade counts; later ones are reported as invalid.
+   * A rating must be sent by the rater's own account, so nobody can replay someone else's rating.
+   */
+  async getRatingsFromHistory(address: string, transactions: any[]): Promise<RatingVerificationResult[]> {
+    const received: { rating: TradeRating; sender: string; ledgerHash: string; recordedAt?: string }[] = [];
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (txData.Destination !== address || tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      for (const memo of txData.Memos || []) {
+        try {
+          const memoFormat = memo.Memo?.MemoFormat;
+          if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === 'xag:rating') {
+            const rating: TradeRating = JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+            received.push({
+              rating,
+              sender: txData.Account,
+              ledgerHash: txData.hash || tx.hash,
+              recordedAt: tx.close_time_iso || (txData.date ? rippleTimeToISOTime(txData.date) : undefined)
+            });
+          }
+        } catch (error) {
+          continue;
+        }
+      }
+    }
+
+    // account_tx returns newest first
+    received.reverse();
+
+    // Trades the account took part in are usually in the same history; rule out the ones that can't be rated locally
+    const transactionsByHash: Map<string, any> = new Map();
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      transactionsByHash.set(txData.hash || tx.hash, txData);
+    }
+
+    const results: RatingVerificationResult[] = [];
+    const rated: Set<string> = new Set();
+    for (const { rating, sender, ledgerHash, recordedAt } of received) {
+      const errors: string[] = this.checkFields(rating);
+      let rater: string | undefined;
+      try {
+        rater = this.didManager.resolveDID(rating.rater);
+      } catch (error) {
+        rater = undefined;
+      }
+
+      if (rating.ratee !== address) {
+        errors.push(`Rating is about ${rating.ratee}, not ${address}`);
+      }
+      if (rater !== sender) {
+        errors.push(`Rating by ${rating.rater} was sent from ${sender}`);
+      }
+      const key = `${rating.tradeHash}:${rater}`;
+      if (rated.has(key)) {
+        errors.push(`${rating.rater} already rated trade ${rating.tradeHash}`);
+      }
+      const trade = transactionsByHash.get(rating.tradeHash);
+      if (trade && !this.isRateable(trade)) {
+        errors.push(`Transaction ${rating.tradeHash} is not a trade that can be rated`);
+      }
+
+      if (errors.length > 0) {
+        results.push({ valid: false, rating, ledgerHash, errors });
+        continue;
+      }
+      const verification = await this.verifyRating(rating, recordedAt);
+      if (verification.valid) {
+        rated.add(key);
+      }
+      results.push({ ...verification, ledgerHash });
+    }
+
+    return results;
+  }
+
+  /**
+   * Checks a rating's own fields, which needs no ledger reads
+   */
+  private checkFields(rating: TradeRating): string[] {
+    const errors: string[] = [];
+    if (rating.version !== 1) {
+      errors.push(`Unsupported rating version: ${rating.version}`);
+    }
+    if (!Number.isInteger(rating.score) || rating.score < 1 || rating.score > 5) {
+      errors.push(`Rating score must be 1 to 5, not ${rating.score}`);
+    }
+    if (rating.comment && rating.comment.length > MAX_COMMENT_LENGTH) {
+      errors.push(`Comment is longer than ${MAX_COMMENT_LENGTH} characters`);
+    }
+    if (typeof rating.tradeHash !== 'string' || !/^[0-9A-F]{64}$/i.test(rating.tradeHash)) {
+      errors.push(`Invalid trade hash: ${rating.tradeHash}`);
+    }
+    return errors;
+  }
+
+  /**
+   * Whether a transaction can create a rateable trade: an escrow or check (rateable once finished or cashed),
+   * or a payment of a registered asset between holders, as ReputationService counts completed trades
+   */
+  private isRateable(txData: any): boolean {
+    switch (txData.TransactionType) {
+      case 'EscrowCreate':
+      case 'CheckCreate':
+        return true;
+      case 'Payment':
+        return this.isTradePayment(txData.Account, txData.Destination, txData.Amount ?? txData.DeliverMax);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Payments only count as trades in a registered asset, between two holders (not issuance, redemption or
+   * payments to oneself). XRP payments, such as the 1-drop payments that carry ratings, never count
+   */
+  private isTradePayment(from: string, to: string, amount: TradeSettlement['amount'] | undefined): boolean {
+    return typeof amount === 'object' &&
+      this.assets.isRegistered(amount.currency, amount.issuer) &&
+      from !== to &&
+      from !== amount.issuer &&
+      to !== amount.issuer;
+  }
+
+  /**
+   * Whether an account has already sent a rating for a trade
+   */
+  private async hasRated(address: string, tradeHash: string): Promise<boolean> {
+    let marker: unknown;
+    let scanned = 0;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: address,
+        limit: 200,
+        ...(marker !== undefined && { marker })
+      });
+
+      for (const tx of accountTx.result.transactions || []) {
+        const txData: any = tx.tx || tx.tx_json || {};
+        if (txData.Account !== address || (tx.meta as any)?.TransactionResult !== 'tesSUCCESS') continue;
+
+        for (const memo of txData.Memos || []) {
+          try {
+            const memoFormat = memo.Memo?.MemoFormat;
+            if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === 'xag:rating') {
+              const rating: TradeRating = JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+              if (rating.tradeHash === tradeHash) {
+                return true;
+              }
+            }
+          } catch (error) {
+            continue;
+          }
+        }
+      }
+
+      scanned += (accountTx.result.transactions || []).length;
+      marker = accountTx.result.marker;
+    } while (marker !== undefined && scanned < 2000);
+
+    return false;
+  }
+}
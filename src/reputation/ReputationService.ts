@@ -1,64 +1,943 @@
-import { Client } from 'xrpl';
-import { ReputationResult } from '../types';
+import { Client, Wallet, Amount, rippleTimeToUnixTime, deriveAddress } from 'xrpl';
+import {
+  ReputationResult,
+  ReputationFactors,
+  ReputationBreakdown,
+  ReputationProof,
+  ReputationProofVerificationResult,
+  ReputationHistory,
+  ReputationHistoryBucket,
+  ReputationActivity,
+  RatingVerificationResult,
+  Negotiation
+} from '../types';
 import { DIDManager } from '../identity/DIDManager';
+import { signPayload, verifyPayloadSignature } from '../identity/signing';
+import { EscrowManager } from '../escrow/EscrowManager';
+import { AssetRegistry } from '../currency/AssetRegistry';
+import { Money } from '../currency/Money';
+import { QuoteService } from '../pricing/QuoteService';
+import { RatingService } from './RatingService';
+import { DisputeService } from '../disputes/DisputeService';
 
+export const DEFAULT_REPUTATION_FACTORS: ReputationFactors = {
+  tradePoints: 10,
+  volumePoints: 5,
+  repeatDiscount: 0.5,
+  halfLifeDays: 180,
+  linkedPenalty: 10,
+  cyclePenalty: 10,
+  cycleWindowDays: 30,
+  cycleTolerance: 0.05,
+  disputePenalty: 25,
+  cancelPenalty: 10,
+  failurePenalty: 2,
+  rejectionPenalty: 1,
+  abandonPenalty: 3,
+  abandonAfterDays: 7,
+  cancelledIntentPenalty: 1,
+  ratingPoints: 5,
+  maxTransactions: 10000
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Transactions that settle trades; their failures count against the account
+const SETTLEMENT_TYPES = ['EscrowCreate', 'EscrowFinish', 'CheckCreate', 'CheckCash'];
+
+// Trades without an xag:category memo
+const UNCATEGORIZED = 'uncategorized';
+
+type CompletedTrade = { hash: string; buyer: string; seller: string; counterparty: string; amount: Money; time: number; category?: string };
+type CancelledTrade = { hash: string; buyer: string; seller: string; time: number; lapsed: boolean; category?: string };
+type TradeClassification = {
+  linkedAccounts: Set<string>;
+  trades: CompletedTrade[];
+  selfDealing: CompletedTrade[];
+  cycles: Set<string>;
+  counted: CompletedTrade[]; // Newest first
+};
+type ActivityTotals = { trades: number; volumeXRP: number; cancellations: number; ratings: number; ratingTotal: number };
+type NegotiationOutcomes = { rejected: number; abandoned: number; hashes: string[] };
+type LedgerRange = { first: number; last: number };
+
+/**
+ * Scores agents from their ledger history
+ * Each completed trade (a finished escrow, a cashed check or a registered-asset payment) earns points,
+ * plus more for its value. Repeat trades with one counterparty earn less each time and old trades fade,
+ * so a score can't be built by trading with a single partner or coasting on past activity.
+ * Trades with linked accounts, and trades a counterparty reversed, earn nothing and cost points.
+ * So do the account's failures: escrows and checks it let lapse as seller, failed settlement transactions,
+ * rejected or abandoned negotiations, cancelled intents and lost disputes.
+ * Verified ratings from counterparties add or deduct points, one per party per trade.
+ */
 export class ReputationService {
   private didManager: DIDManager;
+  private escrowManager: EscrowManager;
+  private assets: AssetRegistry;
+  private quoteService?: QuoteService;
+  private ratingService: RatingService;
+  private disputeService: DisputeService;
+  private factors: ReputationFactors;
 
-  constructor(private client: Client) {
+  constructor(
+    private client: Client,
+    options: { assets?: AssetRegistry; quoteService?: QuoteService; factors?: Partial<ReputationFactors> } = {}
+  ) {
     this.didManager = new DIDManager(client);
+    this.assets = options.assets || new AssetRegistry();
+    this.escrowManager = new EscrowManager(client, { assets: this.assets });
+    this.quoteService = options.quoteService;
+    this.ratingService = new RatingService(client, { assets: this.assets });
+    this.disputeService = new DisputeService(client);
+    this.factors = { ...DEFAULT_REPUTATION_FACTORS, ...options.factors };
   }
 
   /**
    * Gets reputation for an agent by DID
+   * Reads the account's history page by page, up to maxTransactions
    */
   async getReputation(did: string): Promise<ReputationResult> {
+    return (await this.assess(did)).reputation;
+  }
+
+  /**
+   * Creates a signed snapshot of the agent's reputation, for counterparties that can't read its history
+   * The proof names the ledgers the history was read from and the transactions behind the score,
+   * and is signed with the agent's own key
+   */
+  async exportProof(wallet: Wallet, did: string): Promise<ReputationProof> {
+    if (this.didManager.resolveDID(did) !== wallet.address) {
+      throw new Error('Reputation proofs must be signed by the agent account');
+    }
+
+    const { reputation, transactions, ledgerRange } = await this.assess(did);
+    const unsigned: Omit<ReputationProof, 'signature'> = {
+      version: 1,
+      reputation,
+      networkId: this.didManager.getNetworkId(),
+      ledgerRange,
+      transactions,
+      issuedAt: new Date().toISOString()
+    };
+
+    return {
+      ...unsigned,
+      signature: {
+        publicKeyHex: wallet.publicKey,
+        value: signPayload(wallet, unsigned)
+      }
+    };
+  }
+
+  /**
+   * Verifies a reputation proof
+   * Without a sample the check is offline: the signature, and that the key is the account's master key. That only
+   * shows who wrote the proof, so the result is marked selfAttested.
+   * With a sample, the signing key must control the DID now (so regular keys are accepted), and that many of the
+   * proof's transactions are re-read to check they were validated in its ledger range and involve the account.
+   * The figures themselves are the agent's claim; sampling makes a forged history likely to show.
+   */
+  async verifyProof(proof: ReputationProof, options: { sample?: number } = {}): Promise<ReputationProofVerificationResult> {
+    const errors: string[] = [];
+    const sample = options.sample ?? 0;
+    const { signature, ...unsigned } = proof;
+    const { reputation, ledgerRange } = proof;
+
+    if (proof.version !== 1) {
+      errors.push(`Unsupported proof version: ${proof.version}`);
+    }
+    try {
+      const parsed = this.didManager.parseDID(reputation.did);
+      if (parsed.address !== reputation.address) {
+        errors.push(`DID ${reputation.did} is not the account ${reputation.address}`);
+      }
+      if (parsed.networkId !== undefined && parsed.networkId !== proof.networkId) {
+        errors.push(`DID ${reputation.did} belongs to network ${parsed.networkId}, not ${proof.networkId}`);
+      }
+    } catch (error: any) {
+      errors.push(`Invalid DID: ${error.message || error}`);
+    }
+    if (!ledgerRange || !(ledgerRange.first <= ledgerRange.last)) {
+      errors.push('Invalid ledger range');
+    }
+
+    if (!signature || !verifyPayloadSignature(unsigned, signature.value, signature.publicKeyHex)) {
+      errors.push('Invalid proof signature');
+    }
+
+    const sampled: string[] = [];
+    if (sample <= 0) {
+      if (signature && deriveAddress(signature.publicKeyHex) !== reputation.address) {
+        errors.push('Proof is signed with a regular key, which can only be checked on-ledger; verify with a sample');
+      }
+      return { valid: errors.length === 0, proof, checkedOnLedger: false, selfAttested: true, sampled, errors };
+    }
+
+    if (proof.networkId !== this.didManager.getNetworkId()) {
+      errors.push(`Proof is from network ${proof.networkId}, but client is connected to network ${this.didManager.getNetworkId()}`);
+      return { valid: false, proof, checkedOnLedger: true, selfAttested: false, sampled, errors };
+    }
+    // issuedAt is the signer's own claim, so a key revoked since can't vouch for the proof
+    if (signature && !(await this.didManager.isKeyCurrent(reputation.did, signature.publicKeyHex))) {
+      errors.push(`Signing key does not control ${reputation.did}`);
+    }
+
+    // Sample without replacement
+    const remaining = [...proof.transactions];
+    while (sampled.length < sample && remaining.length > 0) {
+      const [hash] = remaining.splice(Math.floor(Math.random() * remaining.length), 1);
+      sampled.push(hash);
+
+      try {
+        const response = await this.client.request({ command: 'tx', transaction: hash });
+        const result: any = response.result;
+        const txData: any = result.tx_json || result;
+        const ledgerIndex = result.ledger_index ?? txData.ledger_index;
+
+        if (!result.validated) {
+          errors.push(`Transaction ${hash} is not validated`);
+        } else if (ledgerIndex < ledgerRange.first || ledgerIndex > ledgerRange.last) {
+          errors.push(`Transaction ${hash} is in ledger ${ledgerIndex}, outside the proof's range`);
+        } else if (!this.involves(reputation.address, txData, result.meta)) {
+          errors.push(`Transaction ${hash} does not involve ${reputation.address}`);
+        }
+      } catch (error: any) {
+        errors.push(`Transaction ${hash} could not be read: ${error.message || error}`);
+      }
+    }
+
+    return { valid: errors.length === 0, proof, checkedOnLedger: true, selfAttested: false, sampled, errors };
+  }
+
+  /**
+   * Buckets the account's reputation activity by day or week (UTC; weeks start on Monday), oldest first
+   * Trades, volume, cancellations and ratings are counted as getReputation counts them. Every bucket from the
+   * first activity (or `since`) to now is returned, each broken down by counterparty and by trade category.
+   * Buckets never start before the oldest transaction read, so an early `since` can't ask for unbounded buckets;
+   * historyComplete says whether what was read covers the whole requested period.
+   */
+  async getHistory(
+    did: string,
+    options: { interval?: 'day' | 'week'; since?: Date | string } = {}
+  ): Promise<ReputationHistory> {
     const address = this.didManager.resolveDID(did);
-    
-    const accountTx = await this.client.request({
-      command: 'account_tx',
-      account: address,
-      limit: 100
-    });
+    const interval = options.interval || 'day';
+    const { transactions, complete } = await this.getAccountHistory(address, this.factors.maxTransactions);
+    const { linkedAccounts, counted } = this.classifyTrades(address, transactions);
+    const cancelled = this.getCancelledTrades(address, transactions);
+    const { counted: ratings } = await this.getCounterpartyRatings(address, transactions, linkedAccounts);
+
+    const events: { time: number; counterparty: string; category: string; activity: Partial<ActivityTotals> }[] = [];
+    for (const trade of counted) {
+      const value = await this.getXRPValue(trade.amount);
+      events.push({
+        time: trade.time,
+        counterparty: trade.counterparty,
+        category: trade.category || UNCATEGORIZED,
+        activity: { trades: 1, volumeXRP: value ?? 0 }
+      });
+    }
+    for (const trade of cancelled) {
+      events.push({
+        time: trade.time,
+        counterparty: trade.buyer === address ? trade.seller : trade.buyer,
+        category: trade.category || UNCATEGORIZED,
+        activity: { cancellations: 1 }
+      });
+    }
+    // Ratings fall in the bucket they were recorded in, under the rated trade's category
+    const categories = this.getTradeCategories(transactions);
+    const closeTimes: Map<string, number> = new Map(
+      transactions.map((tx: any) => [this.getHash(tx), this.getCloseTime(tx, tx.tx || tx.tx_json || {})])
+    );
+    for (const result of ratings) {
+      events.push({
+        time: closeTimes.get(result.ledgerHash!) ?? Date.parse(result.rating.issuedAt),
+        counterparty: this.didManager.resolveDID(result.rating.rater),
+        category: categories.get(result.rating.tradeHash) || UNCATEGORIZED,
+        activity: { ratings: 1, ratingTotal: result.rating.score }
+      });
+    }
+
+    const since = options.since !== undefined ? new Date(options.since).getTime() : undefined;
+    if (since !== undefined && isNaN(since)) {
+      throw new Error(`Invalid since date: ${options.since}`);
+    }
+    const included = events.filter(event => since === undefined || event.time >= since);
+    // Nothing is known before the oldest transaction read (the account's first, if the history is complete)
+    const oldestTx = transactions[transactions.length - 1];
+    const oldest = oldestTx ? this.getCloseTime(oldestTx, oldestTx.tx || oldestTx.tx_json || {}) : Infinity;
+    const first = Math.max(since ?? Math.min(...included.map(event => event.time)), oldest);
+    const step = interval === 'week' ? 7 * DAY_MS : DAY_MS;
+
+    const buckets: { start: number; totals: ActivityTotals; byCounterparty: Map<string, ActivityTotals>; byCategory: Map<string, ActivityTotals> }[] = [];
+    if (isFinite(first)) {
+      for (let start = this.getBucketStart(first, interval); start <= Date.now(); start += step) {
+        buckets.push({ start, totals: this.emptyTotals(), byCounterparty: new Map(), byCategory: new Map() });
+      }
+    }
+    for (const event of included) {
+      const bucket = buckets[Math.floor((event.time - buckets[0].start) / step)];
+      if (!bucket) continue;
 
-    const allTransactions = accountTx.result.transactions || [];
+      const byCounterparty = bucket.byCounterparty.get(event.counterparty) || this.emptyTotals();
+      const byCategory = bucket.byCategory.get(event.category) || this.emptyTotals();
+      for (const totals of [bucket.totals, byCounterparty, byCategory]) {
+        for (const key of Object.keys(event.activity) as (keyof ActivityTotals)[]) {
+          totals[key] += event.activity[key]!;
+        }
+      }
+      bucket.byCounterparty.set(event.counterparty, byCounterparty);
+      bucket.byCategory.set(event.category, byCategory);
+    }
+
+    return {
+      did,
+      address,
+      interval,
+      buckets: buckets.map((bucket): ReputationHistoryBucket => ({
+        start: new Date(bucket.start).toISOString(),
+        end: new Date(bucket.start + step).toISOString(),
+        ...this.toActivity(bucket.totals),
+        byCounterparty: Object.fromEntries(Array.from(bucket.byCounterparty, ([key, totals]) => [key, this.toActivity(totals)])),
+        byCategory: Object.fromEntries(Array.from(bucket.byCategory, ([key, totals]) => [key, this.toActivity(totals)]))
+      })),
+      transactionsScanned: transactions.length,
+      historyComplete: complete || (since !== undefined && since >= oldest)
+    };
+  }
+
+  /**
+   * Scores an account, keeping the ledger range read and the transactions behind the score
+   */
+  private async assess(did: string): Promise<{ reputation: ReputationResult; transactions: string[]; ledgerRange: LedgerRange }> {
+    const address = this.didManager.resolveDID(did);
+    const factors = this.factors;
+    const { transactions: allTransactions, complete, ledgerRange } = await this.getAccountHistory(address, factors.maxTransactions);
     
-    // Count successful EscrowFinish transactions (seller side)
+    // Failed transactions stay in the history with a tec result, so only tesSUCCESS counts
     // Check both tx.TransactionType and tx_json.TransactionType
-    const successfulFinishes = allTransactions.filter((tx: any) => {
-      const txType = tx.tx?.TransactionType || tx.tx_json?.TransactionType;
-      const result = tx.meta?.TransactionResult || tx.meta?.delivered_amount !== undefined;
-      return txType === 'EscrowFinish' && (result === 'tesSUCCESS' || result !== undefined);
-    }).length;
+    const succeeded = (tx: any, type: string) =>
+      (tx.tx?.TransactionType || tx.tx_json?.TransactionType) === type && tx.meta?.TransactionResult === 'tesSUCCESS';
+
+    // Count successful EscrowFinish transactions (seller side)
+    const successfulFinishes = allTransactions.filter((tx: any) => succeeded(tx, 'EscrowFinish')).length;
 
     // Count successful EscrowCreate transactions (buyer side)
-    const successfulCreates = allTransactions.filter((tx: any) => {
-      const txType = tx.tx?.TransactionType || tx.tx_json?.TransactionType;
-      const result = tx.meta?.TransactionResult || tx.meta?.delivered_amount !== undefined;
-      return txType === 'EscrowCreate' && (result === 'tesSUCCESS' || result !== undefined);
-    }).length;
+    const successfulCreates = allTransactions.filter((tx: any) => succeeded(tx, 'EscrowCreate')).length;
 
-    // Count successful Payment transactions (for RLUSD trades)
+    // Count successful Payment transactions in registered assets (e.g. RLUSD trades)
     const successfulPayments = allTransactions.filter((tx: any) => {
-      const txType = tx.tx?.TransactionType || tx.tx_json?.TransactionType;
-      const result = tx.meta?.TransactionResult || tx.meta?.delivered_amount !== undefined;
       const amount = tx.tx?.Amount || tx.tx_json?.Amount;
-      const isRLUSD = typeof amount === 'object' && amount?.currency === 'RLUSD';
-      return txType === 'Payment' && (result === 'tesSUCCESS' || result !== undefined) && isRLUSD;
+      const isRegisteredAsset = typeof amount === 'object' && this.assets.isRegistered(amount.currency, amount.issuer);
+      return succeeded(tx, 'Payment') && isRegisteredAsset;
     }).length;
 
-    const totalSuccessful = successfulFinishes + successfulCreates + successfulPayments;
-    const score = totalSuccessful * 10;
+    const { linkedAccounts, trades, selfDealing, cycles, counted } = this.classifyTrades(address, allTransactions);
 
-    return {
+    const breakdown: ReputationBreakdown = {
+      trades: 0, volume: 0, diversity: 0, decay: 0, selfDealing: 0, cycles: 0,
+      disputes: 0, cancellations: 0, failures: 0, negotiations: 0, intents: 0, ratings: 0
+    };
+    const tradesWith: Map<string, number> = new Map();
+    const now = Date.now();
+    let volumeXRP = 0;
+
+    // Newest trades with a counterparty earn in full; earlier ones are discounted
+    for (const trade of counted) {
+      const value = await this.getXRPValue(trade.amount);
+      const volume = value !== undefined ? factors.volumePoints * Math.log10(1 + value) : 0;
+      const points = factors.tradePoints + volume;
+
+      const repeats = tradesWith.get(trade.counterparty) || 0;
+      tradesWith.set(trade.counterparty, repeats + 1);
+      const diversity = Math.pow(factors.repeatDiscount, repeats);
+      const decay = factors.halfLifeDays > 0 ? Math.pow(0.5, Math.max(0, now - trade.time) / (factors.halfLifeDays * DAY_MS)) : 1;
+
+      breakdown.trades += factors.tradePoints;
+      breakdown.volume += volume;
+      breakdown.diversity -= points * (1 - diversity);
+      breakdown.decay -= points * diversity * (1 - decay);
+      volumeXRP += value ?? 0;
+    }
+
+    const disputes = await this.getDisputesLost(address, allTransactions);
+    const cancelled = this.getCancelledTrades(address, allTransactions);
+    const lapsedAsSeller = cancelled.filter(trade => trade.lapsed && trade.seller === address).length;
+    const failed = allTransactions.filter((tx: any) => {
+      const txData: any = tx.tx || tx.tx_json || {};
+      return txData.Account === address && tx.meta?.TransactionResult !== undefined && tx.meta.TransactionResult !== 'tesSUCCESS';
+    });
+    const settlementFailures = failed.filter((tx: any) => this.isSettlement(tx.tx || tx.tx_json || {}));
+    const failedSettlements = settlementFailures.length;
+    const negotiations = this.getNegotiationOutcomes(address, allTransactions);
+    const intents = this.getCancelledIntents(address, allTransactions);
+    const cancelledIntents = intents.length;
+
+    const { ratings, counted: counterpartyRatings } = await this.getCounterpartyRatings(address, allTransactions, linkedAccounts);
+    const ratingTotal = counterpartyRatings.reduce((sum, result) => sum + result.rating.score, 0);
+
+    breakdown.selfDealing = -factors.linkedPenalty * selfDealing.length;
+    breakdown.cycles = -factors.cyclePenalty * cycles.size;
+    breakdown.disputes = -factors.disputePenalty * disputes.length;
+    breakdown.cancellations = -factors.cancelPenalty * lapsedAsSeller;
+    breakdown.failures = -factors.failurePenalty * failedSettlements;
+    breakdown.negotiations = -(factors.rejectionPenalty * negotiations.rejected + factors.abandonPenalty * negotiations.abandoned);
+    breakdown.intents = -factors.cancelledIntentPenalty * cancelledIntents;
+    // 3 stars is neutral; 5 earns ratingPoints and 1 deducts as many
+    breakdown.ratings = factors.ratingPoints * (ratingTotal - 3 * counterpartyRatings.length) / 2;
+    const outcomes = counted.length + cancelled.length + failedSettlements;
+
+    const total = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+    for (const key of Object.keys(breakdown) as (keyof ReputationBreakdown)[]) {
+      breakdown[key] = Math.round(breakdown[key] * 100) / 100;
+    }
+
+    const reputation: ReputationResult = {
       did,
       address,
-      score,
-      successfulTrades: totalSuccessful,
+      score: Math.max(0, Math.round(total * 100) / 100),
+      successfulTrades: counted.length,
       escrowCreates: successfulCreates,
       escrowFinishes: successfulFinishes,
-      payments: successfulPayments
+      payments: successfulPayments,
+      disputesLost: disputes.length,
+      volumeXRP: Math.round(volumeXRP * 1e6) / 1e6,
+      counterparties: tradesWith.size,
+      linkedAccounts: Array.from(linkedAccounts),
+      selfDealingTrades: selfDealing.length,
+      cycleTrades: cycles.size,
+      cancelledTrades: cancelled.length,
+      lapsedAsSeller,
+      failedTransactions: failed.length,
+      failedSettlements,
+      rejectedNegotiations: negotiations.rejected,
+      abandonedNegotiations: negotiations.abandoned,
+      cancelledIntents,
+      ratings: counterpartyRatings.length,
+      ...(counterpartyRatings.length > 0 && { averageRating: Math.round((ratingTotal / counterpartyRatings.length) * 100) / 100 }),
+      ignoredRatings: ratings.length - counterpartyRatings.length,
+      ...(outcomes > 0 && { successRatio: Math.round((counted.length / outcomes) * 1000) / 1000 }),
+      breakdown,
+      factors: { ...factors },
+      transactionsScanned: allTransactions.length,
+      historyComplete: complete
+    };
+
+    // Every transaction behind a figure, including trades that were discounted or not counted
+    const supporting = new Set<string>([
+      ...trades.map(trade => trade.hash),
+      ...cancelled.map(trade => trade.hash),
+      ...settlementFailures.map((tx: any) => this.getHash(tx)),
+      ...negotiations.hashes,
+      ...intents,
+      ...disputes,
+      ...ratings.filter(result => result.ledgerHash).map(result => result.ledgerHash!)
+    ]);
+
+    return { reputation, transactions: Array.from(supporting), ledgerRange };
+  }
+
+  /**
+   * Separates trades with the account itself or linked accounts, and trades that were reversed, from those that count
+   */
+  private classifyTrades(address: string, transactions: any[]): TradeClassification {
+    const linkedAccounts = this.findLinkedAccounts(address, transactions);
+    const trades = this.getCompletedTrades(address, transactions);
+    const selfDealing = trades.filter(trade => trade.counterparty === address || linkedAccounts.has(trade.counterparty));
+    const cycles = this.findCycles(trades.filter(trade => !selfDealing.includes(trade)));
+    const counted = trades
+      .filter(trade => !selfDealing.includes(trade) && !cycles.has(trade.hash))
+      .sort((a, b) => b.time - a.time);
+
+    return { linkedAccounts, trades, selfDealing, cycles, counted };
+  }
+
+  /**
+   * Reads the ratings in the account's history and the valid ones that count
+   * Ratings from linked accounts are ignored, like trades with them
+   */
+  private async getCounterpartyRatings(
+    address: string,
+    transactions: any[],
+    linkedAccounts: Set<string>
+  ): Promise<{ ratings: RatingVerificationResult[]; counted: RatingVerificationResult[] }> {
+    const ratings = await this.ratingService.getRatingsFromHistory(address, transactions);
+    const counted = ratings.filter(result =>
+      result.valid && !linkedAccounts.has(this.didManager.resolveDID(result.rating.rater))
+    );
+    return { ratings, counted };
+  }
+
+  /**
+   * Reads trade categories from xag:category memos, keyed by the creating transaction's hash
+   * and by what later transactions use to name the trade: escrow owner and sequence, or check ID
+   */
+  private getTradeCategories(transactions: any[]): Map<string, string> {
+    const categories: Map<string, string> = new Map();
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+      const [memo] = this.parseMemos<{ category?: string }>(txData.Memos, 'xag:category');
+      if (typeof memo?.category !== 'string') continue;
+
+      categories.set(this.getHash(tx), memo.category);
+      if (txData.TransactionType === 'EscrowCreate') {
+        categories.set(`${txData.Account}:${txData.TicketSequence ?? txData.Sequence}`, memo.category);
+      }
+      if (txData.TransactionType === 'CheckCreate') {
+        const check = (tx.meta.AffectedNodes || []).find((affected: any) => affected.CreatedNode?.LedgerEntryType === 'Check');
+        if (check) {
+          categories.set(check.CreatedNode.LedgerIndex, memo.category);
+        }
+      }
+    }
+
+    return categories;
+  }
+
+  /**
+   * Looks up the category of the trade a transaction finishes, cashes, cancels or pays
+   */
+  private getCategory(txData: any, hash: string, categories: Map<string, string>): string | undefined {
+    switch (txData.TransactionType) {
+      case 'EscrowFinish':
+      case 'EscrowCancel':
+        return categories.get(`${txData.Owner}:${txData.OfferSequence}`);
+      case 'CheckCash':
+      case 'CheckCancel':
+        return categories.get(txData.CheckID);
+      default:
+        return categories.get(hash);
+    }
+  }
+
+  /**
+   * Reads trades the account completed as buyer or seller: escrows finished, checks cashed,
+   * and registered-asset payments between holders (not issuance, redemption or conversions to itself)
+   */
+  private getCompletedTrades(address: string, transactions: any[]): CompletedTrade[] {
+    const trades: CompletedTrade[] = [];
+    const categories = this.getTradeCategories(transactions);
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+      const hash = txData.hash || tx.hash;
+
+      let trade: { buyer: string; seller: string; amount: Amount } | undefined;
+      switch (txData.TransactionType) {
+        case 'EscrowFinish': {
+          const escrow = this.findDeletedNode(tx.meta, 'Escrow');
+          if (escrow) {
+            trade = { buyer: escrow.Account, seller: escrow.Destination, amount: escrow.Amount };
+          }
+          break;
+        }
+        case 'CheckCash': {
+          const check = this.findDeletedNode(tx.meta, 'Check');
+          if (check) {
+            trade = { buyer: check.Account, seller: check.Destination, amount: txData.Amount ?? txData.DeliverMin ?? check.SendMax };
+          }
+          break;
+        }
+        case 'Payment': {
+          const amount = tx.meta.delivered_amount ?? txData.Amount ?? txData.DeliverMax;
+          const isTrade = typeof amount === 'object' &&
+            this.assets.isRegistered(amount.currency, amount.issuer) &&
+            txData.Account !== txData.Destination &&
+            txData.Account !== amount.issuer &&
+            txData.Destination !== amount.issuer;
+          if (isTrade) {
+            trade = { buyer: txData.Account, seller: txData.Destination, amount };
+          }
+          break;
+        }
+      }
+      if (!trade || (trade.buyer !== address && trade.seller !== address)) continue;
+
+      trades.push({
+        hash,
+        buyer: trade.buyer,
+        seller: trade.seller,
+        counterparty: trade.buyer === address ? trade.seller : trade.buyer,
+        amount: Money.fromLedgerAmount(
+          trade.amount,
+          typeof trade.amount === 'string' ? 'XRP' : this.assets.identify(trade.amount.currency, trade.amount.issuer)
+        ),
+        time: this.getCloseTime(tx, txData),
+        category: this.getCategory(txData, hash, categories)
+      });
+    }
+
+    return trades;
+  }
+
+  /**
+   * Reads escrows and checks the account was party to that were cancelled instead of finished or cashed
+   * A trade lapsed only if it was cancelled once its CancelAfter (Expiration, for checks) had passed; the buyer
+   * can cancel its own check at any time, which is no failure of the seller's
+   */
+  private getCancelledTrades(address: string, transactions: any[]): CancelledTrade[] {
+    const cancelled: CancelledTrade[] = [];
+    const categories = this.getTradeCategories(transactions);
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      const entryType = txData.TransactionType === 'EscrowCancel' ? 'Escrow' : txData.TransactionType === 'CheckCancel' ? 'Check' : undefined;
+      const entry = entryType && this.findDeletedNode(tx.meta, entryType);
+      if (entry && (entry.Account === address || entry.Destination === address)) {
+        const hash = this.getHash(tx);
+        const time = this.getCloseTime(tx, txData);
+        const expiry = entryType === 'Escrow' ? entry.CancelAfter : entry.Expiration;
+        cancelled.push({
+          hash,
+          buyer: entry.Account,
+          seller: entry.Destination,
+          time,
+          lapsed: expiry !== undefined && rippleTimeToUnixTime(expiry) <= time,
+          category: this.getCategory(txData, hash, categories)
+        });
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Whether a transaction settles a trade: escrows, checks, and payments of issued currencies or across currencies
+   */
+  private isSettlement(txData: any): boolean {
+    if (SETTLEMENT_TYPES.includes(txData.TransactionType)) {
+      return true;
+    }
+    return txData.TransactionType === 'Payment' && (typeof txData.Amount === 'object' || txData.SendMax !== undefined);
+  }
+
+  /**
+   * Reads how the account's negotiations ended, from the latest message of each in ledger order
+   * Messages count only when one participant sent them to the other, and a negotiation counts only once the
+   * account has sent a message in it, so nobody can charge the account for negotiations it never took part in.
+   * A rejection counts against the party that sent it. A negotiation is abandoned when the counterparty made the
+   * last offer and the account hasn't answered within abandonAfterDays of its ledger close time.
+   */
+  private getNegotiationOutcomes(address: string, transactions: any[]): NegotiationOutcomes {
+    const negotiations: Map<string, {
+      participants: string[];
+      joined: boolean; // The account sent a message
+      latest: { status: Negotiation['status']; sender: string; time: number; hash: string };
+    }> = new Map();
+
+    // account_tx returns newest first
+    for (const tx of [...transactions].reverse()) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      for (const negotiation of this.parseMemos<Negotiation>(txData.Memos, 'xag:negotiation')) {
+        const participants = this.getParticipants(negotiation);
+        if (!participants || !participants.includes(address)) continue;
+        if (!participants.includes(txData.Account) || !participants.includes(txData.Destination) || txData.Account === txData.Destination) continue;
+
+        // The first message fixes who is negotiating
+        const known = negotiations.get(negotiation.negotiationId);
+        if (known && known.participants.join() !== participants.join()) continue;
+
+        negotiations.set(negotiation.negotiationId, {
+          participants,
+          joined: (known?.joined ?? false) || txData.Account === address,
+          latest: { status: negotiation.status, sender: txData.Account, time: this.getCloseTime(tx, txData), hash: this.getHash(tx) }
+        });
+      }
+    }
+
+    const outcomes: NegotiationOutcomes = { rejected: 0, abandoned: 0, hashes: [] };
+    const abandonBefore = Date.now() - this.factors.abandonAfterDays * DAY_MS;
+    for (const { joined, latest } of negotiations.values()) {
+      if (!joined) continue;
+
+      if (latest.status === 'rejected' && latest.sender === address) {
+        outcomes.rejected++;
+        outcomes.hashes.push(latest.hash);
+      } else if ((latest.status === 'initiated' || latest.status === 'counter-offer') && latest.sender !== address && latest.time < abandonBefore) {
+        outcomes.abandoned++;
+        outcomes.hashes.push(latest.hash);
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * The two distinct participant addresses of a negotiation message, sorted, or undefined if it doesn't name two
+   */
+  private getParticipants(negotiation: Negotiation): string[] | undefined {
+    if (typeof negotiation.negotiationId !== 'string' || !Array.isArray(negotiation.participants) || negotiation.participants.length !== 2) {
+      return undefined;
+    }
+    try {
+      const participants = negotiation.participants.map(participant => this.didManager.resolveDID(participant)).sort();
+      return participants[0] !== participants[1] ? participants : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the transactions that cancelled the account's intents with updateIntentStatus, one per intent
+   */
+  private getCancelledIntents(address: string, transactions: any[]): string[] {
+    const cancelled: Map<string, string> = new Map();
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (txData.Account !== address || tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      for (const update of this.parseMemos<{ intentHash: string; status: string }>(txData.Memos, 'xag:intent:update')) {
+        if (update.status === 'cancelled') {
+          cancelled.set(update.intentHash, this.getHash(tx));
+        }
+      }
+    }
+    return Array.from(cancelled.values());
+  }
+
+  /**
+   * Checks whether two accounts are linked by funding: one created the other with a payment
+   * Only each account's first transaction, the payment that created it, is read
+   */
+  async areLinked(first: string, second: string): Promise<boolean> {
+    if (first === second) {
+      return true;
+    }
+    return (await this.getFunder(first)) === second || (await this.getFunder(second)) === first;
+  }
+
+  /**
+   * Finds the account that created this one, from the payment at the start of its history
+   */
+  private async getFunder(address: string): Promise<string | undefined> {
+    const accountTx = await this.client.request({
+      command: 'account_tx',
+      account: address,
+      forward: true,
+      limit: 1
+    });
+    const [tx] = accountTx.result.transactions || [];
+    return tx ? Array.from(this.findLinkedAccounts(address, [tx]))[0] : undefined;
+  }
+
+  /**
+   * Finds accounts linked by funding: any account this one created with a payment, and the account that created it
+   */
+  private findLinkedAccounts(address: string, transactions: any[]): Set<string> {
+    const linked: Set<string> = new Set();
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (txData.TransactionType !== 'Payment' || tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      for (const node of tx.meta.AffectedNodes || []) {
+        const created = node.CreatedNode;
+        if (created?.LedgerEntryType !== 'AccountRoot') continue;
+        const account = created.NewFields?.Account;
+        if (txData.Account === address && account !== address) {
+          linked.add(account);
+        } else if (account === address && txData.Account !== address) {
+          linked.add(txData.Account);
+        }
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * Finds trades matched by a trade in the opposite direction with the same counterparty,
+   * in the same currency and for a near-equal amount, within cycleWindowDays
+   */
+  private findCycles(trades: CompletedTrade[]): Set<string> {
+    const cycles: Set<string> = new Set();
+    const windowMs = this.factors.cycleWindowDays * DAY_MS;
+
+    for (let i = 0; i < trades.length; i++) {
+      for (let j = i + 1; j < trades.length; j++) {
+        const a = trades[i];
+        const b = trades[j];
+        if (a.buyer !== b.seller || a.seller !== b.buyer || a.amount.currency !== b.amount.currency) continue;
+        if (Math.abs(a.time - b.time) > windowMs) continue;
+
+        const difference = a.amount.subtract(b.amount);
+        const larger = a.amount.greaterThan(b.amount) ? a.amount : b.amount;
+        if (!(difference.isNegative() ? difference.negate() : difference).greaterThan(larger.multiply(this.factors.cycleTolerance))) {
+          cycles.add(a.hash);
+          cycles.add(b.hash);
+        }
+      }
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Values an amount in XRP; token amounts need a QuoteService and a current rate
+   */
+  private async getXRPValue(amount: Money): Promise<number | undefined> {
+    if (amount.currency === 'XRP') {
+      return amount.toNumber();
+    }
+    if (!this.quoteService) {
+      return undefined;
+    }
+    try {
+      return (await this.quoteService.quote(amount, amount.currency, 'XRP')).converted;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private parseMemos<T>(memos: any[] | undefined, format: string): T[] {
+    const parsed: T[] = [];
+    for (const memo of memos || []) {
+      try {
+        const memoFormat = memo.Memo?.MemoFormat;
+        if (memoFormat && Buffer.from(memoFormat, 'hex').toString() === format) {
+          parsed.push(JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8')));
+        }
+      } catch (error) {
+        continue;
+      }
+    }
+    return parsed;
+  }
+
+  private findDeletedNode(meta: any, ledgerEntryType: string): any | undefined {
+    const node = (meta.AffectedNodes || []).find((affected: any) => affected.DeletedNode?.LedgerEntryType === ledgerEntryType);
+    return node?.DeletedNode.FinalFields;
+  }
+
+  /**
+   * Close time of the ledger that validated a transaction, in Unix milliseconds
+   */
+  private getCloseTime(tx: any, txData: any): number {
+    if (txData.date !== undefined) {
+      return rippleTimeToUnixTime(txData.date);
+    }
+    return tx.close_time_iso ? Date.parse(tx.close_time_iso) : Date.now();
+  }
+
+  /**
+   * Whether a transaction was sent by, sent to, or changed a ledger entry of the account
+   */
+  private involves(address: string, txData: any, meta: any): boolean {
+    if (txData.Account === address || txData.Destination === address || txData.Owner === address) {
+      return true;
+    }
+    return (meta?.AffectedNodes || []).some((affected: any) => {
+      const node = affected.CreatedNode || affected.ModifiedNode || affected.DeletedNode || {};
+      const fields = { ...node.NewFields, ...node.FinalFields };
+      return fields.Account === address || fields.Destination === address || fields.Owner === address;
+    });
+  }
+
+  /**
+   * Start of the UTC day or week (from Monday) a time falls in
+   */
+  private getBucketStart(time: number, interval: 'day' | 'week'): number {
+    const day = Math.floor(time / DAY_MS) * DAY_MS;
+    return interval === 'week' ? day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS : day;
+  }
+
+  private emptyTotals(): ActivityTotals {
+    return { trades: 0, volumeXRP: 0, cancellations: 0, ratings: 0, ratingTotal: 0 };
+  }
+
+  private toActivity(totals: ActivityTotals): ReputationActivity {
+    return {
+      trades: totals.trades,
+      volumeXRP: Math.round(totals.volumeXRP * 1e6) / 1e6,
+      cancellations: totals.cancellations,
+      ratings: totals.ratings,
+      ...(totals.ratings > 0 && { averageRating: Math.round((totals.ratingTotal / totals.ratings) * 100) / 100 })
     };
   }
+
+  private getHash(tx: any): string {
+    return (tx.tx || tx.tx_json || {}).hash || tx.hash;
+  }
+
+  private getLedgerIndex(tx: any): number {
+    return tx.ledger_index ?? (tx.tx || tx.tx_json || {}).ledger_index;
+  }
+
+  /**
+   * Reads the account's history, newest first, and the validated ledgers it covers
+   * A history cut short at max starts at the ledger of its oldest transaction
+   */
+  private async getAccountHistory(address: string, max: number): Promise<{ transactions: any[]; complete: boolean; ledgerRange: LedgerRange }> {
+    const transactions: any[] = [];
+    let ledgerRange: LedgerRange | undefined;
+    let marker: unknown;
+
+    do {
+      const accountTx = await this.client.request({
+        command: 'account_tx',
+        account: address,
+        limit: Math.min(200, max - transactions.length),
+        ...(marker !== undefined && { marker })
+      });
+      transactions.push(...(accountTx.result.transactions || []));
+      ledgerRange = ledgerRange || { first: accountTx.result.ledger_index_min, last: accountTx.result.ledger_index_max };
+      marker = accountTx.result.marker;
+    } while (marker !== undefined && transactions.length < max);
+
+    const complete = marker === undefined;
+    if (!complete) {
+      ledgerRange = { first: this.getLedgerIndex(transactions[transactions.length - 1]), last: ledgerRange!.last };
+    }
+    return { transactions, complete, ledgerRange: ledgerRange! };
+  }
+
+  /**
+   * Reads the arbiter rulings that found this account at fault, one per trade
+   * A ruling only counts if it settled a dispute one of the trade's parties opened with the arbiter the trade named on-ledger,
+   * and that arbiter is not the account's counterparty or linked to it
+   */
+  private async getDisputesLost(address: string, transactions: any[]): Promise<string[]> {
+    const tradesLost: Map<string, string> = new Map();
+
+    for (const tx of transactions) {
+      const txData: any = tx.tx || tx.tx_json || {};
+      if (txData.TransactionType !== 'Payment' || txData.Destination !== address) continue;
+      if (tx.meta?.TransactionResult !== 'tesSUCCESS') continue;
+
+      for (const memo of txData.Memos || []) {
+        try {
+          const memoFormat = memo.Memo?.MemoFormat;
+          if (!memoFormat || Buffer.from(memoFormat, 'hex').toString() !== 'xag:dispute') continue;
+
+          const step = JSON.parse(Buffer.from(memo.Memo.MemoData, 'hex').toString('utf-8'));
+          if (step.action !== 'ruling' || step.details?.faultedParty !== address || tradesLost.has(step.tradeHash)) continue;
+
+          // The dispute is rebuilt from the trade's arbiter, so the ruling must be the one it settled on
+          const dispute = await this.disputeService.getDispute(step.tradeHash);
+          const isParty = dispute?.buyer === address || dispute?.seller === address;
+          if (!isParty || dispute!.ruling?.faultedParty !== address || dispute!.ruling.txHash !== this.getHash(tx)) continue;
+
+          // Trades can be created outside XAG, so an arbiter the other party controls is ignored here too
+          const counterparty = dispute!.buyer === address ? dispute!.seller : dispute!.buyer;
+          if (!(await this.areLinked(txData.Account, counterparty))) {
+            tradesLost.set(step.tradeHash, this.getHash(tx));
+          }
+        } catch (error) {
+          continue;
+        }
+      }
+    }
+
+    return Array.from(tradesLost.values());
+  }
 }
 
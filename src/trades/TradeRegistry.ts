@@ -0,0 +1,308 @@
+import { Client } from 'xrpl';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TradeConfig, TradeRecord, TradeResult, TradeState, TradeStore, TradeLedgerStatus, RecordedMilestone } from '../types';
+import { EscrowManager } from '../escrow/EscrowManager';
+
+// Allowed lifecycle moves; fulfilled and cancelled are final
+const TRANSITIONS: Record<TradeState, TradeState[]> = {
+  created: ['funded', 'cancelled'],
+  funded: ['fulfilled', 'cancelled', 'expired', 'disputed'],
+  expired: ['cancelled', 'disputed'],
+  disputed: ['fulfilled', 'cancelled', 'expired'],
+  fulfilled: [],
+  cancelled: []
+};
+
+// A milestone trade can expire after some milestones were fulfilled; cancelling the rest leaves it fulfilled
+const MILESTONE_TRANSITIONS: Record<TradeState, TradeState[]> = {
+  ...TRANSITIONS,
+  expired: [...TRANSITIONS.expired, 'fulfilled']
+};
+
+/**
+ * Keeps trade records in process memory
+ */
+export class InMemoryTradeStore implements TradeStore {
+  private records: Map<string, TradeRecord> = new Map();
+
+  async get(id: string): Promise<TradeRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async set(record: TradeRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<TradeRecord[]> {
+    return Array.from(this.records.values());
+  }
+}
+
+/**
+ * Keeps trade records in a JSON file so they survive restarts
+ * Writes go to a temporary file first and are serialized, so the file is never left half-written
+ */
+export class FileTradeStore implements TradeStore {
+  private records?: Map<string, TradeRecord>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(id: string): Promise<TradeRecord | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async set(record: TradeRecord): Promise<void> {
+    (await this.load()).set(record.id, record);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    (await this.load()).delete(id);
+    await this.persist();
+  }
+
+  async list(): Promise<TradeRecord[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  private async load(): Promise<Map<string, TradeRecord>> {
+    if (!this.records) {
+      try {
+        const records: TradeRecord[] = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+        this.records = new Map(records.map(record => [record.id, record]));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw new Error(`Failed to load trade store ${this.filePath}: ${error.message}`);
+        }
+        this.records = new Map();
+      }
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.records!.values()), null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot);
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Records trades created through XAG and tracks them through their lifecycle:
+ * created -> funded -> fulfilled | cancelled | expired | disputed
+ */
+export class TradeRegistry {
+  private store: TradeStore;
+  private escrowManager: EscrowManager;
+
+  constructor(client: Client, options: { store?: TradeStore } = {}) {
+    this.store = options.store || new InMemoryTradeStore();
+    this.escrowManager = new EscrowManager(client);
+  }
+
+  /**
+   * Records a newly created trade
+   * initiateTrade only returns once the ledger has validated the escrow, so the trade is funded straight away
+   */
+  async record(result: TradeResult, config?: TradeConfig): Promise<TradeRecord> {
+    const now = new Date().toISOString();
+    const record: TradeRecord = {
+      id: result.tradeId || result.hash,
+      hash: result.hash,
+      ...(result.tradeId && { tradeId: result.tradeId }),
+      buyer: result.buyer,
+      seller: result.seller,
+      amount: result.amount.toString(),
+      token: result.token,
+      ...(result.settlement && { settlement: result.settlement }),
+      ...(result.checkId && { checkId: result.checkId }),
+      ...(result.condition && { condition: result.condition }),
+      ...(!result.milestones && config?.finishAfter && { finishAfter: config.finishAfter }),
+      ...(!result.milestones && config?.cancelAfter && { cancelAfter: config.cancelAfter }),
+      ...(result.milestones && {
+        milestones: result.milestones.map(({ amount, sentAmount, ...milestone }) => ({
+          ...milestone,
+          amount: amount.toString(),
+          ...(sentAmount !== undefined && { sentAmount: sentAmount.toString() }),
+          status: 'pending' as TradeLedgerStatus
+        }))
+      }),
+      ...(config?.oracle && { oracle: config.oracle }),
+      ...(config?.arbiter && { arbiter: config.arbiter }),
+      ...(result.payWith && { payWith: result.payWith }),
+      ...(result.sentAmount !== undefined && { sentAmount: result.sentAmount.toString() }),
+      ...(result.deliveredAmount !== undefined && { deliveredAmount: result.deliveredAmount.toString() }),
+      state: 'created',
+      history: [{ state: 'created', at: now, txHash: result.hash }],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.set(record);
+    return await this.transition(record.id, 'funded', { txHash: result.hash });
+  }
+
+  /**
+   * Gets a trade by ID, creating hash or milestone hash
+   */
+  async get(idOrHash: string): Promise<TradeRecord | undefined> {
+    const record = await this.store.get(idOrHash);
+    if (record) {
+      return record;
+    }
+    const records = await this.store.list();
+    return records.find(candidate =>
+      candidate.hash === idOrHash || candidate.milestones?.some(milestone => milestone.hash === idOrHash)
+    );
+  }
+
+  /**
+   * Lists trades, newest first, optionally filtered by party or state
+   */
+  async list(filter: { buyer?: string; seller?: string; party?: string; state?: TradeState } = {}): Promise<TradeRecord[]> {
+    const records = await this.store.list();
+    return records
+      .filter(record => !filter.buyer || record.buyer === filter.buyer)
+      .filter(record => !filter.seller || record.seller === filter.seller)
+      .filter(record => !filter.party || record.buyer === filter.party || record.seller === filter.party)
+      .filter(record => !filter.state || record.state === filter.state)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Moves a trade to a new state, rejecting moves the lifecycle doesn't allow
+   */
+  async transition(id: string, state: TradeState, details: { txHash?: string; reason?: string } = {}): Promise<TradeRecord> {
+    const record = await this.get(id);
+    if (!record) {
+      throw new Error(`Trade ${id} is not registered`);
+    }
+    if (record.state === state) {
+      return record;
+    }
+    const transitions = record.milestones ? MILESTONE_TRANSITIONS : TRANSITIONS;
+    if (!transitions[record.state].includes(state)) {
+      throw new Error(`Invalid trade transition: ${record.state} -> ${state} (trade ${record.id})`);
+    }
+
+    const now = new Date().toISOString();
+    const updated: TradeRecord = {
+      ...record,
+      state,
+      history: [...record.history, { state, at: now, ...details }],
+      ...((state === 'fulfilled' || state === 'cancelled') && details.txHash && { resolvedBy: details.txHash }),
+      updatedAt: now
+    };
+    await this.store.set(updated);
+    return updated;
+  }
+
+  /**
+   * Records that a trade (or one milestone of it) was fulfilled or cancelled
+   * Returns undefined for trades that weren't created through this registry
+   */
+  async markResolved(hash: string, status: 'fulfilled' | 'cancelled', txHash: string): Promise<TradeRecord | undefined> {
+    const record = await this.get(hash);
+    if (!record) {
+      return undefined;
+    }
+    if (!record.milestones) {
+      return await this.transition(record.id, status, { txHash });
+    }
+
+    const milestones = record.milestones.map(milestone =>
+      milestone.hash === hash ? { ...milestone, status, resolvedBy: txHash } : milestone
+    );
+    return await this.applyMilestones(record, milestones, txHash);
+  }
+
+  /**
+   * Brings a trade's state in line with the ledger
+   * A disputed trade stays disputed until the ledger shows it finished, cancelled or expired
+   */
+  async reconcile(id: string): Promise<TradeRecord> {
+    const record = await this.get(id);
+    if (!record) {
+      throw new Error(`Trade ${id} is not registered`);
+    }
+    if (TRANSITIONS[record.state].length === 0) {
+      return record;
+    }
+
+    if (record.milestones) {
+      const milestones: RecordedMilestone[] = [];
+      for (const milestone of record.milestones) {
+        const ledger = await this.escrowManager.getTradeStatus(milestone.hash);
+        milestones.push({ ...milestone, status: ledger.status, ...(ledger.resolvedBy && { resolvedBy: ledger.resolvedBy }) });
+      }
+      return await this.applyMilestones(record, milestones);
+    }
+
+    const ledger = await this.escrowManager.getTradeStatus(record.hash);
+    const state = this.stateForLedgerStatus(ledger.status, record.state);
+    return await this.transition(record.id, state, {
+      ...(ledger.resolvedBy && { txHash: ledger.resolvedBy }),
+      reason: 'Reconciled with ledger'
+    });
+  }
+
+  /**
+   * Reconciles every trade that hasn't reached a final state
+   */
+  async reconcileAll(): Promise<TradeRecord[]> {
+    const open = (await this.store.list()).filter(record => TRANSITIONS[record.state].length > 0);
+    const reconciled: TradeRecord[] = [];
+    for (const record of open) {
+      reconciled.push(await this.reconcile(record.id));
+    }
+    return reconciled;
+  }
+
+  /**
+   * A milestone trade is fulfilled once every milestone is resolved and at least one was fulfilled,
+   * cancelled once every milestone was cancelled, and expired while its open milestones have all expired
+   */
+  private async applyMilestones(record: TradeRecord, milestones: RecordedMilestone[], txHash?: string): Promise<TradeRecord> {
+    const updated: TradeRecord = { ...record, milestones, updatedAt: new Date().toISOString() };
+    await this.store.set(updated);
+
+    const open = milestones.filter(milestone => milestone.status === 'pending' || milestone.status === 'expired');
+    let state: TradeState;
+    if (open.length === 0) {
+      state = milestones.some(milestone => milestone.status === 'fulfilled') ? 'fulfilled' : 'cancelled';
+    } else if (open.every(milestone => milestone.status === 'expired')) {
+      state = 'expired';
+    } else {
+      state = record.state === 'disputed' ? 'disputed' : 'funded';
+    }
+
+    if (state === record.state) {
+      return updated;
+    }
+    return await this.transition(record.id, state, { ...(txHash && { txHash }) });
+  }
+
+  private stateForLedgerStatus(status: TradeLedgerStatus, current: TradeState): TradeState {
+    switch (status) {
+      case 'fulfilled':
+        return 'fulfilled';
+      case 'cancelled':
+        return 'cancelled';
+      case 'expired':
+        return 'expired';
+      default:
+        return current === 'created' ? 'funded' : current;
+    }
+  }
+}
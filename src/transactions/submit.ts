@@ -0,0 +1,271 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Client, Wallet, SubmittableTransaction, decode, multisign, xrpToDrops } from 'xrpl';
+import { DryRunReport } from '../types';
+import { Money } from '../currency/Money';
+
+interface DryRunContext {
+  active: boolean;
+  report?: DryRunReport;
+  followedBy?: string; // What the operation submits after the transaction it stopped at
+}
+
+const dryRunContext = new AsyncLocalStorage<DryRunContext>();
+
+/**
+ * Thrown at the point an operation would have submitted its transaction during a dry run
+ */
+export class DryRunAbort extends Error {
+  constructor(public report: DryRunReport) {
+    super(`Dry run: ${report.action} was not submitted`);
+  }
+}
+
+// Transactions that create a ledger object owned by the sender
+const OWNED_OBJECT_CREATES = ['EscrowCreate', 'CheckCreate', 'PaymentChannelCreate', 'SignerListSet', 'CredentialCreate', 'DIDSet'];
+
+/**
+ * Runs an operation without submitting anything
+ * The first transaction the operation would submit is prepared and estimated instead, and the operation stops there.
+ * Later transactions depend on the first one's result, so they can't be estimated; operations that submit several
+ * call expectMoreTransactions first, and the report is then marked partial.
+ */
+export async function runDryRun(operation: () => Promise<unknown>): Promise<DryRunReport> {
+  const context: DryRunContext = { active: true };
+
+  try {
+    await dryRunContext.run(context, operation);
+  } catch (error) {
+    if (!context.report) {
+      throw error;
+    }
+  } finally {
+    // Timers started by the operation keep the context, but must not stay in dry-run mode
+    context.active = false;
+  }
+
+  if (!context.report) {
+    throw new Error('The operation did not submit a transaction');
+  }
+  return context.report;
+}
+
+/**
+ * Records that the operation submits further transactions after the next one, e.g. the remaining milestone
+ * escrows, so a dry run stopping at the next one reports only part of the operation's cost
+ */
+export function expectMoreTransactions(description: string): void {
+  const context = dryRunContext.getStore();
+  if (context?.active && !context.followedBy) {
+    context.followedBy = description;
+  }
+}
+
+/**
+ * Autofills, signs and submits a transaction, waiting for validation
+ * Inside runDryRun, the transaction is estimated instead and the operation is stopped
+ * Callers check meta.TransactionResult themselves
+ */
+export async function submitTransaction(
+  client: Client,
+  tx: SubmittableTransaction,
+  wallet: Wallet,
+  action: string
+): Promise<{ hash: string; sequence: number; fee: string; meta: any }> {
+  const prepared = await client.autofill(tx);
+  await interceptDryRun(client, prepared, action);
+
+  const signed = wallet.sign(prepared);
+  const result = await client.submitAndWait(signed.tx_blob);
+
+  return {
+    hash: result.result.hash as string,
+    sequence: prepared.Sequence as number,
+    fee: prepared.Fee as string,
+    meta: result.result.meta
+  };
+}
+
+/**
+ * Combines multi-signatures and submits the transaction, waiting for validation
+ */
+export async function submitMultisigned(
+  client: Client,
+  signedBlobs: string[],
+  action: string
+): Promise<{ hash: string; sequence: number; fee: string; meta: any }> {
+  const combined = multisign(signedBlobs);
+  const tx = decode(combined) as unknown as SubmittableTransaction;
+  await interceptDryRun(client, tx, action);
+
+  const result = await client.submitAndWait(combined);
+  return {
+    hash: result.result.hash as string,
+    sequence: tx.Sequence as number,
+    fee: tx.Fee as string,
+    meta: result.result.meta
+  };
+}
+
+async function interceptDryRun(client: Client, prepared: SubmittableTransaction, action: string) {
+  const context = dryRunContext.getStore();
+  if (!context?.active) {
+    return;
+  }
+  const report = await estimateTransaction(client, prepared, action);
+  if (context.followedBy) {
+    report.partial = true;
+    report.warnings.push(`Only the first transaction is estimated; the operation then submits ${context.followedBy}`);
+  }
+  context.report = report;
+  throw new DryRunAbort(report);
+}
+
+/**
+ * Estimates what a prepared transaction would cost its sender: fee, XRP spent, owner reserve and,
+ * where the server supports the simulate method, the engine result it would get
+ */
+export async function estimateTransaction(client: Client, prepared: SubmittableTransaction, action: string): Promise<DryRunReport> {
+  const tx: any = prepared;
+  const account: string = tx.Account;
+  const warnings: string[] = [];
+
+  const [accountInfo, serverInfo] = await Promise.all([
+    client.request({ command: 'account_info', account, ledger_index: 'validated' }),
+    client.request({ command: 'server_info' })
+  ]);
+  const balance = BigInt(accountInfo.result.account_data.Balance);
+  const ownerCount = accountInfo.result.account_data.OwnerCount;
+  const validated = serverInfo.result.info.validated_ledger;
+  const baseReserve = BigInt(xrpToDrops(String(validated?.reserve_base_xrp ?? 1)));
+  const perObject = BigInt(xrpToDrops(String(validated?.reserve_inc_xrp ?? 0.2)));
+
+  // Simulation needs an unsigned transaction
+  const { Signers, TxnSignature, SigningPubKey, ...unsigned } = tx;
+  let simulation: { engine_result: string; engine_result_message: string; meta?: any } | undefined;
+  try {
+    const response = await client.request({ command: 'simulate', tx_json: unsigned });
+    simulation = response.result as any;
+  } catch (error: any) {
+    warnings.push(`Simulation unavailable: ${error?.data?.error_message || error.message || error}`);
+  }
+
+  const simulatedChange = simulation?.meta ? getOwnerCountChange(simulation.meta, account) : undefined;
+  const ownerCountChange = simulatedChange ?? await estimateOwnerCountChange(client, tx);
+  if (simulatedChange === undefined) {
+    warnings.push('Reserve impact estimated from the transaction type');
+  }
+
+  const fee = BigInt(tx.Fee || '0');
+  const xrpSpend = fee + getXRPSent(tx);
+  const requiredReserve = baseReserve + perObject * BigInt(Math.max(0, ownerCount + ownerCountChange));
+  let canAfford = balance - xrpSpend >= requiredReserve;
+  if (!canAfford) {
+    warnings.push(`Balance of ${balance} drops does not cover ${xrpSpend} drops spent plus a ${requiredReserve} drop reserve`);
+  }
+
+  const tokenAmount = getTokenSent(tx);
+  // The issuer can send its own currency without limit
+  if (tokenAmount && account !== tokenAmount.issuer) {
+    const held = await getTokenBalance(client, account, tokenAmount.currency, tokenAmount.issuer);
+    if (held.lessThan(tokenAmount.value)) {
+      canAfford = false;
+      warnings.push(`Holds ${held} ${tokenAmount.currency}, needs ${tokenAmount.value}`);
+    }
+  }
+
+  return {
+    action,
+    account,
+    partial: false,
+    transaction: unsigned,
+    fee: fee.toString(),
+    xrpSpend: xrpSpend.toString(),
+    ...(tokenAmount && { tokenSpend: tokenAmount }),
+    reserve: {
+      base: baseReserve.toString(),
+      perObject: perObject.toString(),
+      ownerCount,
+      ownerCountChange,
+      required: requiredReserve.toString()
+    },
+    balance: balance.toString(),
+    canAfford,
+    simulated: simulation !== undefined,
+    ...(simulation && {
+      engineResult: simulation.engine_result,
+      engineResultMessage: simulation.engine_result_message
+    }),
+    warnings
+  };
+}
+
+function getOwnerCountChange(meta: any, account: string): number | undefined {
+  for (const node of meta.AffectedNodes || []) {
+    const modified = node.ModifiedNode;
+    if (modified?.LedgerEntryType === 'AccountRoot' && modified.FinalFields?.Account === account) {
+      const previous = modified.PreviousFields?.OwnerCount ?? modified.FinalFields.OwnerCount;
+      return modified.FinalFields.OwnerCount - previous;
+    }
+  }
+  return undefined;
+}
+
+async function estimateOwnerCountChange(client: Client, tx: any): Promise<number> {
+  if (OWNED_OBJECT_CREATES.includes(tx.TransactionType)) {
+    return 1;
+  }
+  if (tx.TransactionType === 'TrustSet') {
+    // Only a new trust line takes a reserve
+    const existing = await getTokenLine(client, tx.Account, tx.LimitAmount.currency, tx.LimitAmount.issuer);
+    return existing ? 0 : 1;
+  }
+  if ((tx.TransactionType === 'EscrowFinish' || tx.TransactionType === 'EscrowCancel') && tx.Owner === tx.Account) {
+    return -1;
+  }
+  if (tx.TransactionType === 'DIDDelete') {
+    return -1;
+  }
+  return 0;
+}
+
+/**
+ * The amount a transaction takes from the sender; a cross-currency payment spends up to its SendMax, not the
+ * amount it delivers
+ */
+function getAmountSent(tx: any): string | { currency: string; issuer: string; value: string } | undefined {
+  switch (tx.TransactionType) {
+    case 'Payment':
+      return tx.SendMax ?? tx.Amount ?? tx.DeliverMax;
+    case 'EscrowCreate':
+    case 'PaymentChannelCreate':
+    case 'PaymentChannelFund':
+      return tx.Amount;
+    default:
+      return undefined;
+  }
+}
+
+function getXRPSent(tx: any): bigint {
+  const amount = getAmountSent(tx);
+  return typeof amount === 'string' ? BigInt(amount) : 0n;
+}
+
+function getTokenSent(tx: any): { currency: string; issuer: string; value: string } | undefined {
+  const amount = getAmountSent(tx);
+  return typeof amount === 'object' ? amount : undefined;
+}
+
+async function getTokenLine(client: Client, account: string, currency: string, issuer: string): Promise<any | undefined> {
+  const accountLines = await client.request({
+    command: 'account_lines',
+    account,
+    peer: issuer,
+    ledger_index: 'validated'
+  });
+  return (accountLines.result.lines || []).find((line: any) => line.currency === currency);
+}
+
+async function getTokenBalance(client: Client, account: string, currency: string, issuer: string): Promise<Money> {
+  const line = await getTokenLine(client, account, currency, issuer);
+  return line ? Money.of(line.balance, currency) : Money.zero(currency);
+}
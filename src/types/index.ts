@@ -1,15 +1,18 @@
+import type { Money, MoneyInput } from '../currency/Money';
+
 export interface AgentConfig {
   name: string;
   type: 'buyer' | 'seller' | 'supplier' | 'consumer';
   didMethod?: string;
   seed?: string;
   profile?: AgentProfile;
+  trustLines?: string[]; // Registered asset codes to open trust lines for; suppliers and sellers default to ['RLUSD']
 }
 
 export interface AgentProfile {
   capabilities?: string[]; // e.g., ["solar-energy", "data-analysis"]
   pricing?: {
-    currency: 'XRP' | 'RLUSD';
+    currency: string; // 'XRP' or a registered asset code
     rate: number; // per unit or per hour
     unit?: string; // "kWh", "hour", "transaction"
   };
@@ -35,31 +38,428 @@ export interface Agent {
 export interface TradeConfig {
   buyer: string; // DID or address
   seller: string; // DID or address
-  amount: number;
-  token: 'RLUSD' | 'XRP';
+  amount: MoneyInput; // In token; a decimal string keeps it exact
+  token: string; // 'XRP' or a registered asset code, e.g. 'RLUSD'
   condition?: string;
+  useCondition?: boolean; // Generate a PREIMAGE-SHA-256 condition and keep its fulfillment until delivery
   finishAfter?: number; // Ripple epoch timestamp
   cancelAfter?: number; // Ripple epoch timestamp
   memo?: string; // Transaction memo for auditability
+  category?: string; // What the trade is for, e.g. "energy", "data"; recorded in an xag:category memo
+  settlement?: 'auto' | SettlementMethod; // Issued currencies only; 'auto' uses token escrow where supported, otherwise a Check
+  milestones?: TradeMilestone[]; // Split the trade into staged escrows; amounts must add up to `amount`
+  oracle?: string; // Oracle DID whose delivery attestation releases the fulfillment (implies useCondition)
+  arbiter?: string; // Arbiter DID who rules on disputes (implies useCondition; requires cancelAfter; independent of buyer and seller)
+  payWith?: string; // Asset the buyer pays with when it differs from token; converted through the DEX
+  slippage?: number; // Cross-currency only: fraction above the quoted cost the buyer may spend (default 0.01)
+  deliverMin?: MoneyInput; // Cross-currency only: accept partial delivery down to this amount (not for milestone trades)
+}
+
+export interface TradeMilestone {
+  amount: MoneyInput;
+  condition?: string;
+  useCondition?: boolean;
+  finishAfter?: number; // Ripple epoch timestamp; defaults to the trade's
+  cancelAfter?: number; // Ripple epoch timestamp; defaults to the trade's
+  description?: string;
 }
 
+export type SettlementMethod = 'escrow' | 'check' | 'payment';
+
 export interface TradeResult {
   hash: string;
   sequence: number;
-  amount: number;
+  amount: Money;
+  token: string;
+  buyer: string;
+  seller: string;
+  condition?: string; // Crypto-condition locking the escrow, if any
+  settlement?: SettlementMethod;
+  checkId?: string; // Ledger ID of the Check, for check settlement
+  tradeId?: string; // Shared by the escrows of a milestone trade
+  milestones?: MilestoneResult[]; // For milestone trades; hash and sequence refer to the first milestone
+  payWith?: string; // Asset the buyer paid with, for cross-currency trades
+  sentAmount?: Money; // Amount of payWith the buyer spent
+  deliveredAmount?: Money; // Amount of token the conversion delivered; the escrow, check or payment holds this much
+  conversionHash?: string; // Payment converting payWith to token in the buyer's account, before escrow or check settlement
+}
+
+export interface MilestoneResult {
+  index: number;
+  hash: string;
+  sequence: number;
+  amount: Money;
+  settlement?: SettlementMethod;
+  checkId?: string;
+  condition?: string;
+  finishAfter?: number;
+  cancelAfter?: number;
+  description?: string;
+  sentAmount?: Money; // Cross-currency trades: payWith spent converting this milestone
+  conversionHash?: string;
+}
+
+export interface PathQuote {
+  source: string; // Payer address
+  destination: string; // Recipient address (the payer's own, for a conversion)
+  token: string; // Asset delivered
+  amount: Money; // Amount delivered
+  payWith: string; // Asset debited
+  sourceAmount: Money; // Estimated cost in payWith along the best path
+  sendMax: Money; // sourceAmount plus slippage; the payment fails rather than spend more
+  deliverMin?: Money; // Partial delivery accepted down to this amount
+  slippage: number;
+  rate: number; // payWith per unit of token
+  paths: any[]; // Path set for the Payment's Paths field
+  ledgerIndex?: number; // Ledger the quote was computed against
+  quotedAt: string;
+}
+
+export interface PathPaymentResult {
+  hash: string;
   token: string;
+  delivered: Money;
+  payWith: string;
+  sent: Money;
+}
+
+export type TradeLedgerStatus = 'pending' | 'fulfilled' | 'cancelled' | 'expired';
+
+export interface MilestoneStatus extends MilestoneResult {
+  status: TradeLedgerStatus;
+  resolvedBy?: string; // Hash of the finishing or cancelling transaction
+}
+
+export interface MilestoneProgress {
+  tradeId: string;
   buyer: string;
   seller: string;
+  token: string;
+  totalMilestones: number;
+  totalAmount: Money;
+  fulfilledAmount: Money;
+  cancelledAmount: Money;
+  pendingAmount: Money; // Includes expired milestones not yet cancelled
+  complete: boolean;
+  milestones: MilestoneStatus[];
+}
+
+/**
+ * A trade as recorded on the ledger by its creating transaction
+ */
+export interface TradeSettlement {
+  method: SettlementMethod;
+  hash: string;
+  owner: string; // Buyer address
+  destination: string; // Seller address
+  sequence: number;
+  amount: string | { currency: string; issuer: string; value: string };
+  checkId?: string;
+  condition?: string;
+  finishAfter?: number; // Ripple epoch timestamp
+  cancelAfter?: number; // Ripple epoch timestamp (Expiration, for checks)
+  arbiter?: string; // Arbiter DID named in the trade's xag:arbitration memo
+  ledgerIndex?: number; // Ledger the trade was created in
+}
+
+export interface OpenEscrow {
+  index: string; // Ledger object ID
+  owner: string; // Buyer address
+  destination: string; // Seller address
+  amount: string; // Drops, or token value for token escrows
+  sequence: number; // Sequence of the EscrowCreate, needed to finish or cancel
+  createHash: string;
+  condition?: string;
+  finishAfter?: number; // Ripple epoch timestamp
+  cancelAfter?: number; // Ripple epoch timestamp
+}
+
+export interface EscrowRefundOutcome {
+  escrow: OpenEscrow;
+  status: 'refunded' | 'failed';
+  hash?: string; // EscrowCancel transaction hash
+  error?: string;
+  timestamp: string;
+}
+
+export interface DryRunReport {
+  action: string; // What the transaction would do, e.g. 'create escrow'
+  account: string; // Sender address
+  partial: boolean; // The operation submits more transactions after this one, which are not estimated
+  transaction: Record<string, any>; // Prepared (autofilled), unsigned transaction
+  fee: string; // Drops
+  xrpSpend: string; // Drops leaving the account: fee plus any XRP sent (up to SendMax, for cross-currency payments), escrowed or put in a channel
+  tokenSpend?: { currency: string; issuer: string; value: string }; // Issued currency sent (up to SendMax, for cross-currency payments) or escrowed
+  reserve: {
+    base: string; // Drops
+    perObject: string; // Drops per owned ledger object
+    ownerCount: number; // Objects the account owns now
+    ownerCountChange: number; // Objects the transaction creates (positive) or removes (negative)
+    required: string; // Drops the account must keep after the transaction
+  };
+  balance: string; // XRP balance in drops
+  canAfford: boolean;
+  simulated: boolean; // Whether the server's simulate method predicted the result
+  engineResult?: string; // e.g. 'tesSUCCESS' or 'tecUNFUNDED'
+  engineResultMessage?: string;
+  warnings: string[];
+}
+
+export interface PaymentChannel {
+  channelId: string;
+  payer: string; // Buyer address (channel owner)
+  payee: string; // Seller address
+  amount: string; // Drops funded into the channel
+  balance: string; // Drops already redeemed on-ledger
+  settleDelay: number; // Seconds the payee has to redeem after the payer requests a close
+  publicKey: string; // Key that signs claims
+  expiration?: number; // Ripple epoch timestamp, set once a close has been requested
+  cancelAfter?: number; // Ripple epoch timestamp
+}
+
+export interface ChannelClaim {
+  channelId: string;
+  amount: string; // Cumulative drops the payee may redeem, not an increment
+  signature: string;
+  publicKey: string;
+}
+
+export interface ChannelClaimVerification {
+  valid: boolean;
+  channelId: string;
+  amount: string; // Cumulative drops
+  increment: string; // Drops above the previously accepted claim
+  remaining: string; // Drops still available in the channel after this claim
+  errors: string[];
+}
+
+export interface ChannelBalance {
+  channelId: string;
+  payer: string;
+  payee: string;
+  capacity: string; // Drops funded
+  redeemed: string; // Drops redeemed on-ledger
+  claimed: string; // Drops covered by the best accepted claim
+  unredeemed: string; // claimed - redeemed
+  latestClaim?: ChannelClaim;
+}
+
+export type TradeState = 'created' | 'funded' | 'fulfilled' | 'cancelled' | 'expired' | 'disputed';
+
+export interface TradeRecord {
+  id: string; // Trade hash, or trade ID for milestone trades
+  hash: string; // Creating transaction (first milestone for milestone trades)
+  tradeId?: string;
+  buyer: string; // Buyer address
+  seller: string; // Seller address
+  amount: string; // Decimal, as stored
+  token: string;
+  settlement?: SettlementMethod;
+  checkId?: string;
+  condition?: string;
+  finishAfter?: number;
+  cancelAfter?: number;
+  milestones?: RecordedMilestone[];
+  oracle?: string;
+  arbiter?: string;
+  payWith?: string;
+  sentAmount?: string;
+  deliveredAmount?: string;
+  state: TradeState;
+  history: { state: TradeState; at: string; txHash?: string; reason?: string }[];
+  resolvedBy?: string; // Hash of the finishing or cancelling transaction
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecordedMilestone extends Omit<MilestoneStatus, 'amount' | 'sentAmount'> {
+  amount: string; // Decimal, as stored
+  sentAmount?: string;
+}
+
+export interface TradeStore {
+  get(id: string): Promise<TradeRecord | undefined>;
+  set(record: TradeRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<TradeRecord[]>;
+}
+
+export interface ConditionRecord {
+  tradeHash: string;
+  condition: string;
+  encryptedFulfillment: string; // AES-256-GCM encrypted; never stored in plain text
+  buyer: string; // Buyer address
+  seller: string; // Seller address
+  oracle?: string; // Oracle DID allowed to release the fulfillment
+  arbiter?: string; // Arbiter DID whose ruling releases or destroys the fulfillment
+  status: 'locked' | 'released';
+  createdAt: string;
+  releasedAt?: string;
+  releasedBy?: 'buyer' | 'oracle' | 'arbiter';
+  rulingHash?: string; // Ledger transaction recording the arbiter's ruling
+  attestationHash?: string; // Ledger transaction recording the oracle's attestation
+}
+
+export interface DeliveryAttestation {
+  version: 1;
+  tradeHash: string; // Escrow (or milestone) the attestation is about
+  oracle: string; // Oracle DID
+  delivered: boolean;
+  quantity?: number; // e.g., 100
+  unit?: string; // e.g., "kWh"
+  evidence?: string; // Hash or URI of supporting data (meter readings, logs)
+  observedAt: string;
+  issuedAt: string;
+  signature: {
+    publicKeyHex: string;
+    value: string; // Signature over the canonical JSON of the attestation without this field
+  };
+}
+
+export interface AttestationVerificationResult {
+  valid: boolean;
+  attestation: DeliveryAttestation;
+  ledgerHash?: string; // Transaction that recorded the attestation
+  errors: string[];
+}
+
+export interface TradeRating {
+  version: 1;
+  tradeHash: string; // Escrow, check or payment that created the trade (a milestone's, for milestone trades)
+  rater: string; // DID of the party giving the rating
+  ratee: string; // Address of the other party
+  score: number; // 1 to 5
+  comment?: string; // Up to 280 characters
+  issuedAt: string;
+  signature: {
+    publicKeyHex: string;
+    value: string; // Signature over the canonical JSON of the rating without this field
+  };
+}
+
+export interface RatingVerificationResult {
+  valid: boolean;
+  rating: TradeRating;
+  ledgerHash?: string; // Transaction that recorded the rating
+  errors: string[];
+}
+
+export interface FulfillmentStore {
+  get(tradeHash: string): Promise<ConditionRecord | undefined>;
+  set(record: ConditionRecord): Promise<void>;
+  delete(tradeHash: string): Promise<void>;
+}
+
+export interface ReputationFactors {
+  tradePoints: number; // Points per completed trade (default 10)
+  volumePoints: number; // Extra points per tenfold of a trade's XRP value (default 5)
+  repeatDiscount: number; // Each further trade with a counterparty earns this fraction of the one before (default 0.5)
+  halfLifeDays: number; // Trade points halve every halfLifeDays; 0 turns decay off (default 180)
+  linkedPenalty: number; // Points deducted per trade with itself or a linked account (default 10)
+  cyclePenalty: number; // Points deducted per trade the counterparty reversed (default 10)
+  cycleWindowDays: number; // How soon a reversing trade counts as a cycle (default 30)
+  cycleTolerance: number; // How close, as a fraction, the reversing amount must be (default 0.05)
+  disputePenalty: number; // Points deducted per dispute lost (default 25)
+  cancelPenalty: number; // Points deducted per escrow or check the account let lapse as seller (default 10)
+  failurePenalty: number; // Points deducted per failed settlement transaction (default 2)
+  rejectionPenalty: number; // Points deducted per negotiation that ended in rejection (default 1)
+  abandonPenalty: number; // Points deducted per offer the account left unanswered (default 3)
+  abandonAfterDays: number; // How long an unanswered offer waits before it counts as abandoned (default 7)
+  cancelledIntentPenalty: number; // Points deducted per intent the account cancelled (default 1)
+  ratingPoints: number; // Points for a 5-star rating; 1 star deducts as many, 3 stars is neutral (default 5)
+  maxTransactions: number; // Most transactions read from the account's history (default 10000)
+}
+
+export interface ReputationBreakdown {
+  trades: number; // Points for counted trades
+  volume: number; // Points for their value
+  diversity: number; // Points withheld for repeat trades with the same counterparty
+  decay: number; // Points lost to age
+  selfDealing: number; // Penalty for trades with linked accounts
+  cycles: number; // Penalty for trades that were reversed
+  disputes: number; // Penalty for disputes lost
+  cancellations: number; // Penalty for escrows and checks that lapsed
+  failures: number; // Penalty for failed settlements
+  negotiations: number; // Penalty for rejected and abandoned negotiations
+  intents: number; // Penalty for cancelled intents
+  ratings: number; // Points for ratings from counterparties
 }
 
 export interface ReputationResult {
   did: string;
   address: string;
-  score: number;
-  successfulTrades: number;
+  score: number; // Sum of the breakdown, at least 0
+  successfulTrades: number; // Completed trades that count towards the score
   escrowCreates: number;
   escrowFinishes: number;
   payments: number;
+  disputesLost: number; // Arbiter rulings against this agent
+  volumeXRP: number; // XRP value of the counted trades; token trades without a rate are left out
+  counterparties: number; // Distinct counterparties of the counted trades
+  linkedAccounts: string[]; // Accounts this account funded, or was funded by
+  selfDealingTrades: number; // Trades with itself or a linked account; they earn no points
+  cycleTrades: number; // Trades matched by a near-equal trade back; they earn no points
+  cancelledTrades: number; // Escrows and checks cancelled instead of finished, as buyer or seller
+  lapsedAsSeller: number; // Of those, the ones that expired before they were cancelled, where the account was the seller
+  failedTransactions: number; // The account's own transactions that failed (tec results)
+  failedSettlements: number; // Of those, escrow, check and token payment transactions
+  rejectedNegotiations: number;
+  abandonedNegotiations: number; // Offers to the account left unanswered for abandonAfterDays
+  cancelledIntents: number;
+  ratings: number; // Valid ratings received, one per counterparty per trade
+  averageRating?: number; // Omitted with no ratings
+  ignoredRatings: number; // Ratings that failed verification, repeated a trade, or came from linked accounts
+  successRatio?: number; // successfulTrades / (successfulTrades + cancelledTrades + failedSettlements); omitted with no trades
+  breakdown: ReputationBreakdown;
+  factors: ReputationFactors;
+  transactionsScanned: number;
+  historyComplete: boolean; // False when maxTransactions cut the history short
+}
+
+export interface ReputationActivity {
+  trades: number; // Completed trades that count towards the score
+  volumeXRP: number; // XRP value of those trades; token trades without a rate are left out
+  cancellations: number; // Escrows and checks cancelled instead of finished, as buyer or seller
+  ratings: number; // Valid ratings from counterparties
+  averageRating?: number; // Omitted with no ratings
+}
+
+export interface ReputationHistoryBucket extends ReputationActivity {
+  start: string; // UTC, inclusive
+  end: string; // UTC, exclusive
+  byCounterparty: Record<string, ReputationActivity>; // Keyed by counterparty address
+  byCategory: Record<string, ReputationActivity>; // Keyed by trade category; 'uncategorized' for trades without one
+}
+
+export interface ReputationHistory {
+  did: string;
+  address: string;
+  interval: 'day' | 'week';
+  buckets: ReputationHistoryBucket[]; // Oldest first, including empty ones
+  transactionsScanned: number;
+  historyComplete: boolean; // False when maxTransactions cut the history short of `since` (or of the first activity)
+}
+
+export interface ReputationProof {
+  version: 1;
+  reputation: ReputationResult;
+  networkId: number;
+  ledgerRange: { first: number; last: number }; // Validated ledgers the history was read from
+  transactions: string[]; // Hashes of the transactions the score was derived from
+  issuedAt: string;
+  signature: {
+    publicKeyHex: string;
+    value: string; // Over the canonical JSON of the proof without this field
+  };
+}
+
+export interface ReputationProofVerificationResult {
+  valid: boolean;
+  proof: ReputationProof;
+  checkedOnLedger: boolean; // Whether the signing key and sampled transactions were checked against the ledger
+  selfAttested: boolean; // Only the signature was checked: the proof is the agent's word, not evidence
+  sampled: string[]; // Transactions re-read from the ledger
+  errors: string[];
 }
 
 export interface Intent {
@@ -68,14 +468,15 @@ export interface Intent {
   category: string; // e.g., "energy", "data", "service"
   description: string;
   terms?: {
-    price?: number;
-    currency?: 'XRP' | 'RLUSD';
+    price?: MoneyInput; // Broadcast as a decimal string
+    currency?: string; // 'XRP' or a registered asset code
     duration?: string;
     conditions?: string[];
   };
   timestamp: string;
   txHash?: string;
   status?: 'active' | 'fulfilled' | 'cancelled';
+  normalizedPrice?: { amount: number; currency: string }; // Set by searchIntents when sorting by price
 }
 
 export interface Negotiation {
@@ -98,6 +499,61 @@ export interface Negotiation {
   }>;
 }
 
+export interface DisputeRuling {
+  outcome: 'release' | 'refund'; // Release the fulfillment to the seller, or destroy it so the buyer is refunded
+  faultedParty?: string; // Address of the party at fault, penalized in reputation
+  summary: string;
+  timestamp: string;
+  txHash: string;
+}
+
+export interface Dispute {
+  tradeHash: string;
+  arbiter: string; // Arbiter DID
+  buyer: string; // Buyer address
+  seller: string; // Seller address
+  status: 'open' | 'ruled';
+  openedBy: string; // Address of the party that opened the dispute
+  reason: string;
+  openedAt: string;
+  history: Array<{
+    step: number;
+    from: string; // Address
+    action: 'open' | 'evidence' | 'ruling';
+    details: any;
+    timestamp: string;
+    txHash: string;
+  }>;
+  ruling?: DisputeRuling;
+}
+
+export interface VerificationRequirements {
+  minReputation?: number;
+  requireProfile?: boolean;
+  requiredCapabilities?: string[];
+  requiredCredentialTypes?: string[]; // Verifiable Credential types the agent must hold, e.g. "SolarSupplierCredential"
+  trustedIssuers?: string[]; // Issuer DIDs accepted for credentials; defaults to the CredentialService list
+  credentials?: VerifiableCredential[]; // Credentials presented by the agent, checked alongside stored ones
+  requiredCredentials?: RequiredCredential[]; // On-ledger (XLS-70) credentials the agent must hold
+}
+
+export interface RequiredCredential {
+  issuer: string; // Issuer DID or address
+  credentialType: string; // e.g., "KYC" (plain text; hex-encoded on the ledger)
+}
+
+export interface LedgerCredential {
+  issuer: string; // Issuer address
+  subject: string; // Subject address
+  credentialType: string; // Decoded credential type
+  accepted: boolean; // Subject has accepted the credential (CredentialAccept)
+  expiration?: number; // Ripple epoch timestamp
+  expired: boolean;
+  uri?: string;
+  ledgerIndex: string; // Ledger object ID
+  previousTxnId: string;
+}
+
 export interface VerificationResult {
   agentDID: string;
   verified: boolean;
@@ -109,11 +565,220 @@ export interface VerificationResult {
       type: string;
       verified: boolean;
       source: string;
+      id?: string; // Credential ID for Verifiable Credentials
+      errors?: string[]; // Why a credential failed verification
     }>;
   };
   score: number; // Overall verification score 0-100
 }
 
-export const RLUSD_ISSUER_TESTNET = 'rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH'; // Testnet RLUSD issuer (example)
+export interface CredentialProof {
+  type: string; // EcdsaSecp256k1Signature2019 | Ed25519Signature2018
+  created: string;
+  verificationMethod: string; // DID URL of the signing key, e.g. did:xrpl:1:r...#master
+  proofPurpose: 'assertionMethod' | 'authentication';
+  publicKeyHex: string; // XRPL-encoded public key (ED-prefixed for Ed25519)
+  proofValue: string; // Hex signature over the canonical JSON of the document without its proof
+  challenge?: string; // Presentations only: nonce supplied by the verifier
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[]; // Always includes "VerifiableCredential"
+  issuer: string; // Issuer DID
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: {
+    id: string; // Subject DID
+    [claim: string]: any;
+  };
+  credentialStatus?: {
+    id: string;
+    type: 'XAGLedgerRevocation'; // Revocations are published as memos by the issuer
+  };
+  proof?: CredentialProof;
+}
+
+export interface VerifiablePresentation {
+  '@context': string[];
+  type: string[];
+  holder: string; // Holder DID
+  verifiableCredential: VerifiableCredential[];
+  proof?: CredentialProof;
+}
+
+export interface CredentialVerificationResult {
+  credentialId: string;
+  type: string; // Most specific credential type
+  issuer: string;
+  subject: string;
+  verified: boolean;
+  checks: {
+    signature: boolean;
+    issuerResolved: boolean;
+    notExpired: boolean;
+    notRevoked: boolean;
+    trustedIssuer: boolean;
+  };
+  errors: string[];
+}
+
+export interface DIDVerificationMethod {
+  id: string; // e.g., did:xrpl:1:rAddress#master
+  type: string; // e.g., EcdsaSecp256k1VerificationKey2019
+  controller: string;
+  blockchainAccountId: string; // CAIP-10 style account reference
+  publicKeyHex?: string; // Only known once the key has signed a transaction
+}
+
+export interface DIDService {
+  id: string;
+  type: string;
+  serviceEndpoint: string | Record<string, any>;
+}
+
+export interface DIDDocument {
+  '@context': string[];
+  id: string;
+  controller: string;
+  verificationMethod: DIDVerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  service: DIDService[];
+}
+
+export interface DIDKeyHistoryEntry {
+  keyType: 'master' | 'regular';
+  address: string; // Address derived from the key
+  publicKey?: string; // Only known once the key has signed a transaction
+  validFrom: string; // ISO timestamp
+  validFromLedger: number;
+  validUntil?: string; // ISO timestamp; unset while the key is still valid
+  validUntilLedger?: number;
+  addedBy?: string; // Hash of the transaction that authorized the key
+  revokedBy?: string; // Hash of the transaction that revoked the key
+}
+
+export interface DIDDocumentMetadata {
+  created?: string; // ISO timestamp of the first DIDSet
+  updated?: string; // ISO timestamp of the latest DIDSet
+  createdLedger?: number;
+  updatedLedger?: number;
+  deactivated: boolean;
+  versionId?: string; // Hash of the transaction that last modified the DID object
+  keyHistory?: DIDKeyHistoryEntry[]; // Every key that has controlled the DID, including rotated ones
+}
+
+export interface DIDResolutionResult {
+  didDocument: DIDDocument | null;
+  didDocumentMetadata: DIDDocumentMetadata;
+  didResolutionMetadata: {
+    contentType: string;
+    error?: 'invalidDid' | 'notFound';
+    message?: string;
+  };
+}
+
+export interface MessageEnvelope<T = any> {
+  version: 1;
+  id: string;
+  sender: string; // Sender DID
+  recipient: string; // Recipient DID
+  nonce: string; // Random hex, unique per sender; used for replay protection
+  issuedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  contentHash: string; // SHA-256 (hex) of the canonical JSON payload
+  payload: T;
+  signature: {
+    publicKeyHex: string; // XRPL-encoded public key of the signing key
+    value: string; // Hex signature over the envelope without its signature
+  };
+}
+
+export interface EnvelopeVerificationResult {
+  valid: boolean;
+  sender: string;
+  errors: string[];
+}
+
+export interface NetworkConfig {
+  networkId: number; // XRPL NetworkID: 0 = mainnet, 1 = testnet, 2 = devnet, >1024 = custom chains
+  name: string;
+  url: string;
+}
+
+export interface ParsedDID {
+  address: string;
+  networkId?: number; // Undefined when a bare address was given
+}
+
+export const XRPL_NETWORKS: Record<'mainnet' | 'testnet' | 'devnet', NetworkConfig> = {
+  mainnet: { networkId: 0, name: 'mainnet', url: 'wss://xrplcluster.com' },
+  testnet: { networkId: 1, name: 'testnet', url: 'wss://s.altnet.rippletest.net:51233' },
+  devnet: { networkId: 2, name: 'devnet', url: 'wss://s.devnet.rippletest.net:51233' }
+};
+
+export interface AssetConfig {
+  code: string; // Symbol used across the SDK, e.g. 'RLUSD' or 'USD'
+  name?: string;
+  issuers: Record<number, string>; // Issuer address per XRPL NetworkID
+}
+
+export interface Asset {
+  code: string;
+  currency: string; // Ledger currency code: 3 characters, or 40 hex characters for longer codes
+  issuer: string;
+}
+
+export interface TrustLineStatus {
+  account: string;
+  asset: string; // Asset code
+  issuer: string;
+  exists: boolean;
+  balance: string;
+  limit: string;
+  noRipple: boolean; // This account has NoRipple set on the line
+  frozen: boolean; // The issuer froze the line, or froze the whole asset
+  deepFrozen: boolean; // The issuer deep-froze the line: it can neither send nor receive
+  authorized: boolean; // The issuer authorised the line, or doesn't require authorisation
+}
+
+export interface TokenTradeCheck {
+  asset: string;
+  issuer: string;
+  transferRate: number; // Fraction the issuer charges on transfers between holders, e.g. 0.002 for 0.2%
+  requireAuth: boolean; // The issuer must authorise each trust line
+  globalFreeze: boolean;
+  buyer: TrustLineStatus;
+  seller: TrustLineStatus;
+  issues: string[]; // Reasons the trade would fail
+  warnings: string[]; // Things the parties should know, e.g. the transfer fee
+  ok: boolean; // No issues
+}
+
+export type PriceSource = 'identity' | 'orderbook' | 'amm' | 'bridged' | 'feed';
+
+export interface PriceFeed {
+  /** Units of `to` per unit of `from`, or undefined if the feed has no price for the pair */
+  getRate(from: string, to: string): Promise<number | undefined>;
+}
+
+export interface PriceQuote {
+  amount: number; // Amount of `from` quoted
+  from: string; // 'XRP' or a registered asset code
+  to: string;
+  converted: number; // amount * rate
+  rate: number; // Units of `to` per unit of `from`
+  source: PriceSource; // Where the rate came from
+  bridgeSources?: [PriceSource, PriceSource]; // For bridged rates: sources of the from/XRP and XRP/to legs
+  fetchedAt: string; // When the rate was fetched
+  ageMs: number; // How old the rate was when quoted
+  cached: boolean;
+}
+
+/** @deprecated Register assets with AssetRegistry (RLUSD is registered by default) */
+export const RLUSD_ISSUER_TESTNET = 'rQhWct2fv4Vc4KRjRgMrxa8xPN9Zx9iLKV';
+/** @deprecated Use AssetRegistry.resolve('RLUSD', networkId).currency; the ledger needs the hex form of 'RLUSD' */
 export const RLUSD_CURRENCY_CODE = 'RLUSD';
 
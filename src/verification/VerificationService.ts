@@ -1,35 +1,37 @@
 import { Client } from 'xrpl';
-import { VerificationResult } from '../types';
+import { VerificationResult, VerificationRequirements, VerifiableCredential } from '../types';
 import { DIDManager } from '../identity/DIDManager';
 import { ReputationService } from '../reputation/ReputationService';
 import { ProfileManager } from '../profile/ProfileManager';
+import { CredentialService } from '../credentials/CredentialService';
+import { LedgerCredentialManager } from '../credentials/LedgerCredentialManager';
 
 export class VerificationService {
   private didManager: DIDManager;
   private reputationService: ReputationService;
   private profileManager: ProfileManager;
+  private credentialService: CredentialService;
+  private ledgerCredentialManager: LedgerCredentialManager;
 
-  constructor(private client: Client) {
+  constructor(private client: Client, credentialService?: CredentialService, reputationService?: ReputationService) {
     this.didManager = new DIDManager(client);
-    this.reputationService = new ReputationService(client);
+    this.reputationService = reputationService || new ReputationService(client);
     this.profileManager = new ProfileManager(client);
+    this.credentialService = credentialService || new CredentialService(client);
+    this.ledgerCredentialManager = new LedgerCredentialManager(client);
   }
 
   /**
    * Verifies an agent's credentials and claims
    */
-  async verifyAgent(agentDID: string, requirements?: {
-    minReputation?: number;
-    requireProfile?: boolean;
-    requiredCapabilities?: string[];
-  }): Promise<VerificationResult> {
+  async verifyAgent(agentDID: string, requirements?: VerificationRequirements): Promise<VerificationResult> {
     const address = this.didManager.resolveDID(agentDID);
     
     const claims = {
       identity: false,
       reputation: false,
       profile: false,
-      credentials: [] as Array<{ type: string; verified: boolean; source: string }>
+      credentials: [] as NonNullable<VerificationResult['claims']['credentials']>
     };
 
     // 1. Verify DID/Identity
@@ -96,16 +98,68 @@ export class VerificationService {
       claims.profile = false;
     }
 
+    // 4. Verify Verifiable Credentials (presented and stored)
+    const heldCredentialTypes = new Set<string>();
+    const presented = (requirements?.credentials || []).filter(credential =>
+      this.isAboutAgent(credential, address)
+    );
+    const stored = this.credentialService.getCredentials(agentDID);
+    const toVerify = [...presented, ...stored.filter(credential => !presented.some(p => p.id === credential.id))];
+
+    for (const credential of toVerify) {
+      const result = await this.credentialService.verifyCredential(credential, {
+        trustedIssuers: requirements?.trustedIssuers
+      });
+      claims.credentials.push({
+        type: result.type,
+        verified: result.verified,
+        source: result.issuer,
+        id: result.credentialId,
+        ...(result.errors.length > 0 && { errors: result.errors })
+      });
+      if (result.verified) {
+        credential.type.forEach(type => heldCredentialTypes.add(type));
+      }
+    }
+
+    const hasRequiredCredentials = (requirements?.requiredCredentialTypes || []).every(type =>
+      heldCredentialTypes.has(type)
+    );
+
+    // 5. Verify on-ledger (XLS-70) credentials
+    let hasRequiredLedgerCredentials = true;
+    for (const required of requirements?.requiredCredentials || []) {
+      let found = false;
+      try {
+        const issuerAddress = this.didManager.resolveDID(required.issuer);
+        found = await this.ledgerCredentialManager.findValidCredential(
+          address,
+          issuerAddress,
+          required.credentialType
+        ) !== null;
+      } catch (error) {
+        found = false;
+      }
+      claims.credentials.push({
+        type: required.credentialType,
+        verified: found,
+        source: `XRPL Credential (${required.issuer})`
+      });
+      hasRequiredLedgerCredentials = hasRequiredLedgerCredentials && found;
+    }
+
     // Calculate verification score
     let score = 0;
     if (claims.identity) score += 25;
     if (claims.reputation) score += 25;
     if (claims.profile) score += 25;
-    if (claims.credentials.length > 2) score += 25;
+    if (claims.credentials.filter(credential => credential.verified).length > 2) score += 25;
 
     const verified = score >= 50 && 
                      (!requirements?.minReputation || claims.reputation) &&
-                     (!requirements?.requireProfile || claims.profile);
+                     (!requirements?.requireProfile || claims.profile) &&
+                     hasRequiredCredentials &&
+                     hasRequiredLedgerCredentials;
 
     return {
       agentDID,
@@ -114,5 +168,13 @@ export class VerificationService {
       score
     };
   }
+
+  private isAboutAgent(credential: VerifiableCredential, address: string): boolean {
+    try {
+      return this.didManager.parseDID(credential.credentialSubject.id).address === address;
+    } catch (error) {
+      return false;
+    }
+  }
 }
 
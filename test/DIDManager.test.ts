@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { Client, Wallet, AccountSetAsfFlags } from 'xrpl';
+import { DIDManager } from '../src/identity/DIDManager';
+import { signPayload } from '../src/identity/signing';
+
+const master = Wallet.generate();
+const firstRegular = Wallet.generate();
+const secondRegular = Wallet.generate();
+const funder = Wallet.generate();
+const did = `did:xrpl:1:${master.address}`;
+
+const FUNDED = '2026-01-01T00:00:00.000Z';
+const FIRST_REGULAR_SET = '2026-02-01T00:00:00.000Z';
+const ROTATED = '2026-03-01T00:00:00.000Z';
+const MASTER_DISABLED = '2026-04-01T00:00:00.000Z';
+
+const LSF_DISABLE_MASTER = 0x00100000;
+
+function accountTx(hash: string, time: string, ledger: number, txJson: Record<string, any>) {
+  return {
+    hash,
+    ledger_index: ledger,
+    close_time_iso: time,
+    meta: { TransactionResult: 'tesSUCCESS' },
+    tx_json: { hash, ...txJson }
+  };
+}
+
+// Oldest first, as getAccountHistory reads it
+const HISTORY = [
+  accountTx('FUND', FUNDED, 1, { TransactionType: 'Payment', Account: funder.address, Destination: master.address, SigningPubKey: funder.publicKey }),
+  accountTx('SET1', FIRST_REGULAR_SET, 2, { TransactionType: 'SetRegularKey', Account: master.address, RegularKey: firstRegular.address, SigningPubKey: master.publicKey }),
+  accountTx('SET2', ROTATED, 3, { TransactionType: 'SetRegularKey', Account: master.address, RegularKey: secondRegular.address, SigningPubKey: firstRegular.publicKey }),
+  accountTx('DISABLE', MASTER_DISABLED, 4, { TransactionType: 'AccountSet', Account: master.address, SetFlag: AccountSetAsfFlags.asfDisableMaster, SigningPubKey: secondRegular.publicKey })
+];
+
+/**
+ * A client serving HISTORY two transactions per page, with the given current account state
+ */
+function mockClient(accountData: { Flags: number; RegularKey?: string }, history = HISTORY) {
+  const requests: any[] = [];
+  const client = {
+    isConnected: () => true,
+    networkID: 1,
+    request: async (req: any) => {
+      requests.push(req);
+      if (req.command === 'account_tx') {
+        const start = req.marker ?? 0;
+        const page = history.slice(start, start + 2);
+        return { result: { transactions: page, ...(start + 2 < history.length && { marker: start + 2 }) } };
+      }
+      if (req.command === 'account_info') {
+        return { result: { account_data: { Account: master.address, ...accountData } } };
+      }
+      throw new Error(`Unexpected request: ${req.command}`);
+    }
+  };
+  return { client: client as unknown as Client, requests };
+}
+
+const CURRENT = { Flags: LSF_DISABLE_MASTER, RegularKey: secondRegular.address };
+
+describe('DIDManager key history', () => {
+  it('reads every page of the account history', async () => {
+    const { client, requests } = mockClient(CURRENT);
+    const history = await new DIDManager(client).getKeyHistory(did);
+
+    expect(requests.filter(req => req.command === 'account_tx')).toHaveLength(2);
+    expect(history.map(entry => [entry.keyType, entry.address])).toEqual([
+      ['master', master.address],
+      ['regular', firstRegular.address],
+      ['regular', secondRegular.address]
+    ]);
+  });
+
+  it('closes each key at the transaction that replaced or disabled it', async () => {
+    const { client } = mockClient(CURRENT);
+    const [masterEntry, firstEntry, secondEntry] = await new DIDManager(client).getKeyHistory(did);
+
+    expect(masterEntry).toMatchObject({ validFrom: FUNDED, validUntil: MASTER_DISABLED, revokedBy: 'DISABLE' });
+    expect(firstEntry).toMatchObject({ validFrom: FIRST_REGULAR_SET, validUntil: ROTATED, addedBy: 'SET1', revokedBy: 'SET2' });
+    expect(secondEntry.validUntil).toBeUndefined();
+    expect(firstEntry.publicKey).toBe(firstRegular.publicKey);
+  });
+
+  it('checks keys against their validity windows', async () => {
+    const { client } = mockClient(CURRENT);
+    const didManager = new DIDManager(client);
+
+    expect(await didManager.isKeyValidAt(did, master.publicKey, '2026-03-15T00:00:00.000Z')).toBe(true);
+    expect(await didManager.isKeyValidAt(did, master.publicKey, MASTER_DISABLED)).toBe(false);
+    expect(await didManager.isKeyValidAt(did, firstRegular.publicKey, '2026-01-15T00:00:00.000Z')).toBe(false);
+    expect(await didManager.isKeyValidAt(did, firstRegular.publicKey, FIRST_REGULAR_SET)).toBe(true);
+    expect(await didManager.isKeyValidAt(did, firstRegular.publicKey, ROTATED)).toBe(false);
+    expect(await didManager.isKeyValidAt(did, secondRegular.publicKey)).toBe(true);
+    expect(await didManager.isKeyValidAt(did, Wallet.generate().publicKey, '2026-03-15T00:00:00.000Z')).toBe(false);
+  });
+
+  it("checks current keys against the account's state", async () => {
+    const { client } = mockClient(CURRENT);
+    const didManager = new DIDManager(client);
+
+    expect(await didManager.isKeyCurrent(did, secondRegular.publicKey)).toBe(true);
+    expect(await didManager.isKeyCurrent(did, firstRegular.publicKey)).toBe(false);
+    expect(await didManager.isKeyCurrent(did, master.publicKey)).toBe(false);
+    expect(await didManager.isKeyCurrent(did, 'not a key')).toBe(false);
+  });
+
+  it("fails when the history doesn't match the account's current keys", async () => {
+    const { client } = mockClient({ Flags: 0, RegularKey: secondRegular.address });
+
+    await expect(new DIDManager(client).getKeyHistory(did)).rejects.toThrow(`Key history for ${did} does not match the account's current keys`);
+  });
+
+  it('fails when the history was cut short', async () => {
+    const { client } = mockClient(CURRENT, HISTORY.slice(0, 2));
+
+    await expect(new DIDManager(client).isKeyValidAt(did, firstRegular.publicKey)).rejects.toThrow('does not match');
+  });
+
+  it('verifies signatures against the current key unless an anchored time is given', async () => {
+    const { client } = mockClient(CURRENT);
+    const didManager = new DIDManager(client);
+    const payload = { message: 'hello' };
+    const signature = signPayload(firstRegular, payload);
+
+    expect(await didManager.verifySignature(did, payload, signature, firstRegular.publicKey)).toBe(false);
+    expect(await didManager.verifySignature(did, payload, signature, firstRegular.publicKey, '2026-02-15T00:00:00.000Z')).toBe(true);
+    expect(await didManager.verifySignature(did, { message: 'changed' }, signature, firstRegular.publicKey, '2026-02-15T00:00:00.000Z')).toBe(false);
+
+    const current = signPayload(secondRegular, payload);
+    expect(await didManager.verifySignature(did, payload, current, secondRegular.publicKey)).toBe(true);
+  });
+});
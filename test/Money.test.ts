@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { Money } from '../src/currency/Money';
+
+describe('Money', () => {
+  describe('arithmetic', () => {
+    it('adds and subtracts exactly', () => {
+      expect(Money.of('0.1', 'RLUSD').add('0.2').toString()).toBe('0.3');
+      expect(Money.of(0.3, 'RLUSD').subtract('0.1').equals('0.2')).toBe(true);
+      expect(Money.sum(['1.25', '2.5', 0.25], 'RLUSD').toString()).toBe('4');
+    });
+
+    it('keeps one representation for equal amounts', () => {
+      expect(Money.of('1.500', 'RLUSD').toString()).toBe('1.5');
+      expect(Money.of('1.5', 'RLUSD').equals('1.50000')).toBe(true);
+    });
+
+    it('rounds products to the currency precision', () => {
+      expect(Money.xrp('1').multiply('0.3333333333').toString()).toBe('0.333333');
+      expect(Money.xrp('1').multiply('0.0000005').toString()).toBe('0.000001');
+      expect(Money.xrp('1').multiply('0.0000005', 'down').toString()).toBe('0');
+      expect(Money.of('1', 'RLUSD').multiply('1.23456789012345678').toString()).toBe('1.23456789012346');
+    });
+
+    it('rounds negative amounts towards the requested direction', () => {
+      const value = Money.zero('XRP').subtract('0.0000015');
+      expect(value.round('half-up').toString()).toBe('-0.000002');
+      expect(value.round('up').toString()).toBe('-0.000001');
+      expect(value.round('down').toString()).toBe('-0.000002');
+    });
+
+    it('compares amounts of different scales', () => {
+      const amount = Money.of('10', 'RLUSD');
+      expect(amount.greaterThan('9.999999')).toBe(true);
+      expect(amount.lessThan('10.000001')).toBe(true);
+      expect(amount.compare('10.0')).toBe(0);
+    });
+
+    it('refuses to combine currencies', () => {
+      expect(() => Money.xrp('1').add(Money.of('1', 'RLUSD'))).toThrow('Cannot combine XRP with RLUSD');
+      expect(() => Money.of(Money.xrp('1'), 'RLUSD')).toThrow('Expected an amount of RLUSD, got XRP');
+    });
+
+    it('converts XRP to and from drops', () => {
+      expect(Money.xrp('1.000001').toDrops()).toBe('1000001');
+      expect(Money.fromDrops('12').toString()).toBe('0.000012');
+    });
+
+    it('allows negative values but does not count them as positive', () => {
+      const balance = Money.of('-5', 'RLUSD');
+      expect(balance.isNegative()).toBe(true);
+      expect(balance.isPositive()).toBe(false);
+      expect(Money.zero('RLUSD').isPositive()).toBe(false);
+    });
+  });
+
+  describe('ledger limits', () => {
+    it('rejects XRP beyond whole drops or 100 billion XRP', () => {
+      expect(() => Money.xrp('0.0000001')).toThrow('at most 6 decimal places');
+      expect(() => Money.xrp('100000000001')).toThrow('more than 100 billion XRP');
+    });
+
+    it('rejects issued amounts beyond 15 significant digits', () => {
+      expect(() => Money.of('1.234567890123456', 'RLUSD')).toThrow('at most 15 significant digits');
+      expect(Money.of('123456789012345000000', 'RLUSD').toString()).toBe('123456789012345000000');
+    });
+
+    it("rejects issued amounts outside the ledger's exponent range", () => {
+      expect(() => Money.of('1e96', 'RLUSD')).toThrow("outside the ledger's range");
+      expect(() => Money.of('1e-97', 'RLUSD')).toThrow("outside the ledger's range");
+      expect(Money.of('1e-81', 'RLUSD').isPositive()).toBe(true);
+    });
+  });
+
+  describe('parsing', () => {
+    it('reads decimal strings, exponents and numbers', () => {
+      expect(Money.of('+1.5e2', 'RLUSD').toString()).toBe('150');
+      expect(Money.of('.25', 'RLUSD').toString()).toBe('0.25');
+      expect(Money.of(0.1, 'RLUSD').toString()).toBe('0.1');
+    });
+
+    it('rejects malformed input', () => {
+      for (const value of ['', 'abc', '1.2.3', '1e', '0x10']) {
+        expect(() => Money.of(value, 'RLUSD')).toThrow('Invalid RLUSD amount');
+      }
+      expect(() => Money.of(NaN, 'RLUSD')).toThrow('Invalid RLUSD amount');
+      expect(() => Money.of(Infinity, 'RLUSD')).toThrow('Invalid RLUSD amount');
+    });
+
+    it('rejects huge exponents before building the value', () => {
+      const started = Date.now();
+      expect(() => Money.of('1e999999999', 'RLUSD')).toThrow('out of range');
+      expect(() => Money.of('1e-999999999', 'RLUSD')).toThrow('out of range');
+      expect(() => Money.xrp('1e257')).toThrow('out of range');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('rejects inputs with too many digits', () => {
+      expect(() => Money.of('1'.repeat(129), 'RLUSD')).toThrow('out of range');
+      expect(() => Money.of(`0.${'0'.repeat(127)}1`, 'RLUSD')).toThrow('out of range');
+    });
+
+    it('applies the same limits to operands', () => {
+      expect(() => Money.xrp('1').add('1e999999999')).toThrow('out of range');
+      expect(() => Money.xrp('1').multiply('1e-999999999')).toThrow('out of range');
+    });
+  });
+});
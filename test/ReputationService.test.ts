@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { Client, Wallet, unixTimeToRippleTime } from 'xrpl';
+import { ReputationService } from '../src/reputation/ReputationService';
+
+const agent = Wallet.generate().address;
+const counterparty = Wallet.generate().address;
+const stranger = Wallet.generate().address;
+const did = `did:xrpl:1:${agent}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+let sequence = 0;
+
+function memo(format: string, data: any) {
+  return {
+    Memo: {
+      MemoData: Buffer.from(JSON.stringify(data)).toString('hex'),
+      MemoType: Buffer.from('application/json').toString('hex'),
+      MemoFormat: Buffer.from(format).toString('hex')
+    }
+  };
+}
+
+function tx(txJson: Record<string, any>, options: { result?: string; daysAgo?: number; nodes?: any[] } = {}) {
+  const hash = `TX${++sequence}`;
+  return {
+    hash,
+    ledger_index: sequence,
+    close_time_iso: new Date(Date.now() - (options.daysAgo ?? 0) * DAY_MS).toISOString(),
+    meta: { TransactionResult: options.result ?? 'tesSUCCESS', AffectedNodes: options.nodes ?? [] },
+    tx_json: { hash, ...txJson }
+  };
+}
+
+function negotiationMessage(from: string, to: string, negotiationId: string, status: string, daysAgo = 0) {
+  return tx({
+    TransactionType: 'Payment',
+    Account: from,
+    Destination: to,
+    Amount: '1',
+    Memos: [memo('xag:negotiation', { negotiationId, participants: [`did:xrpl:1:${from}`, `did:xrpl:1:${to}`], status })]
+  }, { daysAgo });
+}
+
+/**
+ * A cancel of a check or escrow the counterparty (buyer) sent the agent (seller), with its expiry days from now
+ */
+function cancelled(transactionType: 'CheckCancel' | 'EscrowCancel', expiresInDays: number | undefined) {
+  const entryType = transactionType === 'CheckCancel' ? 'Check' : 'Escrow';
+  const expiryField = entryType === 'Check' ? 'Expiration' : 'CancelAfter';
+  const expiry = expiresInDays === undefined ? undefined : unixTimeToRippleTime(Date.now() + expiresInDays * DAY_MS);
+  return tx({ TransactionType: transactionType, Account: counterparty }, {
+    nodes: [{
+      DeletedNode: {
+        LedgerEntryType: entryType,
+        FinalFields: { Account: counterparty, Destination: agent, ...(expiry !== undefined && { [expiryField]: expiry }) }
+      }
+    }]
+  });
+}
+
+function intentUpdate(intentHash: string, status: string) {
+  return tx({
+    TransactionType: 'Payment',
+    Account: agent,
+    Destination: stranger,
+    Amount: '1',
+    Memos: [memo('xag:intent:update', { intentHash, status })]
+  });
+}
+
+/**
+ * A client serving the given history (oldest first) as one account_tx page, newest first
+ */
+function mockClient(history: any[]): Client {
+  return {
+    isConnected: () => true,
+    networkID: 1,
+    request: async (req: any) => {
+      if (req.command === 'account_tx') {
+        return { result: { transactions: [...history].reverse(), ledger_index_min: 1, ledger_index_max: 100 } };
+      }
+      throw new Error(`Unexpected request: ${req.command}`);
+    }
+  } as unknown as Client;
+}
+
+describe('ReputationService penalties', () => {
+  it('scores an empty history as zero', async () => {
+    const reputation = await new ReputationService(mockClient([])).getReputation(did);
+
+    expect(reputation.score).toBe(0);
+    expect(Object.values(reputation.breakdown).every(points => points === 0)).toBe(true);
+    expect(reputation.historyComplete).toBe(true);
+  });
+
+  it('penalises failed settlements but not other failed transactions', async () => {
+    const history = [
+      tx({ TransactionType: 'EscrowCreate', Account: agent, Destination: counterparty, Amount: '1000000' }, { result: 'tecUNFUNDED' }),
+      tx({ TransactionType: 'CheckCash', Account: agent, CheckID: 'CHECK' }, { result: 'tecNO_ENTRY' }),
+      tx({ TransactionType: 'AccountSet', Account: agent }, { result: 'tecNO_PERMISSION' })
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.failedTransactions).toBe(3);
+    expect(reputation.failedSettlements).toBe(2);
+    expect(reputation.breakdown.failures).toBe(-4);
+  });
+
+  it('counts a cancelled trade against the seller only once it had expired', async () => {
+    const history = [
+      cancelled('CheckCancel', 1),
+      cancelled('CheckCancel', undefined),
+      cancelled('CheckCancel', -1),
+      cancelled('EscrowCancel', -1)
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.cancelledTrades).toBe(4);
+    expect(reputation.lapsedAsSeller).toBe(2);
+    expect(reputation.breakdown.cancellations).toBe(-20);
+  });
+
+  it('counts rejections only against the party that sent them', async () => {
+    const history = [
+      negotiationMessage(counterparty, agent, 'ours', 'initiated'),
+      negotiationMessage(agent, counterparty, 'ours', 'rejected'),
+      negotiationMessage(agent, counterparty, 'theirs', 'initiated'),
+      negotiationMessage(counterparty, agent, 'theirs', 'rejected')
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.rejectedNegotiations).toBe(1);
+    expect(reputation.breakdown.negotiations).toBe(-1);
+  });
+
+  it('counts negotiations abandoned once the counterparty has waited abandonAfterDays', async () => {
+    const history = [
+      negotiationMessage(agent, counterparty, 'stale', 'initiated', 20),
+      negotiationMessage(counterparty, agent, 'stale', 'counter-offer', 10),
+      negotiationMessage(agent, counterparty, 'recent', 'initiated', 3),
+      negotiationMessage(counterparty, agent, 'recent', 'counter-offer', 2)
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.abandonedNegotiations).toBe(1);
+    expect(reputation.breakdown.negotiations).toBe(-3);
+  });
+
+  it('ignores negotiations the account never took part in', async () => {
+    const history = [
+      // Sent to the account in its name, but it never answered
+      negotiationMessage(counterparty, agent, 'unjoined', 'counter-offer', 30),
+      // Claims the account as a participant, but was sent between two other accounts
+      tx({
+        TransactionType: 'Payment',
+        Account: stranger,
+        Destination: counterparty,
+        Amount: '1',
+        Memos: [memo('xag:negotiation', { negotiationId: 'forged', participants: [did, `did:xrpl:1:${counterparty}`], status: 'rejected' })]
+      })
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.rejectedNegotiations).toBe(0);
+    expect(reputation.abandonedNegotiations).toBe(0);
+  });
+
+  it('penalises each cancelled intent once', async () => {
+    const history = [
+      intentUpdate('INTENT1', 'cancelled'),
+      intentUpdate('INTENT1', 'cancelled'),
+      intentUpdate('INTENT2', 'cancelled'),
+      intentUpdate('INTENT3', 'fulfilled')
+    ];
+    const reputation = await new ReputationService(mockClient(history)).getReputation(did);
+
+    expect(reputation.cancelledIntents).toBe(2);
+    expect(reputation.breakdown.intents).toBe(-2);
+  });
+
+  it('applies custom penalty factors and never scores below zero', async () => {
+    const history = [
+      tx({ TransactionType: 'EscrowCreate', Account: agent, Destination: counterparty, Amount: '1000000' }, { result: 'tecUNFUNDED' }),
+      intentUpdate('INTENT1', 'cancelled')
+    ];
+    const service = new ReputationService(mockClient(history), { factors: { failurePenalty: 7, cancelledIntentPenalty: 4 } });
+    const reputation = await service.getReputation(did);
+
+    expect(reputation.breakdown.failures).toBe(-7);
+    expect(reputation.breakdown.intents).toBe(-4);
+    expect(reputation.factors.failurePenalty).toBe(7);
+    expect(reputation.score).toBe(0);
+  });
+});
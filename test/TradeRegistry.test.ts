@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Client } from 'xrpl';
+import { TradeRegistry } from '../src/trades/TradeRegistry';
+import { EscrowManager } from '../src/escrow/EscrowManager';
+import { Money } from '../src/currency/Money';
+import { TradeResult } from '../src/types';
+
+const BUYER = 'rBuyerAddressXXXXXXXXXXXXXXXXXXXX';
+const SELLER = 'rSellerAddressXXXXXXXXXXXXXXXXXXX';
+
+function tradeResult(overrides: Partial<TradeResult> = {}): TradeResult {
+  return {
+    hash: 'TRADE',
+    sequence: 1,
+    amount: Money.xrp('10'),
+    token: 'XRP',
+    buyer: BUYER,
+    seller: SELLER,
+    ...overrides
+  };
+}
+
+function milestoneResult(): TradeResult {
+  return tradeResult({
+    hash: 'M0',
+    tradeId: 'trade-1',
+    milestones: [
+      { index: 0, hash: 'M0', sequence: 1, amount: Money.xrp('4') },
+      { index: 1, hash: 'M1', sequence: 2, amount: Money.xrp('6') }
+    ]
+  });
+}
+
+describe('TradeRegistry', () => {
+  const client = {} as Client;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a new trade as funded', async () => {
+    const registry = new TradeRegistry(client);
+    const record = await registry.record(tradeResult());
+
+    expect(record.state).toBe('funded');
+    expect(record.amount).toBe('10');
+    expect(record.history.map(entry => entry.state)).toEqual(['created', 'funded']);
+  });
+
+  it('allows moves the lifecycle permits and records how the trade resolved', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(tradeResult());
+
+    await registry.transition('TRADE', 'disputed', { reason: 'Late delivery' });
+    const record = await registry.transition('TRADE', 'fulfilled', { txHash: 'FINISH' });
+
+    expect(record.state).toBe('fulfilled');
+    expect(record.resolvedBy).toBe('FINISH');
+    expect(record.history.map(entry => entry.state)).toEqual(['created', 'funded', 'disputed', 'fulfilled']);
+  });
+
+  it('rejects moves out of a final state', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(tradeResult());
+    await registry.transition('TRADE', 'cancelled', { txHash: 'CANCEL' });
+
+    await expect(registry.transition('TRADE', 'funded')).rejects.toThrow('Invalid trade transition: cancelled -> funded');
+    await expect(registry.transition('TRADE', 'fulfilled')).rejects.toThrow('Invalid trade transition: cancelled -> fulfilled');
+  });
+
+  it('rejects moves the lifecycle skips', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(tradeResult());
+    await registry.transition('TRADE', 'expired');
+
+    await expect(registry.transition('TRADE', 'fulfilled')).rejects.toThrow('Invalid trade transition: expired -> fulfilled');
+  });
+
+  it('treats a move to the current state as a no-op', async () => {
+    const registry = new TradeRegistry(client);
+    const funded = await registry.record(tradeResult());
+    const again = await registry.transition('TRADE', 'funded');
+
+    expect(again.history).toHaveLength(funded.history.length);
+  });
+
+  it('rejects transitions of unknown trades', async () => {
+    const registry = new TradeRegistry(client);
+
+    await expect(registry.transition('MISSING', 'fulfilled')).rejects.toThrow('Trade MISSING is not registered');
+    expect(await registry.markResolved('MISSING', 'fulfilled', 'FINISH')).toBeUndefined();
+  });
+
+  it('resolves a milestone trade once every milestone is resolved', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(milestoneResult());
+
+    const partial = await registry.markResolved('M0', 'fulfilled', 'FINISH0');
+    expect(partial!.state).toBe('funded');
+    expect(partial!.milestones!.map(milestone => milestone.status)).toEqual(['fulfilled', 'pending']);
+
+    const resolved = await registry.markResolved('M1', 'cancelled', 'CANCEL1');
+    expect(resolved!.state).toBe('fulfilled');
+    expect(resolved!.id).toBe('trade-1');
+  });
+
+  it('cancels a milestone trade when every milestone was cancelled', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(milestoneResult());
+
+    await registry.markResolved('M0', 'cancelled', 'CANCEL0');
+    const resolved = await registry.markResolved('M1', 'cancelled', 'CANCEL1');
+    expect(resolved!.state).toBe('cancelled');
+  });
+
+  it('fulfils an expired milestone trade once its expired milestones are cancelled', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(milestoneResult());
+    const getTradeStatus = vi.spyOn(EscrowManager.prototype, 'getTradeStatus');
+
+    getTradeStatus.mockResolvedValueOnce({ status: 'fulfilled', resolvedBy: 'FINISH0' });
+    getTradeStatus.mockResolvedValueOnce({ status: 'expired' });
+    expect((await registry.reconcile('trade-1')).state).toBe('expired');
+
+    const resolved = await registry.markResolved('M1', 'cancelled', 'CANCEL1');
+    expect(resolved!.state).toBe('fulfilled');
+    expect(resolved!.history.map(entry => entry.state)).toEqual(['created', 'funded', 'expired', 'fulfilled']);
+  });
+
+  it('follows the ledger when reconciling', async () => {
+    const registry = new TradeRegistry(client);
+    await registry.record(tradeResult());
+    const getTradeStatus = vi.spyOn(EscrowManager.prototype, 'getTradeStatus');
+
+    getTradeStatus.mockResolvedValueOnce({ status: 'expired' });
+    expect((await registry.reconcile('TRADE')).state).toBe('expired');
+
+    getTradeStatus.mockResolvedValueOnce({ status: 'cancelled', resolvedBy: 'CANCEL' });
+    const cancelled = await registry.reconcile('TRADE');
+    expect(cancelled.state).toBe('cancelled');
+    expect(cancelled.resolvedBy).toBe('CANCEL');
+
+    // Final trades are not read again
+    expect((await registry.reconcile('TRADE')).state).toBe('cancelled');
+    expect(getTradeStatus).toHaveBeenCalledTimes(2);
+  });
+});